@@ -0,0 +1,176 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { applyRewrite, rewriteBullet } from '@/app/actions/rewrite-bullet'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { Check, Loader2, Pencil, Wand2, X, XCircle } from 'lucide-react'
+import type { Suggestion } from '@/lib/types/database'
+
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 dark:bg-input/30'
+
+type BulletRewriterProps = {
+  analysisId: string
+  bullet: string
+  // Why the analysis flagged this bullet, when it came from a suggestion
+  reason?: string
+}
+
+type Candidate = Suggestion & {
+  // Set while the user edits the candidate before accepting it
+  draft: string | null
+}
+
+/**
+ * One resume bullet with a "Fix This" button
+ * Rewrite candidates can be accepted as is, edited first, or rejected; accepted ones go to the tailored resume.
+ */
+export function BulletRewriter({ analysisId, bullet, reason }: BulletRewriterProps) {
+  const router = useRouter()
+  const [candidates, setCandidates] = useState<Candidate[] | null>(null)
+  const [keywords, setKeywords] = useState<string[]>([])
+  const [pending, setPending] = useState<'rewrite' | number | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleRewrite = async () => {
+    setPending('rewrite')
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+      formData.append('bullet', bullet)
+
+      const response = await rewriteBullet(formData)
+      if (response.success && response.data) {
+        setCandidates(response.data.candidates.map((candidate) => ({ ...candidate, draft: null })))
+        setKeywords(response.data.keywords)
+      } else {
+        setError(response.error || 'Failed to rewrite the bullet point')
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const updateCandidate = (index: number, draft: string | null) => {
+    setCandidates((current) => current?.map((candidate, i) => (i === index ? { ...candidate, draft } : candidate)) ?? null)
+  }
+
+  const rejectCandidate = (index: number) => {
+    setCandidates((current) => {
+      const remaining = current?.filter((_, i) => i !== index) ?? []
+      return remaining.length > 0 ? remaining : null
+    })
+  }
+
+  const acceptCandidate = async (index: number) => {
+    const { draft, ...suggestion } = candidates![index]
+    setPending(index)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+      formData.append('original', bullet)
+      formData.append('replacement', draft ?? suggestion.suggested)
+      formData.append('suggestion', JSON.stringify(suggestion))
+
+      const response = await applyRewrite(formData)
+      if (response.success) {
+        // The page re-renders from the tailored resume, where this bullet is now replaced
+        setCandidates(null)
+        router.refresh()
+      } else {
+        setError(response.error || 'Failed to apply the rewrite')
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred')
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const isBusy = pending !== null
+
+  return (
+    <div className="space-y-3 py-3">
+      <div className="flex items-start justify-between gap-4">
+        <div className="text-sm">
+          <p>{bullet}</p>
+          {reason && <p className="mt-1 text-zinc-500">{reason}</p>}
+        </div>
+        {!candidates && (
+          <Button variant="outline" size="sm" onClick={handleRewrite} disabled={isBusy}>
+            {pending === 'rewrite' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+            Fix This
+          </Button>
+        )}
+      </div>
+
+      {candidates && (
+        <div className="space-y-2 rounded border p-3">
+          <p className="text-xs text-zinc-500">
+            {keywords.length > 0 ? `Working in: ${keywords.join(', ')}` : 'No missing keywords to work in; rewritten for impact.'}
+          </p>
+          <ul className="space-y-3">
+            {candidates.map((candidate, index) => (
+              <li key={index} className="space-y-2 text-sm">
+                {candidate.draft !== null ? (
+                  <textarea
+                    aria-label="Edit rewrite"
+                    rows={3}
+                    value={candidate.draft}
+                    onChange={(e) => updateCandidate(index, e.target.value)}
+                    disabled={isBusy}
+                    className={fieldClassName}
+                  />
+                ) : (
+                  <>
+                    <p>{candidate.suggested}</p>
+                    <p className="text-zinc-500">{candidate.reason}</p>
+                  </>
+                )}
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    onClick={() => acceptCandidate(index)}
+                    disabled={isBusy || candidate.draft?.trim() === ''}
+                  >
+                    {pending === index ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Check className="mr-2 h-4 w-4" />}
+                    Accept
+                  </Button>
+                  {candidate.draft === null ? (
+                    <Button size="sm" variant="outline" onClick={() => updateCandidate(index, candidate.suggested)} disabled={isBusy}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Edit
+                    </Button>
+                  ) : (
+                    <Button size="sm" variant="outline" onClick={() => updateCandidate(index, null)} disabled={isBusy}>
+                      Undo Edit
+                    </Button>
+                  )}
+                  <Button size="sm" variant="ghost" onClick={() => rejectCandidate(index)} disabled={isBusy}>
+                    <X className="mr-2 h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {error && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
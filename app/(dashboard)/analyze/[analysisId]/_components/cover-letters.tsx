@@ -0,0 +1,263 @@
+'use client'
+
+import { useState } from 'react'
+import { deleteCoverLetter, generateCoverLetter, saveCoverLetter } from '@/app/actions/cover-letter'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, Copy, Download, Loader2, Save, Sparkles, Trash2, XCircle } from 'lucide-react'
+import type { CoverLetter, CoverLetterLength, CoverLetterTone } from '@/lib/types/database'
+
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 dark:bg-input/30'
+
+const TONES: Array<{ value: CoverLetterTone; label: string }> = [
+  { value: 'professional', label: 'Professional' },
+  { value: 'enthusiastic', label: 'Enthusiastic' },
+  { value: 'conversational', label: 'Conversational' },
+]
+
+const LENGTHS: Array<{ value: CoverLetterLength; label: string }> = [
+  { value: 'short', label: 'Short (about 150 words)' },
+  { value: 'medium', label: 'Medium (about 250 words)' },
+  { value: 'long', label: 'Long (about 350 words)' },
+]
+
+const DOWNLOAD_FORMATS = [
+  { format: 'docx', label: 'DOCX' },
+  { format: 'txt', label: 'Text' },
+  { format: 'md', label: 'Markdown' },
+] as const
+
+type CoverLettersProps = {
+  analysisId: string
+  // Letters saved for this analysis, newest first
+  coverLetters: CoverLetter[]
+}
+
+/**
+ * Generate cover letters for an analysis in a chosen tone and length, and edit or download them
+ */
+export function CoverLetters({ analysisId, coverLetters: initialLetters }: CoverLettersProps) {
+  const [coverLetters, setCoverLetters] = useState(initialLetters)
+  const [tone, setTone] = useState<CoverLetterTone>('professional')
+  const [length, setLength] = useState<CoverLetterLength>('medium')
+  const [isGenerating, setIsGenerating] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleGenerate = async () => {
+    setIsGenerating(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+      formData.append('tone', tone)
+      formData.append('length', length)
+
+      const response = await generateCoverLetter(formData)
+      if (response.success && response.data) {
+        setCoverLetters((current) => [response.data!.coverLetter, ...current])
+      } else {
+        setError(response.error || 'Failed to generate a cover letter')
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred')
+    } finally {
+      setIsGenerating(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Cover Letters</CardTitle>
+        <CardDescription>
+          Letters for this job written from your resume, the job description and the gaps found. Each letter costs
+          1 credit and is kept with this analysis.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+          <div className="space-y-2">
+            <label htmlFor={`cover-letter-tone-${analysisId}`} className="text-sm font-medium">Tone</label>
+            <select
+              id={`cover-letter-tone-${analysisId}`}
+              value={tone}
+              onChange={(e) => setTone(e.target.value as CoverLetterTone)}
+              disabled={isGenerating}
+              className={fieldClassName}
+            >
+              {TONES.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label htmlFor={`cover-letter-length-${analysisId}`} className="text-sm font-medium">Length</label>
+            <select
+              id={`cover-letter-length-${analysisId}`}
+              value={length}
+              onChange={(e) => setLength(e.target.value as CoverLetterLength)}
+              disabled={isGenerating}
+              className={fieldClassName}
+            >
+              {LENGTHS.map((option) => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+          <Button variant="outline" onClick={handleGenerate} disabled={isGenerating}>
+            {isGenerating ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+            Generate Letter
+          </Button>
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <XCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {coverLetters.map((coverLetter) => (
+          <CoverLetterDraft
+            key={coverLetter.id}
+            coverLetter={coverLetter}
+            onSaved={(saved) => setCoverLetters((current) => current.map((letter) => (letter.id === saved.id ? saved : letter)))}
+            onDeleted={() => setCoverLetters((current) => current.filter((letter) => letter.id !== coverLetter.id))}
+          />
+        ))}
+      </CardContent>
+    </Card>
+  )
+}
+
+type CoverLetterDraftProps = {
+  coverLetter: CoverLetter
+  onSaved: (coverLetter: CoverLetter) => void
+  onDeleted: () => void
+}
+
+/**
+ * One editable letter with save, copy, download and delete
+ */
+function CoverLetterDraft({ coverLetter, onSaved, onDeleted }: CoverLetterDraftProps) {
+  const [text, setText] = useState(coverLetter.text)
+  const [pending, setPending] = useState<'save' | 'delete' | null>(null)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const handleSave = async () => {
+    setPending('save')
+    setResult(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('coverLetterId', coverLetter.id)
+      formData.append('text', text)
+
+      const response = await saveCoverLetter(formData)
+      if (response.success && response.data) {
+        onSaved(response.data.coverLetter)
+        setText(response.data.coverLetter.text)
+        setResult({ success: true, message: 'Cover letter saved.' })
+      } else {
+        setResult({ success: false, message: response.error || 'Failed to save the cover letter' })
+      }
+    } catch (error) {
+      setResult({ success: false, message: error instanceof Error ? error.message : 'An unexpected error occurred' })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    setPending('delete')
+    setResult(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('coverLetterId', coverLetter.id)
+
+      const response = await deleteCoverLetter(formData)
+      if (response.success) {
+        onDeleted()
+        return
+      }
+      setResult({ success: false, message: response.error || 'Failed to delete the cover letter' })
+    } catch (error) {
+      setResult({ success: false, message: error instanceof Error ? error.message : 'An unexpected error occurred' })
+    }
+    setPending(null)
+    setConfirmingDelete(false)
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(text)
+    setResult({ success: true, message: 'Cover letter copied to the clipboard.' })
+  }
+
+  const isBusy = pending !== null
+  const isDirty = text.trim() !== coverLetter.text.trim()
+
+  return (
+    <div className="space-y-2 rounded border p-3">
+      <p className="text-xs uppercase tracking-wide text-zinc-500">
+        {coverLetter.length} · {coverLetter.tone} · {new Date(coverLetter.created_at).toLocaleString()}
+        {coverLetter.edited && ' · edited'}
+      </p>
+      <textarea
+        aria-label="Cover letter text"
+        rows={14}
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        disabled={isBusy}
+        className={fieldClassName}
+      />
+      <div className="flex flex-wrap gap-2">
+        <Button size="sm" onClick={handleSave} disabled={isBusy || !isDirty || !text.trim()}>
+          {pending === 'save' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+          Save
+        </Button>
+        <Button size="sm" variant="outline" onClick={handleCopy} disabled={isBusy || !text.trim()}>
+          <Copy className="mr-2 h-4 w-4" />
+          Copy
+        </Button>
+        {DOWNLOAD_FORMATS.map(({ format, label }) => (
+          <Button key={format} size="sm" variant="outline" asChild>
+            {/* API route, so a plain link instead of client-side navigation; downloads the saved text */}
+            <a href={`/api/cover-letters/${coverLetter.id}/export?format=${format}`}>
+              <Download className="mr-2 h-4 w-4" />
+              {label}
+            </a>
+          </Button>
+        ))}
+        {confirmingDelete ? (
+          <>
+            <Button size="sm" variant="destructive" onClick={handleDelete} disabled={isBusy}>
+              {pending === 'delete' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Confirm Delete
+            </Button>
+            <Button size="sm" variant="ghost" onClick={() => setConfirmingDelete(false)} disabled={isBusy}>
+              Cancel
+            </Button>
+          </>
+        ) : (
+          <Button size="sm" variant="outline" onClick={() => setConfirmingDelete(true)} disabled={isBusy}>
+            <Trash2 className="mr-2 h-4 w-4" />
+            Delete
+          </Button>
+        )}
+      </div>
+      {isDirty && <p className="text-xs text-zinc-500">Unsaved changes are not included in downloads.</p>}
+
+      {result && (
+        <Alert variant={result.success ? 'default' : 'destructive'}>
+          {result.success ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+          <AlertDescription>{result.message}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
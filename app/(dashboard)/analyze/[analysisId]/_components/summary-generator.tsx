@@ -0,0 +1,164 @@
+'use client'
+
+import { useState } from 'react'
+import { generateSummaries, saveSummary, type SummaryCandidate } from '@/app/actions/generate-summary'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, Copy, Loader2, Save, Sparkles, XCircle } from 'lucide-react'
+
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 dark:bg-input/30'
+
+type SummaryGeneratorProps = {
+  analysisId: string
+  // Summary saved on the analysis earlier
+  savedSummary: string | null
+}
+
+/**
+ * Generate tailored summary candidates, pick one, edit it and save it on the analysis
+ */
+export function SummaryGenerator({ analysisId, savedSummary }: SummaryGeneratorProps) {
+  const [summary, setSummary] = useState(savedSummary ?? '')
+  const [saved, setSaved] = useState(savedSummary ?? '')
+  const [candidates, setCandidates] = useState<SummaryCandidate[] | null>(null)
+  const [keywords, setKeywords] = useState<string[]>([])
+  const [pending, setPending] = useState<'generate' | 'save' | null>(null)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const handleGenerate = async () => {
+    setPending('generate')
+    setResult(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+
+      const response = await generateSummaries(formData)
+      if (response.success && response.data) {
+        setCandidates(response.data.candidates)
+        setKeywords(response.data.keywords)
+      } else {
+        setResult({ success: false, message: response.error || 'Failed to generate summaries' })
+      }
+    } catch (error) {
+      setResult({ success: false, message: error instanceof Error ? error.message : 'An unexpected error occurred' })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleSave = async () => {
+    setPending('save')
+    setResult(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+      formData.append('summary', summary)
+
+      const response = await saveSummary(formData)
+      if (response.success) {
+        setSaved(response.data?.summary ?? '')
+        setResult({ success: true, message: 'Summary saved to this analysis.' })
+      } else {
+        setResult({ success: false, message: response.error || 'Failed to save the summary' })
+      }
+    } catch (error) {
+      setResult({ success: false, message: error instanceof Error ? error.message : 'An unexpected error occurred' })
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleCopy = async () => {
+    await navigator.clipboard.writeText(summary)
+    setResult({ success: true, message: 'Summary copied to the clipboard.' })
+  }
+
+  const isBusy = pending !== null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Professional Summary</CardTitle>
+        <CardDescription>
+          A summary tailored to this job, based on your experience and the role&apos;s key requirements. Generating
+          costs 1 credit.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button variant="outline" onClick={handleGenerate} disabled={isBusy}>
+          {pending === 'generate' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Sparkles className="mr-2 h-4 w-4" />}
+          {candidates ? 'Generate Again' : 'Generate Summaries'}
+        </Button>
+
+        {candidates && (
+          <ul className="space-y-3">
+            {candidates.map((candidate, index) => (
+              <li key={index} className="space-y-2 rounded border p-3 text-sm">
+                <p className="text-xs uppercase tracking-wide text-zinc-500">
+                  {candidate.length} · {candidate.tone}
+                </p>
+                <p>{candidate.suggested}</p>
+                <div className="flex flex-wrap items-center gap-2">
+                  {keywords.map((keyword) => (
+                    <span
+                      key={keyword}
+                      className={`rounded-full px-2 py-0.5 text-xs ${
+                        candidate.keywords.includes(keyword)
+                          ? 'bg-green-100 text-green-800 dark:bg-green-950 dark:text-green-300'
+                          : 'bg-zinc-100 text-zinc-500 line-through dark:bg-zinc-800'
+                      }`}
+                    >
+                      {keyword}
+                    </span>
+                  ))}
+                  <span className="text-xs text-zinc-500">
+                    {candidate.keywords.length} of {keywords.length} keywords
+                  </span>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => setSummary(candidate.suggested)} disabled={isBusy}>
+                  Use This
+                </Button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <div className="space-y-2">
+          <label htmlFor={`summary-${analysisId}`} className="text-sm font-medium">
+            Your summary
+          </label>
+          <textarea
+            id={`summary-${analysisId}`}
+            rows={4}
+            placeholder="Pick a generated summary or write your own"
+            value={summary}
+            onChange={(e) => setSummary(e.target.value)}
+            disabled={isBusy}
+            className={fieldClassName}
+          />
+          <div className="flex gap-2">
+            <Button onClick={handleSave} disabled={isBusy || summary.trim() === saved.trim()}>
+              {pending === 'save' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Summary
+            </Button>
+            <Button variant="outline" onClick={handleCopy} disabled={isBusy || !summary.trim()}>
+              <Copy className="mr-2 h-4 w-4" />
+              Copy
+            </Button>
+          </div>
+        </div>
+
+        {result && (
+          <Alert variant={result.success ? 'default' : 'destructive'}>
+            {result.success ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            <AlertDescription>{result.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
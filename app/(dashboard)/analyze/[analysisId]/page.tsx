@@ -0,0 +1,162 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { firstRelation } from '@/lib/supabase/relations'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { parseResumeStructure } from '@/lib/parsing/resume-parser'
+import type { Analysis, CoverLetter, Resume, TailoredResume } from '@/lib/types/database'
+import { BulletRewriter } from './_components/bullet-rewriter'
+import { CoverLetters } from './_components/cover-letters'
+import { SummaryGenerator } from './_components/summary-generator'
+
+type ResumeSummary = Pick<Resume, 'id' | 'title' | 'raw_text'>
+
+type AnalysisPageProps = {
+  params: Promise<{ analysisId: string }>
+}
+
+export default async function AnalysisPage({ params }: AnalysisPageProps) {
+  const { analysisId } = await params
+  const supabase = await createClient()
+
+  const [{ data }, { data: tailoredData }, { data: coverLetters }] = await Promise.all([
+    supabase
+      .from('analyses')
+      .select('*, resume:resumes(id, title, raw_text)')
+      .eq('id', analysisId)
+      .maybeSingle(),
+    supabase
+      .from('tailored_resumes')
+      .select()
+      .eq('analysis_id', analysisId)
+      .maybeSingle(),
+    supabase
+      .from('cover_letters')
+      .select()
+      .eq('analysis_id', analysisId)
+      .order('created_at', { ascending: false }),
+  ])
+
+  if (!data) {
+    notFound()
+  }
+
+  const { resume: embedded, ...rest } = data as Analysis & { resume: ResumeSummary | ResumeSummary[] }
+  const analysis = { ...rest, resume: firstRelation(embedded) }
+  const tailored = tailoredData as TailoredResume | null
+
+  // Bullets come from the tailored resume once it was started, so fixed bullets show their new text
+  const text = tailored?.text ?? analysis.resume.raw_text ?? ''
+  const roles = parseResumeStructure(text).experience.filter((role) => role.bullets.length > 0)
+  const flaggedBullets = analysis.suggestions.filter(
+    (suggestion) => suggestion.type === 'bullet_point' && suggestion.original && text.includes(suggestion.original)
+  )
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/analyze" className="text-sm text-zinc-500 underline">
+          Back to Analyze
+        </Link>
+        <h1 className="text-3xl font-bold">
+          {analysis.job_title || 'Untitled role'}
+          {analysis.company_name && <span className="text-zinc-500"> at {analysis.company_name}</span>}
+        </h1>
+        <p className="text-zinc-500 dark:text-zinc-400">
+          Match score {analysis.match_score ?? '–'}% ·{' '}
+          <Link href={`/vault/${analysis.resume.id}`} className="underline">
+            {analysis.resume.title}
+          </Link>
+          {' · '}Analyzed {new Date(analysis.created_at).toLocaleDateString()}
+        </p>
+      </div>
+
+      <SummaryGenerator analysisId={analysis.id} savedSummary={analysis.tailored_summary} />
+
+      {/* Flagged Bullets */}
+      {flaggedBullets.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Flagged Bullet Points</CardTitle>
+            <CardDescription>Lines the analysis suggested improving for this job</CardDescription>
+          </CardHeader>
+          <CardContent className="divide-y">
+            {flaggedBullets.map((suggestion) => (
+              <BulletRewriter
+                key={suggestion.original}
+                analysisId={analysis.id}
+                bullet={suggestion.original!}
+                reason={suggestion.reason}
+              />
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Experience Bullets */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Fix Bullet Points</CardTitle>
+          <CardDescription>
+            Rewrite any bullet to work in missing keywords. Each rewrite costs 1 credit; accepted rewrites go to the
+            tailored resume, and your original resume stays unchanged.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {analysis.missing_keywords.length > 0 && (
+            <p className="text-sm text-zinc-500">Missing keywords: {analysis.missing_keywords.join(', ')}</p>
+          )}
+          {roles.length > 0 ? (
+            roles.map((role, roleIndex) => (
+              <div key={roleIndex}>
+                <h4 className="text-sm font-medium">
+                  {role.title || 'Role'}
+                  {role.company && <span className="text-zinc-500"> at {role.company}</span>}
+                </h4>
+                <div className="divide-y">
+                  {role.bullets.map((bullet, bulletIndex) => (
+                    <BulletRewriter key={`${bulletIndex}:${bullet}`} analysisId={analysis.id} bullet={bullet} />
+                  ))}
+                </div>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-zinc-500">No bullet points were found in this resume&apos;s experience section.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Tailored Resume */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Tailored Resume</CardTitle>
+          <CardDescription>
+            {tailored
+              ? `Match score ${tailored.match_score ?? '–'}% · ${tailored.accepted_suggestions.length} rewrite${tailored.accepted_suggestions.length === 1 ? '' : 's'} accepted · last changed ${new Date(tailored.updated_at).toLocaleString()}`
+              : 'Edit a copy of your resume for this job, section by section, and watch the match score as you go'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tailored && tailored.accepted_suggestions.length > 0 && (
+            <ul className="space-y-2 text-sm">
+              {tailored.accepted_suggestions.map((accepted, index) => (
+                <li key={index}>
+                  <p className="text-zinc-500 line-through">{accepted.original}</p>
+                  <p>
+                    {accepted.replacement}
+                    {accepted.edited && <span className="text-zinc-500"> (edited)</span>}
+                  </p>
+                </li>
+              ))}
+            </ul>
+          )}
+          <Link href={`/analyze/${analysis.id}/tailor`} className="text-sm underline">
+            {tailored ? 'Open the tailored resume editor' : 'Start tailoring this resume'}
+          </Link>
+        </CardContent>
+      </Card>
+
+      <CoverLetters analysisId={analysis.id} coverLetters={(coverLetters ?? []) as CoverLetter[]} />
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { startTailoredResume } from '@/app/actions/tailored-resume'
+import { Button } from '@/components/ui/button'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { FilePen, Loader2, XCircle } from 'lucide-react'
+
+/**
+ * Create the tailored resume for an analysis, then show the editor
+ */
+export function StartTailoringButton({ analysisId }: { analysisId: string }) {
+  const router = useRouter()
+  const [isStarting, setIsStarting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleStart = async () => {
+    setIsStarting(true)
+    setError(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+
+      const response = await startTailoredResume(formData)
+      if (response.success) {
+        router.refresh()
+      } else {
+        setError(response.error || 'Failed to start tailoring')
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred')
+    } finally {
+      setIsStarting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <Button onClick={handleStart} disabled={isStarting}>
+        {isStarting ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FilePen className="mr-2 h-4 w-4" />}
+        Start Tailoring
+      </Button>
+      {error && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+    </div>
+  )
+}
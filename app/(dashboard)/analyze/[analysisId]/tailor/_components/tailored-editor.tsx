@@ -0,0 +1,176 @@
+'use client'
+
+import { useDeferredValue, useMemo, useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { saveTailoredSections } from '@/app/actions/tailored-resume'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, Loader2, RotateCcw, Save, XCircle } from 'lucide-react'
+import { scoreByKeywords } from '@/lib/scoring/keyword-engine'
+import { joinResumeSections } from '@/lib/utils/resume-edits'
+import type { TailoredSection } from '@/lib/types/database'
+
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 font-mono text-xs shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 dark:bg-input/30'
+
+type TailoredEditorProps = {
+  analysisId: string
+  jobDescription: string
+  requirements: { mustHave: string[]; niceToHave: string[] } | undefined
+  originalSections: TailoredSection[]
+  sections: TailoredSection[]
+  originalScore: number
+}
+
+/**
+ * Side-by-side editor for a tailored resume
+ * The match score is recomputed in the browser with the keyword scorer as the user types.
+ */
+export function TailoredEditor({
+  analysisId,
+  jobDescription,
+  requirements,
+  originalSections,
+  sections: savedSections,
+  originalScore,
+}: TailoredEditorProps) {
+  const router = useRouter()
+  const [saved, setSaved] = useState(savedSections)
+  const [sections, setSections] = useState(savedSections)
+  const [isSaving, setIsSaving] = useState(false)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  // Scoring every keystroke of a long resume is noticeable, so let typing take priority
+  const deferredSections = useDeferredValue(sections)
+  const score = useMemo(
+    () => scoreByKeywords({ resumeText: joinResumeSections(deferredSections), jobDescription, requirements }),
+    [deferredSections, jobDescription, requirements]
+  )
+
+  const isDirty = sections.some((section, index) => section.text !== saved[index]?.text)
+
+  const getOriginalText = (section: TailoredSection) =>
+    originalSections.find((candidate) => candidate.heading === section.heading)?.text
+
+  const updateSection = (index: number, text: string) => {
+    setSections((current) => current.map((section, i) => (i === index ? { ...section, text } : section)))
+  }
+
+  const handleSave = async () => {
+    setIsSaving(true)
+    setResult(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('analysisId', analysisId)
+      formData.append('sections', JSON.stringify(sections))
+
+      const response = await saveTailoredSections(formData)
+      if (response.success) {
+        setSaved(sections)
+        setResult({ success: true, message: 'Tailored resume saved.' })
+        router.refresh()
+      } else {
+        setResult({ success: false, message: response.error || 'Failed to save the tailored resume' })
+      }
+    } catch (error) {
+      setResult({ success: false, message: error instanceof Error ? error.message : 'An unexpected error occurred' })
+    } finally {
+      setIsSaving(false)
+    }
+  }
+
+  const scoreChange = score.matchScore - originalScore
+
+  return (
+    <div className="space-y-6">
+      {/* Live Score */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Match Score: {score.matchScore}%
+            <span className={`ml-2 text-base ${scoreChange > 0 ? 'text-green-700 dark:text-green-400' : scoreChange < 0 ? 'text-red-700 dark:text-red-400' : 'text-zinc-500'}`}>
+              ({scoreChange >= 0 ? '+' : ''}{scoreChange} vs. original {originalScore}%)
+            </span>
+          </CardTitle>
+          <CardDescription>Keyword match against the job description, updated as you edit</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <h4 className="mb-2 text-sm font-medium">Still Missing</h4>
+            {score.missingKeywords.length > 0 ? (
+              <div className="flex flex-wrap gap-2">
+                {score.missingKeywords.map((keyword) => (
+                  <span key={keyword} className="rounded-full bg-zinc-100 px-3 py-1 text-xs dark:bg-zinc-800">
+                    {keyword}
+                  </span>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-zinc-500">Every keyword from the job description is covered.</p>
+            )}
+          </div>
+
+          <div className="flex items-center gap-3">
+            <Button onClick={handleSave} disabled={isSaving || !isDirty}>
+              {isSaving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+              Save Changes
+            </Button>
+            {isDirty && <span className="text-sm text-zinc-500">Unsaved changes</span>}
+          </div>
+
+          {result && (
+            <Alert variant={result.success ? 'default' : 'destructive'}>
+              {result.success ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+              <AlertDescription>{result.message}</AlertDescription>
+            </Alert>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Sections, original on the left and tailored on the right */}
+      {sections.map((section, index) => {
+        const originalText = getOriginalText(section)
+        const isChanged = originalText !== undefined && section.text !== originalText
+
+        return (
+          <Card key={`${index}:${section.heading}`}>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between text-base">
+                <span>{section.heading ?? 'Contact Details'}</span>
+                {isChanged && (
+                  <Button size="sm" variant="ghost" onClick={() => updateSection(index, originalText)} disabled={isSaving}>
+                    <RotateCcw className="mr-2 h-4 w-4" />
+                    Reset to Original
+                  </Button>
+                )}
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-1">
+                <p className="text-xs uppercase tracking-wide text-zinc-500">Original</p>
+                <pre className="whitespace-pre-wrap rounded bg-zinc-100 p-3 text-xs dark:bg-zinc-800">
+                  {originalText ?? 'Not in the original resume'}
+                </pre>
+              </div>
+              <div className="space-y-1">
+                <label htmlFor={`tailored-section-${index}`} className="text-xs uppercase tracking-wide text-zinc-500">
+                  Tailored{isChanged && ' · edited'}
+                </label>
+                <textarea
+                  id={`tailored-section-${index}`}
+                  rows={Math.min(Math.max(section.text.split('\n').length + 1, 3), 24)}
+                  value={section.text}
+                  onChange={(e) => updateSection(index, e.target.value)}
+                  disabled={isSaving}
+                  className={fieldClassName}
+                />
+              </div>
+            </CardContent>
+          </Card>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,127 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { firstRelation } from '@/lib/supabase/relations'
+import { getTailoredResume, getTailoredSections, scoreTailoredText } from '@/lib/supabase/tailored-resumes'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ResumeExportForm } from '@/components/resume-export-form'
+import { splitResumeSections } from '@/lib/utils/resume-edits'
+import type { Analysis, Resume } from '@/lib/types/database'
+import { StartTailoringButton } from './_components/start-tailoring-button'
+import { TailoredEditor } from './_components/tailored-editor'
+
+type AnalysisSummary = Pick<Analysis, 'id' | 'job_title' | 'company_name' | 'job_description_text' | 'job_details'>
+
+type ResumeSummary = Pick<Resume, 'id' | 'title' | 'raw_text'>
+
+type TailorPageProps = {
+  params: Promise<{ analysisId: string }>
+}
+
+export default async function TailorPage({ params }: TailorPageProps) {
+  const { analysisId } = await params
+  const supabase = await createClient()
+
+  const [{ data }, tailored] = await Promise.all([
+    supabase
+      .from('analyses')
+      .select('id, job_title, company_name, job_description_text, job_details, resume:resumes(id, title, raw_text)')
+      .eq('id', analysisId)
+      .maybeSingle(),
+    getTailoredResume(supabase, analysisId),
+  ])
+
+  if (!data) {
+    notFound()
+  }
+
+  const { resume: embedded, ...analysis } = data as AnalysisSummary & { resume: ResumeSummary | ResumeSummary[] }
+  const resume = firstRelation(embedded)
+
+  const originalSections = splitResumeSections(resume.raw_text ?? '')
+  // Scored with the same scorer as the editor, so the comparison is like for like
+  const originalScore = scoreTailoredText(resume.raw_text ?? '', analysis)
+  const requirements = analysis.job_details
+    ? { mustHave: analysis.job_details.mustHave, niceToHave: analysis.job_details.niceToHave }
+    : undefined
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href={`/analyze/${analysis.id}`} className="text-sm text-zinc-500 underline">
+          Back to Analysis
+        </Link>
+        <h1 className="text-3xl font-bold">Tailored Resume</h1>
+        <p className="text-zinc-500 dark:text-zinc-400">
+          {resume.title} for {analysis.job_title || 'Untitled role'}
+          {analysis.company_name && ` at ${analysis.company_name}`}. Your original resume stays unchanged.
+        </p>
+      </div>
+
+      {!tailored.success ? (
+        <p className="text-sm text-red-600">{tailored.error}</p>
+      ) : !tailored.data ? (
+        <Card>
+          <CardHeader>
+            <CardTitle>Start Tailoring</CardTitle>
+            <CardDescription>
+              Copy this resume&apos;s text into an editor for this job. Your original scores {originalScore}% against
+              the job description.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {resume.raw_text ? (
+              <StartTailoringButton analysisId={analysis.id} />
+            ) : (
+              <p className="text-sm text-zinc-500">This resume has no extracted text to tailor.</p>
+            )}
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <TailoredEditor
+            analysisId={analysis.id}
+            jobDescription={analysis.job_description_text}
+            requirements={requirements}
+            originalSections={originalSections}
+            sections={getTailoredSections(tailored.data)}
+            originalScore={originalScore}
+          />
+
+          {/* Export */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Export</CardTitle>
+              <CardDescription>
+                Download the last saved tailored resume. Templates apply to DOCX and PDF.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ResumeExportForm resumeId={resume.id} analysisId={analysis.id} text={tailored.data.text} />
+            </CardContent>
+          </Card>
+
+          {/* Change Log */}
+          <Card>
+            <CardHeader>
+              <CardTitle>Change Log</CardTitle>
+              <CardDescription>Every change to the tailored resume and the match score after it</CardDescription>
+            </CardHeader>
+            <CardContent>
+              <ul className="space-y-2 text-sm">
+                {[...tailored.data.change_log].reverse().map((change, index) => (
+                  <li key={index} className="flex items-center justify-between gap-4">
+                    <span className="min-w-0 truncate">{change.description}</span>
+                    <span className="shrink-0 text-zinc-500">
+                      {change.match_score}% · {new Date(change.at).toLocaleString()}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,268 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { analyzeResume } from '@/app/actions/analyze-resume'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { JobProgress, useJob } from '@/components/job-progress'
+import { Loader2, Search, XCircle } from 'lucide-react'
+import type { Resume } from '@/lib/types/database'
+import type { AnalyzeJobResult } from '@/lib/jobs'
+
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 dark:bg-input/30'
+
+type AnalyzeFormProps = {
+  resumes: Pick<Resume, 'id' | 'title'>[]
+}
+
+export function AnalyzeForm({ resumes }: AnalyzeFormProps) {
+  const router = useRouter()
+  const [resumeId, setResumeId] = useState(resumes[0]?.id ?? '')
+  const [jobDescription, setJobDescription] = useState('')
+  const [jobTitle, setJobTitle] = useState('')
+  const [companyName, setCompanyName] = useState('')
+  const [isSubmitting, setIsSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  // Analyze job for the last scan; the analysis runs in the background
+  const [jobId, setJobId] = useState<string | null>(null)
+  const job = useJob(jobId)
+  const analysis = job?.status === 'succeeded' ? (job.result as AnalyzeJobResult) : null
+  const isAnalyzing = isSubmitting || (!!jobId && job?.status !== 'succeeded' && job?.status !== 'failed')
+
+  // Refresh the saved analyses list once the analysis is stored
+  useEffect(() => {
+    if (job?.status === 'succeeded') {
+      router.refresh()
+    }
+  }, [job?.status, router])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    setIsSubmitting(true)
+    setError(null)
+    setJobId(null)
+
+    try {
+      const formData = new FormData()
+      formData.append('resumeId', resumeId)
+      formData.append('jobDescription', jobDescription)
+      if (jobTitle) {
+        formData.append('jobTitle', jobTitle)
+      }
+      if (companyName) {
+        formData.append('companyName', companyName)
+      }
+
+      const response = await analyzeResume(formData)
+
+      if (response.success && response.data) {
+        setJobId(response.data.jobId)
+      } else {
+        setError(response.error || 'Failed to analyze resume')
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'An unexpected error occurred')
+    } finally {
+      setIsSubmitting(false)
+    }
+  }
+
+  if (resumes.length === 0) {
+    return (
+      <div className="rounded-lg border border-dashed p-8 text-center text-zinc-500">
+        Upload a resume in the <Link href="/vault" className="underline">Vault</Link> before running an analysis.
+      </div>
+    )
+  }
+
+  return (
+    <div className="grid gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Scan</CardTitle>
+          <CardDescription>
+            Select a resume and paste the job description you are targeting
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="space-y-4">
+            {/* Resume Select */}
+            <div className="space-y-2">
+              <Label htmlFor="analyze-resume">Resume</Label>
+              <select
+                id="analyze-resume"
+                value={resumeId}
+                onChange={(e) => setResumeId(e.target.value)}
+                disabled={isAnalyzing}
+                className={fieldClassName}
+              >
+                {resumes.map((resume) => (
+                  <option key={resume.id} value={resume.id}>
+                    {resume.title}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Job Title and Company */}
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="analyze-job-title">Job Title (Optional)</Label>
+                <Input
+                  id="analyze-job-title"
+                  type="text"
+                  placeholder="Detected from the job description"
+                  value={jobTitle}
+                  onChange={(e) => setJobTitle(e.target.value)}
+                  disabled={isAnalyzing}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="analyze-company-name">Company (Optional)</Label>
+                <Input
+                  id="analyze-company-name"
+                  type="text"
+                  placeholder="Detected from the job description"
+                  value={companyName}
+                  onChange={(e) => setCompanyName(e.target.value)}
+                  disabled={isAnalyzing}
+                />
+              </div>
+            </div>
+
+            {/* Job Description */}
+            <div className="space-y-2">
+              <Label htmlFor="analyze-job-description">Job Description</Label>
+              <textarea
+                id="analyze-job-description"
+                rows={10}
+                placeholder="Paste the full job description here..."
+                value={jobDescription}
+                onChange={(e) => setJobDescription(e.target.value)}
+                disabled={isAnalyzing}
+                className={fieldClassName}
+              />
+            </div>
+
+            {/* Submit Button */}
+            <Button type="submit" disabled={!resumeId || !jobDescription.trim() || isAnalyzing} className="w-full">
+              {isAnalyzing ? (
+                <>
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  Analyzing...
+                </>
+              ) : (
+                <>
+                  <Search className="mr-2 h-4 w-4" />
+                  Analyze Resume
+                </>
+              )}
+            </Button>
+
+            {/* Analysis Progress */}
+            {jobId && isAnalyzing && <JobProgress job={job} />}
+
+            {/* Error Message */}
+            {job?.status === 'failed' && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertDescription>
+                  {job.error || 'Failed to analyze resume'}. Your credit has been refunded.
+                </AlertDescription>
+              </Alert>
+            )}
+            {error && (
+              <Alert variant="destructive">
+                <XCircle className="h-4 w-4" />
+                <AlertDescription>{error}</AlertDescription>
+              </Alert>
+            )}
+          </form>
+        </CardContent>
+      </Card>
+
+      {analysis && <AnalysisResult analysis={analysis} />}
+    </div>
+  )
+}
+
+function AnalysisResult({ analysis }: { analysis: AnalyzeJobResult }) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Match Score: {analysis.matchScore}%</CardTitle>
+        <CardDescription>
+          {analysis.jobTitle || analysis.companyName
+            ? `${analysis.jobTitle ?? 'Role'}${analysis.companyName ? ` at ${analysis.companyName}` : ''} · `
+            : ''}
+          Based on the job description&apos;s skills and keywords found in your resume
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Missing Keywords */}
+        <div>
+          <h4 className="text-sm font-medium mb-2">Missing Keywords</h4>
+          {analysis.missingKeywords.length > 0 ? (
+            <div className="flex flex-wrap gap-2">
+              {analysis.missingKeywords.map((keyword) => (
+                <span
+                  key={keyword}
+                  className="rounded-full bg-zinc-100 px-3 py-1 text-xs dark:bg-zinc-800"
+                >
+                  {keyword}
+                </span>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-zinc-500">No missing keywords found.</p>
+          )}
+        </div>
+
+        {/* Suggestions */}
+        {analysis.suggestions.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Suggestions</h4>
+            <ul className="space-y-2 text-sm text-zinc-600 dark:text-zinc-400">
+              {analysis.suggestions.map((suggestion, index) => (
+                <li key={index}>
+                  <span className="font-medium capitalize">{suggestion.priority}:</span>{' '}
+                  {suggestion.reason}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <p className="text-sm">
+          <Link href={`/analyze/${analysis.analysisId}`} className="underline">
+            Fix bullet points for this job
+          </Link>{' '}
+          <span className="text-zinc-500">to work the missing keywords into your resume.</span>
+        </p>
+
+        {/* Formatting Issues */}
+        {analysis.formattingIssues.length > 0 && (
+          <div>
+            <h4 className="text-sm font-medium mb-2">Formatting Issues</h4>
+            <ul className="space-y-2 text-sm text-zinc-600 dark:text-zinc-400">
+              {analysis.formattingIssues.map((issue, index) => (
+                <li key={index}>
+                  <span className="font-medium capitalize">{issue.severity}:</span>{' '}
+                  {issue.description}
+                  {issue.location && <span className="text-zinc-500"> ({issue.location})</span>}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
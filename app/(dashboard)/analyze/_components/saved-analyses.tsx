@@ -0,0 +1,84 @@
+import Link from 'next/link'
+import { createClient } from '@/lib/supabase/server'
+import { firstRelation } from '@/lib/supabase/relations'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Search } from 'lucide-react'
+
+// Number of saved analyses listed on the page
+const MAX_RESULTS = 20
+
+type SavedAnalysesProps = {
+  query: string
+}
+
+/**
+ * Saved analyses, searchable by job title and company
+ */
+export async function SavedAnalyses({ query }: SavedAnalysesProps) {
+  const supabase = await createClient()
+
+  let request = supabase
+    .from('analyses')
+    .select('id, job_title, company_name, match_score, created_at, resume:resumes(title)')
+    .order('created_at', { ascending: false })
+    .limit(MAX_RESULTS)
+
+  // Strip characters that have a meaning in PostgREST filter syntax
+  const term = query.replace(/[,()%*\\]/g, ' ').trim()
+  if (term) {
+    request = request.or(`job_title.ilike.%${term}%,company_name.ilike.%${term}%`)
+  }
+
+  const { data: analyses, error } = await request
+
+  if (error) {
+    console.error('Saved analyses query error:', error)
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Saved Analyses</CardTitle>
+        <CardDescription>Search your past scans by role or company</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form className="flex gap-2">
+          <Input name="q" defaultValue={query} placeholder="e.g., Product Manager or Acme" />
+          <Button type="submit" variant="outline">
+            <Search className="mr-2 h-4 w-4" />
+            Search
+          </Button>
+        </form>
+
+        {analyses && analyses.length > 0 ? (
+          <ul className="divide-y">
+            {analyses.map((analysis) => (
+              <li key={analysis.id} className="flex items-center justify-between py-3 text-sm">
+                <div>
+                  <Link href={`/analyze/${analysis.id}`} className="font-medium hover:underline">
+                    {analysis.job_title || 'Untitled role'}
+                    {analysis.company_name && <span className="text-zinc-500"> at {analysis.company_name}</span>}
+                  </Link>
+                  <p className="text-zinc-500">
+                    {getResumeTitle(analysis.resume)} · {new Date(analysis.created_at).toLocaleDateString()}
+                  </p>
+                </div>
+                <span className="font-semibold">{analysis.match_score ?? '–'}%</span>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-zinc-500">
+            {term ? `No analyses match "${term}".` : 'No analyses yet.'}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function getResumeTitle(resume: { title: string } | { title: string }[] | null): string {
+  return firstRelation(resume)?.title ?? 'Deleted resume'
+}
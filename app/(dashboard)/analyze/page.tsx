@@ -1,4 +1,19 @@
-export default function AnalyzePage() {
+import { createClient } from '@/lib/supabase/server'
+import { AnalyzeForm } from './_components/analyze-form'
+import { SavedAnalyses } from './_components/saved-analyses'
+
+type AnalyzePageProps = {
+  searchParams: Promise<{ q?: string }>
+}
+
+export default async function AnalyzePage({ searchParams }: AnalyzePageProps) {
+  const { q } = await searchParams
+  const supabase = await createClient()
+  const { data: resumes } = await supabase
+    .from('resumes')
+    .select('id, title')
+    .order('created_at', { ascending: false })
+
   return (
     <div className="space-y-6">
       <div>
@@ -7,7 +22,10 @@ export default function AnalyzePage() {
           Compare your resume against job descriptions
         </p>
       </div>
-      {/* Analysis interface will be added in analysis task */}
+
+      <AnalyzeForm resumes={resumes ?? []} />
+
+      <SavedAnalyses query={q ?? ''} />
     </div>
   );
 }
@@ -1,13 +1,18 @@
 import { Header } from "@/components/header";
+import { createClient } from "@/lib/supabase/server";
+import { getCreditBalance } from "@/lib/supabase/credits";
 
-export default function DashboardLayout({
+export default async function DashboardLayout({
   children,
 }: {
   children: React.ReactNode;
 }) {
+  const supabase = await createClient();
+  const credits = await getCreditBalance(supabase);
+
   return (
     <div className="flex min-h-screen flex-col">
-      <Header />
+      <Header credits={credits} />
       <main className="flex-1 container mx-auto px-4 py-8">
         {children}
       </main>
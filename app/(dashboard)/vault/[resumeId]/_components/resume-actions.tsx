@@ -0,0 +1,202 @@
+'use client'
+
+import { useState } from 'react'
+import { useRouter } from 'next/navigation'
+import { renameResume } from '@/app/actions/manage-resume'
+import { deleteResume, previewReparse, reparseResume, type ReparsePreviewResult } from '@/app/actions/parse-resume'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Label } from '@/components/ui/label'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { CheckCircle, Download, Loader2, RefreshCw, Trash2, XCircle } from 'lucide-react'
+import { TextDiff } from '../versions/_components/text-diff'
+
+type ResumeActionsProps = {
+  resumeId: string
+  title: string
+  // The stored file is gone (flagged by the storage reconciler), so only the extracted text remains
+  fileMissing: boolean
+  // The text was extracted with an older EXTRACTOR_VERSION, so re-parsing may improve it
+  extractorOutdated: boolean
+}
+
+type PendingAction = 'rename' | 'preview' | 'reparse' | 'delete'
+
+export function ResumeActions({ resumeId, title, fileMissing, extractorOutdated }: ResumeActionsProps) {
+  const router = useRouter()
+  const [newTitle, setNewTitle] = useState(title)
+  const [pending, setPending] = useState<PendingAction | null>(null)
+  const [confirmingDelete, setConfirmingDelete] = useState(false)
+  const [reparsePreview, setReparsePreview] = useState<ReparsePreviewResult['data'] | null>(null)
+  const [result, setResult] = useState<{ success: boolean; message: string } | null>(null)
+
+  const run = async (action: PendingAction, task: () => Promise<{ success: boolean; error?: string }>, successMessage?: string) => {
+    setPending(action)
+    setResult(null)
+
+    try {
+      const response = await task()
+      if (response.success) {
+        if (successMessage) {
+          setResult({ success: true, message: successMessage })
+        }
+        router.refresh()
+      } else {
+        setResult({ success: false, message: response.error || 'Something went wrong' })
+      }
+      return response.success
+    } catch (error) {
+      setResult({
+        success: false,
+        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      })
+      return false
+    } finally {
+      setPending(null)
+    }
+  }
+
+  const handleRename = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const formData = new FormData()
+    formData.append('resumeId', resumeId)
+    formData.append('title', newTitle)
+
+    await run('rename', () => renameResume(formData), 'Resume renamed.')
+  }
+
+  // Show what would change before replacing the stored text
+  const handlePreviewReparse = () => run('preview', async () => {
+    const response = await previewReparse(resumeId)
+    setReparsePreview(response.data ?? null)
+    return response
+  })
+
+  const handleReparse = async () => {
+    const reparsed = await run('reparse', () => reparseResume(resumeId), 'Resume text extracted again.')
+    if (reparsed) {
+      setReparsePreview(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    const deleted = await run('delete', () => deleteResume(resumeId))
+    if (deleted) {
+      router.push('/vault')
+    }
+  }
+
+  const isBusy = pending !== null
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Manage</CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {/* Rename */}
+        <form onSubmit={handleRename} className="flex flex-col gap-2 sm:flex-row sm:items-end">
+          <div className="flex-1 space-y-2">
+            <Label htmlFor="resume-rename">Title</Label>
+            <Input
+              id="resume-rename"
+              type="text"
+              value={newTitle}
+              onChange={(e) => setNewTitle(e.target.value)}
+              disabled={isBusy}
+            />
+          </div>
+          <Button type="submit" variant="outline" disabled={isBusy || !newTitle.trim() || newTitle.trim() === title}>
+            {pending === 'rename' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Rename
+          </Button>
+        </form>
+
+        <div className="flex flex-wrap gap-2">
+          {fileMissing ? (
+            <Button variant="outline" disabled>
+              <Download className="mr-2 h-4 w-4" />
+              Download
+            </Button>
+          ) : (
+            <Button asChild variant="outline">
+              {/* API route, so a plain link instead of client-side navigation */}
+              <a href={`/api/resumes/${resumeId}/download`}>
+                <Download className="mr-2 h-4 w-4" />
+                Download
+              </a>
+            </Button>
+          )}
+          <Button variant="outline" onClick={handlePreviewReparse} disabled={isBusy || fileMissing || reparsePreview !== null}>
+            {pending === 'preview' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+            Re-parse
+          </Button>
+          {confirmingDelete ? (
+            <>
+              <Button variant="destructive" onClick={handleDelete} disabled={isBusy}>
+                {pending === 'delete' ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+                Confirm Delete
+              </Button>
+              <Button variant="ghost" onClick={() => setConfirmingDelete(false)} disabled={isBusy}>
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={() => setConfirmingDelete(true)} disabled={isBusy}>
+              <Trash2 className="mr-2 h-4 w-4" />
+              Delete
+            </Button>
+          )}
+        </div>
+
+        {extractorOutdated && !fileMissing && !reparsePreview && (
+          <p className="text-sm text-zinc-500">
+            This resume was read with an older version of the text extractor. Re-parse it to see whether the text improves.
+          </p>
+        )}
+
+        {reparsePreview && (
+          <div className="space-y-3 rounded border p-4">
+            <p className="text-sm font-medium">
+              Re-parse preview
+              <span className="font-normal text-zinc-500">
+                {' '}· extractor v{reparsePreview.fromVersion} → v{reparsePreview.toVersion}
+              </span>
+            </p>
+            {reparsePreview.stats.added > 0 || reparsePreview.stats.removed > 0 ? (
+              <TextDiff diff={reparsePreview.diff} />
+            ) : (
+              <p className="text-sm text-zinc-500">
+                The new extraction matches the stored text. Applying it only records that this resume is up to date.
+              </p>
+            )}
+            <div className="flex gap-2">
+              <Button onClick={handleReparse} disabled={isBusy}>
+                {pending === 'reparse' && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Apply New Text
+              </Button>
+              <Button variant="ghost" onClick={() => setReparsePreview(null)} disabled={isBusy}>
+                Keep Current Text
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {confirmingDelete && (
+          <p className="text-sm text-zinc-500">
+            This permanently deletes the file and all of its analyses.
+          </p>
+        )}
+
+        {result && (
+          <Alert variant={result.success ? 'default' : 'destructive'}>
+            {result.success ? <CheckCircle className="h-4 w-4" /> : <XCircle className="h-4 w-4" />}
+            <AlertDescription>{result.message}</AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
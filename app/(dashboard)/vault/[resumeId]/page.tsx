@@ -0,0 +1,139 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Alert, AlertDescription } from '@/components/ui/alert'
+import { AlertTriangle } from 'lucide-react'
+import { ResumeExportForm } from '@/components/resume-export-form'
+import { formatFileSize } from '@/lib/utils/file-validation'
+import { EXTRACTOR_VERSION } from '@/lib/utils/text-extraction'
+import type { ResumeWithAnalyses } from '@/lib/types/database'
+import { ResumeActions } from './_components/resume-actions'
+
+type ResumeDetailPageProps = {
+  params: Promise<{ resumeId: string }>
+}
+
+export default async function ResumeDetailPage({ params }: ResumeDetailPageProps) {
+  const { resumeId } = await params
+  const supabase = await createClient()
+
+  const { data } = await supabase
+    .from('resumes')
+    .select('*, analyses(*)')
+    .eq('id', resumeId)
+    .order('created_at', { referencedTable: 'analyses', ascending: false })
+    .maybeSingle()
+
+  if (!data) {
+    notFound()
+  }
+
+  const resume = data as ResumeWithAnalyses
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/vault" className="text-sm text-zinc-500 underline">
+          Back to Vault
+        </Link>
+        <h1 className="text-3xl font-bold">{resume.title}</h1>
+        <p className="text-zinc-500 dark:text-zinc-400">
+          v{resume.version_number} · {resume.file_type?.toUpperCase() ?? 'Unknown type'}
+          {resume.file_size !== null && ` · ${formatFileSize(resume.file_size)}`}
+          {resume.ocr_used && ` · Scanned, read with OCR (${Math.round(resume.ocr_confidence ?? 0)}% confidence)`}
+          {' · '}Uploaded {new Date(resume.created_at).toLocaleDateString()}
+          {' · '}
+          <Link href={`/vault/${resume.id}/versions`} className="underline">
+            Version history
+          </Link>
+        </p>
+      </div>
+
+      {resume.file_missing && (
+        <Alert variant="destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            The original file for this resume is missing from storage, so it cannot be downloaded or re-parsed.
+            The extracted text and analyses are still available.
+          </AlertDescription>
+        </Alert>
+      )}
+
+      <ResumeActions
+        resumeId={resume.id}
+        title={resume.title}
+        fileMissing={resume.file_missing}
+        extractorOutdated={resume.extractor_version < EXTRACTOR_VERSION}
+      />
+
+      {/* Export */}
+      {resume.raw_text && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Export</CardTitle>
+            <CardDescription>
+              Download the extracted text as a single-column, ATS-friendly file. Templates apply to DOCX and PDF.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ResumeExportForm resumeId={resume.id} text={resume.raw_text} />
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Past Analyses */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Analyses</CardTitle>
+          <CardDescription>Job descriptions this resume was scanned against</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {resume.analyses.length > 0 ? (
+            <ul className="divide-y">
+              {resume.analyses.map((analysis) => (
+                <li key={analysis.id} className="py-3 text-sm">
+                  <div className="flex items-center justify-between">
+                    <Link href={`/analyze/${analysis.id}`} className="font-medium hover:underline">
+                      {analysis.job_title || 'Untitled role'}
+                      {analysis.company_name && <span className="text-zinc-500"> at {analysis.company_name}</span>}
+                    </Link>
+                    <span className="font-semibold">{analysis.match_score ?? '–'}%</span>
+                  </div>
+                  <p className="text-zinc-500">{new Date(analysis.created_at).toLocaleDateString()}</p>
+                  {analysis.missing_keywords.length > 0 && (
+                    <p className="mt-1 text-zinc-500">
+                      Missing: {analysis.missing_keywords.slice(0, 8).join(', ')}
+                      {analysis.missing_keywords.length > 8 && '…'}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-zinc-500">
+              No analyses yet. <Link href="/analyze" className="underline">Analyze this resume</Link> against a job description.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Extracted Text */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Extracted Text</CardTitle>
+          <CardDescription>What ATS software reads from this file</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {resume.raw_text ? (
+            <pre className="max-h-[32rem] overflow-y-auto whitespace-pre-wrap rounded bg-zinc-100 p-4 text-xs dark:bg-zinc-800">
+              {resume.raw_text}
+            </pre>
+          ) : (
+            <p className="text-sm text-zinc-500">No text could be extracted. Try re-parsing the file.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import { getDiffStats, type DiffLine } from '@/lib/utils/text-diff'
+
+const LINE_STYLES: Record<DiffLine['type'], string> = {
+  added: 'bg-green-50 text-green-800 dark:bg-green-950 dark:text-green-300',
+  removed: 'bg-red-50 text-red-800 line-through dark:bg-red-950 dark:text-red-300',
+  unchanged: 'text-zinc-600 dark:text-zinc-400',
+}
+
+const LINE_PREFIXES: Record<DiffLine['type'], string> = {
+  added: '+',
+  removed: '-',
+  unchanged: ' ',
+}
+
+/**
+ * Unified view of a line diff
+ */
+export function TextDiff({ diff }: { diff: DiffLine[] }) {
+  const stats = getDiffStats(diff)
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm text-zinc-500">
+        <span className="text-green-700 dark:text-green-400">+{stats.added}</span>{' '}
+        <span className="text-red-700 dark:text-red-400">-{stats.removed}</span>{' '}
+        lines changed, {stats.unchanged} unchanged
+      </p>
+      <pre className="max-h-[32rem] overflow-auto rounded-md border text-xs">
+        {diff.map((line, index) => (
+          <div key={index} className={`whitespace-pre-wrap px-3 py-0.5 ${LINE_STYLES[line.type]}`}>
+            {LINE_PREFIXES[line.type]} {line.text}
+          </div>
+        ))}
+      </pre>
+    </div>
+  )
+}
@@ -0,0 +1,37 @@
+import Link from 'next/link'
+import type { ResumeVersion, VersionNode } from '@/lib/utils/resume-versions'
+
+type VersionTreeProps = {
+  node: VersionNode<ResumeVersion>
+  selectedIds: string[]
+}
+
+/**
+ * Nested list of a resume lineage, one level per parent/child step
+ */
+export function VersionTree({ node, selectedIds }: VersionTreeProps) {
+  const { resume, children } = node
+  const isSelected = selectedIds.includes(resume.id)
+
+  return (
+    <ul className="space-y-2 border-l pl-4">
+      <li>
+        <Link
+          href={`/vault/${resume.id}/versions`}
+          className={`block rounded-md px-2 py-1 text-sm hover:bg-zinc-100 dark:hover:bg-zinc-800 ${isSelected ? 'bg-zinc-100 dark:bg-zinc-800' : ''}`}
+        >
+          <span className="font-medium">v{resume.version_number}</span> {resume.title}
+          <span className="text-zinc-500"> · {new Date(resume.created_at).toLocaleDateString()}</span>
+          {resume.change_note && (
+            <span className="block text-zinc-500">{resume.change_note}</span>
+          )}
+        </Link>
+        {children.map((child) => (
+          <div key={child.resume.id} className="mt-2">
+            <VersionTree node={child} selectedIds={selectedIds} />
+          </div>
+        ))}
+      </li>
+    </ul>
+  )
+}
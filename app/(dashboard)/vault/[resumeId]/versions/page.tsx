@@ -0,0 +1,109 @@
+import Link from 'next/link'
+import { notFound } from 'next/navigation'
+import { createClient } from '@/lib/supabase/server'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { buildVersionTree, flattenVersionTree, type ResumeVersion } from '@/lib/utils/resume-versions'
+import { diffLines } from '@/lib/utils/text-diff'
+import { VersionTree } from './_components/version-tree'
+import { TextDiff } from './_components/text-diff'
+
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30'
+
+type VersionsPageProps = {
+  params: Promise<{ resumeId: string }>
+  searchParams: Promise<{ from?: string; to?: string }>
+}
+
+export default async function VersionsPage({ params, searchParams }: VersionsPageProps) {
+  const { resumeId } = await params
+  const { from, to } = await searchParams
+  const supabase = await createClient()
+
+  // RLS limits this to the current user's resumes
+  const { data: resumes } = await supabase
+    .from('resumes')
+    .select('id, title, parent_id, version_number, change_note, created_at')
+
+  const tree = buildVersionTree<ResumeVersion>(resumes ?? [], resumeId)
+  if (!tree) {
+    notFound()
+  }
+
+  const versions = flattenVersionTree(tree)
+  const isVersion = (id?: string) => !!id && versions.some((version) => version.id === id)
+
+  // Default to comparing the selected resume with its parent
+  const current = versions.find((version) => version.id === resumeId)!
+  const toId = isVersion(to) ? to! : current.id
+  const target = versions.find((version) => version.id === toId)!
+  const fromId = isVersion(from)
+    ? from!
+    : isVersion(target.parent_id ?? undefined) ? target.parent_id! : versions[0].id
+
+  const { data: texts } = await supabase
+    .from('resumes')
+    .select('id, raw_text')
+    .in('id', [fromId, toId])
+
+  const getText = (id: string) => texts?.find((row) => row.id === id)?.raw_text ?? ''
+  const diff = fromId === toId ? null : diffLines(getText(fromId), getText(toId))
+  const label = (version: ResumeVersion) => `v${version.version_number} · ${version.title}`
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <Link href="/vault" className="text-sm text-zinc-500 underline">
+          Back to Vault
+        </Link>
+        <h1 className="text-3xl font-bold">Version History</h1>
+        <p className="text-zinc-500 dark:text-zinc-400">{tree.resume.title}</p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Versions</CardTitle>
+          <CardDescription>Each version branches from the resume it was uploaded as a new version of</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <VersionTree node={tree} selectedIds={[fromId, toId]} />
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Compare Versions</CardTitle>
+          <CardDescription>Line-by-line changes in the extracted resume text</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end">
+            <div className="space-y-2">
+              <label htmlFor="compare-from" className="text-sm font-medium">From</label>
+              <select id="compare-from" name="from" defaultValue={fromId} className={fieldClassName}>
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>{label(version)}</option>
+                ))}
+              </select>
+            </div>
+            <div className="space-y-2">
+              <label htmlFor="compare-to" className="text-sm font-medium">To</label>
+              <select id="compare-to" name="to" defaultValue={toId} className={fieldClassName}>
+                {versions.map((version) => (
+                  <option key={version.id} value={version.id}>{label(version)}</option>
+                ))}
+              </select>
+            </div>
+            <Button type="submit" variant="outline">Compare</Button>
+          </form>
+
+          {diff ? (
+            <TextDiff diff={diff} />
+          ) : (
+            <p className="text-sm text-zinc-500">Select two different versions to see what changed.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -0,0 +1,123 @@
+import Link from 'next/link'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { ArrowDown, ArrowUp, FileText } from 'lucide-react'
+import { formatFileSize } from '@/lib/utils/file-validation'
+import type { Resume } from '@/lib/types/database'
+
+export const RESUME_SORT_COLUMNS = ['title', 'file_type', 'file_size', 'created_at'] as const
+
+export type ResumeSort = (typeof RESUME_SORT_COLUMNS)[number]
+
+const COLUMN_LABELS: Record<ResumeSort, string> = {
+  title: 'Title',
+  file_type: 'Type',
+  file_size: 'Size',
+  created_at: 'Uploaded',
+}
+
+type ResumeListProps = {
+  resumes: Pick<Resume, 'id' | 'title' | 'file_type' | 'file_size' | 'version_number' | 'created_at'>[]
+  page: number
+  pageCount: number
+  sort: ResumeSort
+  ascending: boolean
+}
+
+/**
+ * Paginated, sortable table of the user's resumes
+ * Sorting and paging live in the URL so the list stays server-rendered
+ */
+export function ResumeList({ resumes, page, pageCount, sort, ascending }: ResumeListProps) {
+  const buildHref = (params: { page?: number; sort?: ResumeSort; ascending?: boolean }) => {
+    const search = new URLSearchParams({
+      sort: params.sort ?? sort,
+      order: (params.ascending ?? ascending) ? 'asc' : 'desc',
+      page: String(params.page ?? page),
+    })
+    return `/vault?${search.toString()}`
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Your Resumes</CardTitle>
+        <CardDescription>Open a resume to view its text, analyses and versions</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {resumes.length === 0 ? (
+          <div className="rounded-lg border border-dashed p-8 text-center text-zinc-500">
+            {page > 1 ? (
+              <>No resumes on this page. <Link href={buildHref({ page: 1 })} className="underline">Back to the first page</Link></>
+            ) : (
+              'No resumes yet. Upload one above to get started.'
+            )}
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b text-left text-zinc-500">
+                  {RESUME_SORT_COLUMNS.map((column) => (
+                    <th key={column} className="py-2 pr-4 font-medium">
+                      <Link
+                        href={buildHref({ sort: column, ascending: column === sort ? !ascending : column !== 'created_at', page: 1 })}
+                        className="inline-flex items-center gap-1 hover:text-zinc-900 dark:hover:text-zinc-100"
+                      >
+                        {COLUMN_LABELS[column]}
+                        {column === sort && (ascending ? <ArrowUp className="h-3 w-3" /> : <ArrowDown className="h-3 w-3" />)}
+                      </Link>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y">
+                {resumes.map((resume) => (
+                  <tr key={resume.id}>
+                    <td className="py-3 pr-4">
+                      <Link href={`/vault/${resume.id}`} className="inline-flex items-center gap-2 font-medium hover:underline">
+                        <FileText className="h-4 w-4 text-zinc-500" />
+                        {resume.title}
+                        <span className="text-xs font-normal text-zinc-500">v{resume.version_number}</span>
+                      </Link>
+                    </td>
+                    <td className="py-3 pr-4 uppercase text-zinc-500">{resume.file_type ?? '–'}</td>
+                    <td className="py-3 pr-4 text-zinc-500">
+                      {resume.file_size !== null ? formatFileSize(resume.file_size) : '–'}
+                    </td>
+                    <td className="py-3 pr-4 text-zinc-500">{new Date(resume.created_at).toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {/* Pagination */}
+        {pageCount > 1 && (
+          <div className="mt-4 flex items-center justify-between text-sm text-zinc-500">
+            <span>
+              Page {page} of {pageCount}
+            </span>
+            <div className="flex gap-2">
+              {page > 1 ? (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={buildHref({ page: page - 1 })}>Previous</Link>
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" disabled>Previous</Button>
+              )}
+              {page < pageCount ? (
+                <Button asChild variant="outline" size="sm">
+                  <Link href={buildHref({ page: page + 1 })}>Next</Link>
+                </Button>
+              ) : (
+                <Button variant="outline" size="sm" disabled>Next</Button>
+              )}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,193 +1,418 @@
 'use client'
 
-import { useState } from 'react'
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
 import { parseResume } from '@/app/actions/parse-resume'
 import { Button } from '@/components/ui/button'
 import { Input } from '@/components/ui/input'
 import { Label } from '@/components/ui/label'
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
-import { Alert, AlertDescription } from '@/components/ui/alert'
-import { Loader2, Upload, CheckCircle, XCircle } from 'lucide-react'
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert'
+import { JobProgress, useJob } from '@/components/job-progress'
+import { Loader2, Upload, CheckCircle, XCircle, RotateCw, X, Copy } from 'lucide-react'
+import { formatFileSize, validateResumeFile, type ValidationErrorCode } from '@/lib/utils/file-validation'
+import { RESUME_FILE_ACCEPT, RESUME_FORMAT_LABELS, generateResumeTitle } from '@/lib/utils/resume-formats'
+import type { Resume } from '@/lib/types/database'
+import type { QuotaErrorCode } from '@/lib/supabase/quotas'
+import type { ParseJobDuplicateResult, ParseJobResult } from '@/lib/jobs'
+import type { DuplicateMatch, DuplicateResolution } from '@/lib/utils/resume-fingerprint'
 
-export function ResumeUploadForm() {
-  const [file, setFile] = useState<File | null>(null)
-  const [title, setTitle] = useState('')
+const fieldClassName =
+  'border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] disabled:cursor-not-allowed disabled:opacity-50 dark:bg-input/30'
+
+type UploadErrorCode = ValidationErrorCode | QuotaErrorCode
+
+// Headline for each reason a file can be rejected; the message explains the fix
+const UPLOAD_ERROR_TITLES: Record<UploadErrorCode, string> = {
+  empty_file: 'Empty file',
+  file_too_large: 'File too large',
+  invalid_extension: 'Unsupported file extension',
+  invalid_type: 'Unsupported file type',
+  content_mismatch: 'File contents do not match its type',
+  corrupt_file: 'Damaged file',
+  missing_document_part: 'Document body missing',
+  pdf_javascript: 'PDF contains JavaScript',
+  pdf_launch_action: 'PDF contains a launch action',
+  zip_bomb: 'File is a decompression bomb',
+  storage_quota_exceeded: 'Storage limit reached',
+  resume_quota_exceeded: 'Resume limit reached',
+}
+
+// Rejections that go away once the user frees up space, so the file can be retried
+const QUOTA_ERROR_CODES: UploadErrorCode[] = ['storage_quota_exceeded', 'resume_quota_exceeded']
+
+// Files sent to the server at the same time; the rest wait for a free slot
+const MAX_CONCURRENT_UPLOADS = 3
+
+type UploadStatus =
+  | 'ready'
+  | 'invalid' // Rejected before upload; retrying cannot help
+  | 'uploading'
+  | 'processing' // Stored, parse job running
+  | 'error' // Upload failed; can be retried with the same key
+  | 'duplicate' // Same file as an existing resume; waiting for the user's decision
+  | 'linked' // Discarded in favor of the existing resume
+
+type UploadItem = {
+  id: string // Also the idempotency key, so a retry resumes the same upload
+  file: File
+  title: string
+  status: UploadStatus
+  error?: string
+  code?: UploadErrorCode
+  jobId?: string
+  duplicate?: DuplicateMatch
+}
+
+type ResumeUploadFormProps = {
+  // Existing resumes a new upload can be registered as a version of
+  resumes: Pick<Resume, 'id' | 'title' | 'version_number'>[]
+}
+
+export function ResumeUploadForm({ resumes }: ResumeUploadFormProps) {
+  const [items, setItems] = useState<UploadItem[]>([])
+  const [parentId, setParentId] = useState('')
+  const [changeNote, setChangeNote] = useState('')
+  const [isDragging, setIsDragging] = useState(false)
   const [isUploading, setIsUploading] = useState(false)
-  const [result, setResult] = useState<{
-    success: boolean
-    message: string
-    data?: any
-  } | null>(null)
-
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const selectedFile = e.target.files?.[0]
-    if (selectedFile) {
-      setFile(selectedFile)
-      setResult(null)
-      
-      // Auto-generate title from filename if not set
-      if (!title) {
-        const nameWithoutExt = selectedFile.name.replace(/\.(pdf|docx)$/i, '')
-        const autoTitle = nameWithoutExt
-          .replace(/[_-]/g, ' ')
-          .split(' ')
-          .map(word => word.charAt(0).toUpperCase() + word.slice(1))
-          .join(' ')
-        setTitle(autoTitle)
-      }
-    }
-  }
 
-  const handleSubmit = async (e: React.FormEvent) => {
-    e.preventDefault()
+  const readyItems = items.filter((item) => item.status === 'ready')
+  // A version can only be added one file at a time
+  const canAddVersion = resumes.length > 0 && items.length === 1
 
-    if (!file) {
-      setResult({
-        success: false,
-        message: 'Please select a file',
-      })
+  const updateItem = (id: string, changes: Partial<UploadItem>) => {
+    setItems((current) => current.map((item) => (item.id === id ? { ...item, ...changes } : item)))
+  }
+
+  const addFiles = (files: FileList | null) => {
+    if (!files || files.length === 0) {
       return
     }
 
-    setIsUploading(true)
-    setResult(null)
+    // Same shape checks as the server; content checks only run there
+    const added = Array.from(files).map((file): UploadItem => {
+      const validation = validateResumeFile(file)
+      return {
+        id: crypto.randomUUID(),
+        file,
+        title: generateResumeTitle(file.name),
+        status: validation.valid ? 'ready' : 'invalid',
+        error: validation.error,
+        code: validation.code,
+      }
+    })
+    setItems((current) => [...current, ...added])
+  }
+
+  const uploadItem = async (item: UploadItem, resolution?: { action: DuplicateResolution; match: DuplicateMatch }) => {
+    updateItem(item.id, { status: 'uploading', error: undefined, code: undefined, jobId: undefined, duplicate: undefined })
 
     try {
       const formData = new FormData()
-      formData.append('file', file)
-      if (title) {
-        formData.append('title', title)
+      formData.append('file', item.file)
+      formData.append('idempotencyKey', item.id)
+      if (item.title) {
+        formData.append('title', item.title)
+      }
+      if (parentId && canAddVersion) {
+        formData.append('parentId', parentId)
+        formData.append('changeNote', changeNote)
+      }
+      if (resolution) {
+        formData.append('duplicateAction', resolution.action)
+        formData.append('duplicateOf', resolution.match.resumeId)
       }
 
       const response = await parseResume(formData)
 
-      if (response.success) {
-        setResult({
-          success: true,
-          message: 'Resume uploaded and parsed successfully!',
-          data: response.data,
-        })
-        
-        // Reset form
-        setFile(null)
-        setTitle('')
-        // Reset file input
-        const fileInput = document.getElementById('resume-file') as HTMLInputElement
-        if (fileInput) fileInput.value = ''
+      if (response.success && response.data?.linkedResumeId) {
+        updateItem(item.id, { status: 'linked', duplicate: resolution?.match })
+      } else if (response.success && response.data) {
+        updateItem(item.id, { status: 'processing', jobId: response.data.jobId })
+      } else if (response.duplicate) {
+        updateItem(item.id, { status: 'duplicate', duplicate: response.duplicate })
       } else {
-        setResult({
-          success: false,
-          message: response.error || 'Failed to upload resume',
+        updateItem(item.id, {
+          // Content rejections come back with a code and fail the same way every time
+          status: response.errorCode && !QUOTA_ERROR_CODES.includes(response.errorCode) ? 'invalid' : 'error',
+          error: response.error || 'Failed to upload resume',
+          code: response.errorCode,
         })
       }
     } catch (error) {
-      setResult({
-        success: false,
-        message: error instanceof Error ? error.message : 'An unexpected error occurred',
+      updateItem(item.id, {
+        status: 'error',
+        error: error instanceof Error ? error.message : 'An unexpected error occurred',
       })
-    } finally {
-      setIsUploading(false)
     }
   }
 
-  const formatFileSize = (bytes: number) => {
-    if (bytes === 0) return '0 Bytes'
-    const k = 1024
-    const sizes = ['Bytes', 'KB', 'MB']
-    const i = Math.floor(Math.log(bytes) / Math.log(k))
-    return Math.round((bytes / Math.pow(k, i)) * 100) / 100 + ' ' + sizes[i]
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+
+    const pending = [...readyItems]
+    if (pending.length === 0) {
+      return
+    }
+
+    setIsUploading(true)
+    const worker = async () => {
+      for (let item = pending.shift(); item; item = pending.shift()) {
+        await uploadItem(item)
+      }
+    }
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_UPLOADS, pending.length) }, worker))
+    setIsUploading(false)
+    setParentId('')
+    setChangeNote('')
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    setIsDragging(false)
+    addFiles(e.dataTransfer.files)
   }
 
   return (
     <Card>
       <CardHeader>
-        <CardTitle>Upload Resume</CardTitle>
+        <CardTitle>Upload Resumes</CardTitle>
         <CardDescription>
-          Upload a PDF or DOCX file to extract and store the resume text
+          Upload one or more resume files to extract and store their text
         </CardDescription>
       </CardHeader>
       <CardContent>
         <form onSubmit={handleSubmit} className="space-y-4">
-          {/* File Input */}
+          {/* Drop Zone */}
           <div className="space-y-2">
-            <Label htmlFor="resume-file">Resume File</Label>
-            <Input
+            <Label htmlFor="resume-file">Resume Files</Label>
+            <label
+              htmlFor="resume-file"
+              onDragOver={(e) => {
+                e.preventDefault()
+                setIsDragging(true)
+              }}
+              onDragLeave={() => setIsDragging(false)}
+              onDrop={handleDrop}
+              className={`flex cursor-pointer flex-col items-center gap-2 rounded-lg border-2 border-dashed p-8 text-center text-sm text-zinc-500 transition-colors ${
+                isDragging ? 'border-zinc-900 bg-zinc-50 dark:border-zinc-100 dark:bg-zinc-900' : 'border-zinc-200 dark:border-zinc-800'
+              }`}
+            >
+              <Upload className="h-6 w-6" />
+              <span>Drag and drop resumes here, or click to choose files</span>
+            </label>
+            <input
               id="resume-file"
               type="file"
-              accept=".pdf,.docx,application/pdf,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-              onChange={handleFileChange}
-              disabled={isUploading}
+              multiple
+              accept={RESUME_FILE_ACCEPT}
+              className="sr-only"
+              onChange={(e) => {
+                addFiles(e.target.files)
+                // Allow choosing the same file again
+                e.target.value = ''
+              }}
             />
-            {file && (
-              <p className="text-sm text-zinc-500">
-                Selected: {file.name} ({formatFileSize(file.size)})
-              </p>
-            )}
           </div>
 
-          {/* Title Input */}
-          <div className="space-y-2">
-            <Label htmlFor="resume-title">Resume Title (Optional)</Label>
-            <Input
-              id="resume-title"
-              type="text"
-              placeholder="e.g., Senior Software Engineer Resume"
-              value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              disabled={isUploading}
-            />
-          </div>
+          {/* Selected Files */}
+          {items.length > 0 && (
+            <ul className="divide-y rounded-lg border dark:divide-zinc-800 dark:border-zinc-800">
+              {items.map((item) => (
+                <UploadItemRow
+                  key={item.id}
+                  item={item}
+                  onTitleChange={(title) => updateItem(item.id, { title })}
+                  onRetry={() => uploadItem(item)}
+                  onResolveDuplicate={(action, match) => uploadItem(item, { action, match })}
+                  onRemove={() => setItems((current) => current.filter((other) => other.id !== item.id))}
+                />
+              ))}
+            </ul>
+          )}
+
+          {/* Version Of */}
+          {canAddVersion && (
+            <div className="space-y-2">
+              <Label htmlFor="resume-parent">Version Of (Optional)</Label>
+              <select
+                id="resume-parent"
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                disabled={isUploading}
+                className={fieldClassName}
+              >
+                <option value="">New resume</option>
+                {resumes.map((resume) => (
+                  <option key={resume.id} value={resume.id}>
+                    {resume.title} (v{resume.version_number})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Change Note */}
+          {canAddVersion && parentId && (
+            <div className="space-y-2">
+              <Label htmlFor="resume-change-note">Change Note (Optional)</Label>
+              <Input
+                id="resume-change-note"
+                type="text"
+                placeholder="e.g., Tailored for product roles"
+                value={changeNote}
+                onChange={(e) => setChangeNote(e.target.value)}
+                disabled={isUploading}
+              />
+            </div>
+          )}
 
           {/* Submit Button */}
-          <Button type="submit" disabled={!file || isUploading} className="w-full">
+          <Button type="submit" disabled={readyItems.length === 0 || isUploading} className="w-full">
             {isUploading ? (
               <>
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                Processing...
+                Uploading...
               </>
             ) : (
               <>
                 <Upload className="mr-2 h-4 w-4" />
-                Upload and Parse Resume
+                {readyItems.length > 1 ? `Upload and Parse ${readyItems.length} Resumes` : 'Upload and Parse Resume'}
               </>
             )}
           </Button>
-
-          {/* Result Message */}
-          {result && (
-            <Alert variant={result.success ? 'default' : 'destructive'}>
-              {result.success ? (
-                <CheckCircle className="h-4 w-4" />
-              ) : (
-                <XCircle className="h-4 w-4" />
-              )}
-              <AlertDescription>
-                {result.message}
-                {result.success && result.data && (
-                  <div className="mt-2 space-y-1 text-sm">
-                    <p><strong>Resume ID:</strong> {result.data.resumeId}</p>
-                    <p><strong>Title:</strong> {result.data.title}</p>
-                    <p className="mt-2"><strong>Text Preview:</strong></p>
-                    <pre className="mt-1 max-h-40 overflow-y-auto rounded bg-zinc-100 p-2 text-xs dark:bg-zinc-800">
-                      {result.data.textPreview}
-                    </pre>
-                  </div>
-                )}
-              </AlertDescription>
-            </Alert>
-          )}
         </form>
 
         {/* File Requirements */}
         <div className="mt-6 rounded-lg bg-zinc-50 p-4 dark:bg-zinc-900">
           <h4 className="text-sm font-medium mb-2">File Requirements:</h4>
           <ul className="text-sm text-zinc-600 dark:text-zinc-400 space-y-1">
-            <li>• Supported formats: PDF, DOCX</li>
-            <li>• Maximum file size: 10MB</li>
-            <li>• Text must be extractable (not image-based PDFs)</li>
+            <li>• Supported formats: {RESUME_FORMAT_LABELS}</li>
+            <li>• Maximum file size: 10MB per file</li>
+            <li>• Scanned PDFs are read with OCR, which is slower and less accurate than a text-based file</li>
           </ul>
         </div>
       </CardContent>
     </Card>
   )
 }
+
+type UploadItemRowProps = {
+  item: UploadItem
+  onTitleChange: (title: string) => void
+  onRetry: () => void
+  onResolveDuplicate: (action: DuplicateResolution, match: DuplicateMatch) => void
+  onRemove: () => void
+}
+
+function UploadItemRow({ item, onTitleChange, onRetry, onResolveDuplicate, onRemove }: UploadItemRowProps) {
+  const router = useRouter()
+  const job = useJob(item.jobId ?? null)
+  const jobResult = job?.status === 'succeeded' ? (job.result as ParseJobResult | ParseJobDuplicateResult) : null
+  // Identical files are caught before upload, similar text only once the parse job has extracted it
+  const duplicate = item.status === 'duplicate' ? item.duplicate : jobResult && 'duplicate' in jobResult ? jobResult.duplicate : null
+  const parsed = jobResult && !('duplicate' in jobResult) ? jobResult : null
+  const jobFailed = job?.status === 'failed'
+  const isBusy = item.status === 'uploading' || (item.status === 'processing' && !jobResult && !jobFailed)
+
+  // Pick up the new resume in server-rendered lists once it is stored
+  useEffect(() => {
+    if (parsed) {
+      router.refresh()
+    }
+  }, [parsed, router])
+
+  return (
+    <li className="space-y-3 p-4">
+      <div className="flex items-start gap-3">
+        <div className="min-w-0 flex-1 space-y-2">
+          <p className="truncate text-sm font-medium">
+            {item.file.name} <span className="font-normal text-zinc-500">({formatFileSize(item.file.size)})</span>
+          </p>
+          {(item.status === 'ready' || item.status === 'error') && (
+            <Input
+              aria-label={`Title for ${item.file.name}`}
+              type="text"
+              placeholder="Resume title"
+              value={item.title}
+              onChange={(e) => onTitleChange(e.target.value)}
+            />
+          )}
+        </div>
+        {(item.status === 'error' || jobFailed) && (
+          <Button type="button" variant="outline" size="sm" onClick={onRetry}>
+            <RotateCw className="mr-1 h-4 w-4" />
+            Retry
+          </Button>
+        )}
+        {!isBusy && (
+          <Button type="button" variant="ghost" size="sm" onClick={onRemove} aria-label={`Remove ${item.file.name}`}>
+            <X className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {item.status === 'uploading' && (
+        <p className="flex items-center gap-2 text-sm text-zinc-500">
+          <Loader2 className="h-4 w-4 animate-spin" />
+          Uploading...
+        </p>
+      )}
+
+      {isBusy && item.status === 'processing' && <JobProgress job={job} />}
+
+      {duplicate && (
+        <Alert>
+          <Copy className="h-4 w-4" />
+          <AlertTitle>{duplicate.kind === 'exact' ? 'Already uploaded' : 'Looks like a resume you already have'}</AlertTitle>
+          <AlertDescription>
+            <p>
+              {duplicate.kind === 'exact' ? 'This file is identical to' : 'This file has nearly the same text as'}{' '}
+              <Link href={`/vault/${duplicate.resumeId}`} className="underline">{duplicate.title}</Link>{' '}
+              (v{duplicate.versionNumber}).
+            </p>
+            <div className="mt-2 flex flex-wrap gap-2">
+              <Button type="button" size="sm" onClick={() => onResolveDuplicate('link', duplicate)}>
+                Use existing
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => onResolveDuplicate('version', duplicate)}>
+                Save as new version
+              </Button>
+              <Button type="button" size="sm" variant="outline" onClick={() => onResolveDuplicate('upload', duplicate)}>
+                Upload anyway
+              </Button>
+            </div>
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {item.status === 'linked' && item.duplicate && (
+        <p className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <CheckCircle className="h-4 w-4" />
+          <span>
+            Kept the existing <Link href={`/vault/${item.duplicate.resumeId}`} className="underline">{item.duplicate.title}</Link>
+          </span>
+        </p>
+      )}
+
+      {parsed && (
+        <p className="flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+          <CheckCircle className="h-4 w-4" />
+          <span>
+            Saved as <Link href={`/vault/${parsed.resumeId}`} className="underline">{parsed.title}</Link>{' '}
+            (v{parsed.versionNumber})
+          </span>
+        </p>
+      )}
+
+      {(item.status === 'invalid' || item.status === 'error' || jobFailed) && (
+        <Alert variant="destructive">
+          <XCircle className="h-4 w-4" />
+          {item.code && <AlertTitle>{UPLOAD_ERROR_TITLES[item.code]}</AlertTitle>}
+          <AlertDescription>{jobFailed ? job.error || 'Failed to parse resume' : item.error}</AlertDescription>
+        </Alert>
+      )}
+    </li>
+  )
+}
@@ -0,0 +1,74 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { formatFileSize } from '@/lib/utils/file-validation'
+import type { QuotaUsage } from '@/lib/supabase/quotas'
+
+// Share of a limit from which the bar turns amber, then red
+const WARNING_RATIO = 0.8
+const FULL_RATIO = 1
+
+type UsageMeterProps = {
+  usage: QuotaUsage
+}
+
+/**
+ * Storage and resume count against the limits of the user's plan
+ */
+export function UsageMeter({ usage }: UsageMeterProps) {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Storage</CardTitle>
+        <CardDescription>
+          <span className="capitalize">{usage.plan}</span> plan limits
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid gap-4 sm:grid-cols-2">
+        <UsageBar
+          label="Files"
+          used={usage.storageBytes}
+          limit={usage.maxStorageBytes}
+          format={formatFileSize}
+        />
+        <UsageBar
+          label="Resumes"
+          used={usage.resumeCount}
+          limit={usage.maxResumes}
+          format={(value) => String(value)}
+        />
+      </CardContent>
+    </Card>
+  )
+}
+
+type UsageBarProps = {
+  label: string
+  used: number
+  limit: number
+  format: (value: number) => string
+}
+
+function UsageBar({ label, used, limit, format }: UsageBarProps) {
+  const ratio = limit > 0 ? used / limit : 0
+  const color = ratio >= FULL_RATIO ? 'bg-red-500' : ratio >= WARNING_RATIO ? 'bg-amber-500' : 'bg-zinc-900 dark:bg-zinc-100'
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium">{label}</span>
+        <span className="text-zinc-500">
+          {format(used)} of {format(limit)}
+        </span>
+      </div>
+      <div
+        role="meter"
+        aria-label={label}
+        aria-valuemin={0}
+        aria-valuemax={limit}
+        aria-valuenow={Math.min(used, limit)}
+        className="h-2 w-full overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800"
+      >
+        <div className={`h-full ${color}`} style={{ width: `${Math.min(ratio, 1) * 100}%` }} />
+      </div>
+    </div>
+  )
+}
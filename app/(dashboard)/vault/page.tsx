@@ -1,6 +1,40 @@
+import { createClient } from '@/lib/supabase/server'
+import { getQuotaUsage } from '@/lib/supabase/quotas'
 import { ResumeUploadForm } from './_components/resume-upload-form'
+import { ResumeList, RESUME_SORT_COLUMNS, type ResumeSort } from './_components/resume-list'
+import { UsageMeter } from './_components/usage-meter'
+
+// Resumes shown per page of the list
+const PAGE_SIZE = 10
+
+type VaultPageProps = {
+  searchParams: Promise<{ page?: string; sort?: string; order?: string }>
+}
+
+export default async function VaultPage({ searchParams }: VaultPageProps) {
+  const params = await searchParams
+  const sort: ResumeSort = RESUME_SORT_COLUMNS.includes(params.sort as ResumeSort)
+    ? (params.sort as ResumeSort)
+    : 'created_at'
+  const ascending = params.order === 'asc'
+  const page = Math.max(1, Number.parseInt(params.page ?? '1', 10) || 1)
+  const from = (page - 1) * PAGE_SIZE
+
+  const supabase = await createClient()
+  const [{ data: allResumes }, { data: pageResumes, count }, quota] = await Promise.all([
+    supabase
+      .from('resumes')
+      .select('id, title, version_number')
+      .order('created_at', { ascending: false }),
+    supabase
+      .from('resumes')
+      .select('id, title, file_type, file_size, version_number, created_at', { count: 'exact' })
+      .order(sort, { ascending })
+      .order('id')
+      .range(from, from + PAGE_SIZE - 1),
+    getQuotaUsage(supabase),
+  ])
 
-export default function VaultPage() {
   return (
     <div className="space-y-6">
       <div>
@@ -11,12 +45,17 @@ export default function VaultPage() {
       </div>
       
       <div className="grid gap-6">
-        <ResumeUploadForm />
-        
-        {/* Resume list will be added in task 5 */}
-        <div className="rounded-lg border border-dashed p-8 text-center text-zinc-500">
-          Resume list coming soon...
-        </div>
+        {quota.data && <UsageMeter usage={quota.data} />}
+
+        <ResumeUploadForm resumes={allResumes ?? []} />
+
+        <ResumeList
+          resumes={pageResumes ?? []}
+          page={page}
+          pageCount={Math.max(1, Math.ceil((count ?? 0) / PAGE_SIZE))}
+          sort={sort}
+          ascending={ascending}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,147 @@
+'use server'
+
+/**
+ * Server Action: Analyze Resume
+ * Queues an analysis job that compares a stored resume against a job description
+ */
+
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { refundCredits, reserveCredits } from '@/lib/supabase/credits'
+import { enqueueJob, processJobsAfterResponse, type AnalyzeJobPayload } from '@/lib/jobs'
+
+const analyzeResumeSchema = z.object({
+  resumeId: z.string().uuid('Please select a valid resume'),
+  jobDescription: z
+    .string()
+    .trim()
+    .min(50, 'Job description must be at least 50 characters')
+    .max(20000, 'Job description must be at most 20,000 characters'),
+  // Optional overrides for what the job description parser finds
+  jobTitle: z.string().trim().max(200).optional(),
+  companyName: z.string().trim().max(200).optional(),
+})
+
+export type AnalyzeResumeResult = {
+  success: boolean
+  error?: string
+  data?: {
+    jobId: string // Follow the analyze job for progress and the saved analysis (AnalyzeJobResult)
+  }
+}
+
+/**
+ * Main server action to analyze a resume against a job description
+ * A credit is charged when the job is queued and refunded if the job fails
+ * @param formData - FormData containing the resume id and the job description text
+ */
+export async function analyzeResume(formData: FormData): Promise<AnalyzeResumeResult> {
+  try {
+    // 1. Validate input
+    const validatedFields = analyzeResumeSchema.safeParse({
+      resumeId: formData.get('resumeId'),
+      jobDescription: formData.get('jobDescription'),
+      jobTitle: formData.get('jobTitle') || undefined,
+      companyName: formData.get('companyName') || undefined,
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { resumeId, jobDescription, jobTitle, companyName } = validatedFields.data
+
+    // 2. Get authenticated user
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to analyze a resume',
+      }
+    }
+
+    // 3. Load the resume and verify ownership
+    const { data: resume, error: fetchError } = await supabase
+      .from('resumes')
+      .select('id, user_id, raw_text')
+      .eq('id', resumeId)
+      .single()
+
+    if (fetchError || !resume) {
+      return {
+        success: false,
+        error: 'Resume not found',
+      }
+    }
+
+    if (resume.user_id !== user.id) {
+      return {
+        success: false,
+        error: 'Unauthorized',
+      }
+    }
+
+    if (!resume.raw_text) {
+      return {
+        success: false,
+        error: 'This resume has no extracted text to analyze',
+      }
+    }
+
+    // 4. Charge a credit up front; the job refunds it if the analysis fails
+    const admin = createAdminClient()
+    const reservation = await reserveCredits(supabase, 'analysis')
+    if (!reservation.success) {
+      return {
+        success: false,
+        error: reservation.error,
+      }
+    }
+
+    // 5. Queue the analysis
+    const payload: AnalyzeJobPayload = {
+      resumeId,
+      jobDescription,
+      jobTitle,
+      companyName,
+      chargeId: reservation.chargeId!,
+    }
+    const queued = await enqueueJob(admin, {
+      userId: user.id,
+      kind: 'analyze',
+      payload,
+    })
+
+    if (!queued.success) {
+      await refundCredits(reservation.chargeId!)
+      return {
+        success: false,
+        error: queued.error,
+      }
+    }
+
+    processJobsAfterResponse()
+
+    return {
+      success: true,
+      data: {
+        jobId: queued.job!.id,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in analyzeResume:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
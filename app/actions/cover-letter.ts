@@ -0,0 +1,282 @@
+'use server'
+
+/**
+ * Server Actions: Cover Letter
+ * Generate, edit and delete the cover letters kept for an analysis
+ */
+
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { firstRelation } from '@/lib/supabase/relations'
+import { withCredits } from '@/lib/supabase/credits'
+import { getAIProvider } from '@/lib/ai'
+import { parseJobDescription } from '@/lib/parsing/job-description-parser'
+import { parseResumeStructure } from '@/lib/parsing/resume-parser'
+import { buildSummaryContext } from '@/lib/utils/professional-summary'
+import type { CoverLetter, JobDescriptionDetails, ResumeDocument } from '@/lib/types/database'
+
+const MAX_COVER_LETTER_LENGTH = 10000
+
+// Missing keywords the letter may express interest in; more reads like an admission of gaps
+const MAX_GAPS = 3
+
+const generateSchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+  tone: z.enum(['professional', 'enthusiastic', 'conversational'], 'Choose a tone'),
+  length: z.enum(['short', 'medium', 'long'], 'Choose a length'),
+})
+
+const saveSchema = z.object({
+  coverLetterId: z.string().uuid('Invalid cover letter'),
+  text: z
+    .string()
+    .trim()
+    .min(1, 'The cover letter cannot be empty')
+    .max(MAX_COVER_LETTER_LENGTH, 'The cover letter must be at most 10,000 characters'),
+})
+
+const deleteSchema = z.object({
+  coverLetterId: z.string().uuid('Invalid cover letter'),
+})
+
+export type CoverLetterResult = {
+  success: boolean
+  error?: string
+  data?: {
+    coverLetter: CoverLetter
+  }
+}
+
+export type DeleteCoverLetterResult = {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Generate a cover letter for an analysis and keep it with the analysis' other letters
+ * Costs a cover letter credit, refunded if the AI provider fails or the letter cannot be saved
+ * @param formData - FormData containing analysisId, tone and length
+ */
+export async function generateCoverLetter(formData: FormData): Promise<CoverLetterResult> {
+  try {
+    const validatedFields = generateSchema.safeParse({
+      analysisId: formData.get('analysisId'),
+      tone: formData.get('tone'),
+      length: formData.get('length'),
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { analysisId, tone, length } = validatedFields.data
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to generate a cover letter',
+      }
+    }
+
+    // RLS only returns analyses of the user's own resumes
+    const { data: analysis, error: fetchError } = await supabase
+      .from('analyses')
+      .select('id, job_title, company_name, job_description_text, job_details, missing_keywords, resume:resumes(id, raw_text, structured_content)')
+      .eq('id', analysisId)
+      .maybeSingle()
+
+    const resume = firstRelation(analysis?.resume)
+    if (fetchError || !analysis || !resume) {
+      return {
+        success: false,
+        error: 'Analysis not found',
+      }
+    }
+
+    if (!resume.raw_text) {
+      return {
+        success: false,
+        error: 'This resume has no extracted text to write a cover letter from',
+      }
+    }
+
+    const jobDescription: string = analysis.job_description_text
+    const context = buildSummaryContext(
+      resume.raw_text,
+      (resume.structured_content as ResumeDocument | null) ?? parseResumeStructure(resume.raw_text),
+      jobDescription,
+      (analysis.job_details as JobDescriptionDetails | null) ?? parseJobDescription(jobDescription)
+    )
+
+    return await withCredits(supabase, 'cover_letter', async () => {
+      const { text } = await getAIProvider().writeCoverLetter({
+        resumeText: resume.raw_text,
+        jobDescription,
+        jobTitle: analysis.job_title,
+        companyName: analysis.company_name,
+        ...context,
+        gaps: (analysis.missing_keywords as string[]).slice(0, MAX_GAPS),
+        tone,
+        length,
+      })
+
+      const { data: coverLetter, error: insertError } = await supabase
+        .from('cover_letters')
+        .insert({
+          user_id: user.id,
+          resume_id: resume.id,
+          analysis_id: analysisId,
+          tone,
+          length,
+          text: text.slice(0, MAX_COVER_LETTER_LENGTH),
+        })
+        .select()
+        .single()
+
+      if (insertError || !coverLetter) {
+        console.error('Cover letter insert error:', insertError)
+        return {
+          success: false,
+          error: 'Failed to save the cover letter',
+        }
+      }
+
+      return {
+        success: true,
+        data: {
+          coverLetter,
+        },
+      }
+    })
+  } catch (error) {
+    console.error('Unexpected error in generateCoverLetter:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+/**
+ * Save edits to a cover letter
+ * @param formData - FormData containing coverLetterId and text
+ */
+export async function saveCoverLetter(formData: FormData): Promise<CoverLetterResult> {
+  try {
+    const validatedFields = saveSchema.safeParse({
+      coverLetterId: formData.get('coverLetterId'),
+      text: formData.get('text') ?? '',
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to edit a cover letter',
+      }
+    }
+
+    const { data: coverLetter, error: updateError } = await supabase
+      .from('cover_letters')
+      .update({ text: validatedFields.data.text, edited: true })
+      .eq('id', validatedFields.data.coverLetterId)
+      .select()
+      .maybeSingle()
+
+    if (updateError || !coverLetter) {
+      console.error('Cover letter save error:', updateError)
+      return {
+        success: false,
+        error: 'Cover letter not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        coverLetter,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in saveCoverLetter:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+/**
+ * Delete a cover letter
+ * @param formData - FormData containing coverLetterId
+ */
+export async function deleteCoverLetter(formData: FormData): Promise<DeleteCoverLetterResult> {
+  try {
+    const validatedFields = deleteSchema.safeParse({
+      coverLetterId: formData.get('coverLetterId'),
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to delete a cover letter',
+      }
+    }
+
+    const { data: deleted, error: deleteError } = await supabase
+      .from('cover_letters')
+      .delete()
+      .eq('id', validatedFields.data.coverLetterId)
+      .select('id')
+
+    if (deleteError || !deleted || deleted.length === 0) {
+      console.error('Cover letter delete error:', deleteError)
+      return {
+        success: false,
+        error: 'Cover letter not found',
+      }
+    }
+
+    return { success: true }
+  } catch (error) {
+    console.error('Unexpected error in deleteCoverLetter:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
@@ -0,0 +1,213 @@
+'use server'
+
+/**
+ * Server Actions: Generate Summary
+ * Tailored professional summaries for an analysis' job description
+ */
+
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { withCredits } from '@/lib/supabase/credits'
+import { firstRelation } from '@/lib/supabase/relations'
+import { getAIProvider, type SummaryLength, type SummaryTone } from '@/lib/ai'
+import { parseJobDescription } from '@/lib/parsing/job-description-parser'
+import { parseResumeStructure } from '@/lib/parsing/resume-parser'
+import { buildSummaryContext } from '@/lib/utils/professional-summary'
+import { findMentionedKeywords } from '@/lib/utils/keyword-matcher'
+import type { JobDescriptionDetails, ResumeDocument, Suggestion } from '@/lib/types/database'
+
+const generateSchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+})
+
+const saveSchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+  summary: z.string().trim().max(2000, 'Summary must be at most 2,000 characters'),
+})
+
+export type SummaryCandidate = Suggestion & {
+  type: 'summary'
+  length: SummaryLength
+  tone: SummaryTone
+  keywords: string[] // Job keywords the summary covers
+}
+
+export type GenerateSummariesResult = {
+  success: boolean
+  error?: string
+  data?: {
+    candidates: SummaryCandidate[] // Shortest first
+    keywords: string[] // Job keywords the resume supports, which the candidates were asked to cover
+  }
+}
+
+export type SaveSummaryResult = {
+  success: boolean
+  error?: string
+  data?: {
+    summary: string | null
+  }
+}
+
+const LENGTH_ORDER: SummaryLength[] = ['short', 'medium', 'long']
+
+/**
+ * Generate two or three professional summaries of different lengths and tones for an analysis
+ * Costs a summary credit, refunded if the AI provider fails
+ * @param formData - FormData containing analysisId
+ */
+export async function generateSummaries(formData: FormData): Promise<GenerateSummariesResult> {
+  try {
+    const validatedFields = generateSchema.safeParse({
+      analysisId: formData.get('analysisId'),
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to generate a summary',
+      }
+    }
+
+    // RLS only returns analyses of the user's own resumes
+    const { data: analysis, error: fetchError } = await supabase
+      .from('analyses')
+      .select('id, job_description_text, job_details, resume:resumes(raw_text, structured_content)')
+      .eq('id', validatedFields.data.analysisId)
+      .maybeSingle()
+
+    const resume = firstRelation(analysis?.resume)
+    if (fetchError || !analysis || !resume) {
+      return {
+        success: false,
+        error: 'Analysis not found',
+      }
+    }
+
+    if (!resume.raw_text) {
+      return {
+        success: false,
+        error: 'This resume has no extracted text to summarize',
+      }
+    }
+
+    const jobDescription: string = analysis.job_description_text
+    const context = buildSummaryContext(
+      resume.raw_text,
+      (resume.structured_content as ResumeDocument | null) ?? parseResumeStructure(resume.raw_text),
+      jobDescription,
+      (analysis.job_details as JobDescriptionDetails | null) ?? parseJobDescription(jobDescription)
+    )
+
+    return await withCredits(supabase, 'summary', async () => {
+      const { summaries } = await getAIProvider().summarize({
+        resumeText: resume.raw_text,
+        jobDescription,
+        ...context,
+      })
+
+      const candidates = summaries
+        .map((summary): SummaryCandidate => ({
+          type: 'summary',
+          priority: 'medium',
+          suggested: summary.text,
+          reason: `${summary.length.charAt(0).toUpperCase()}${summary.length.slice(1)} summary in a ${summary.tone} tone`,
+          length: summary.length,
+          tone: summary.tone,
+          keywords: findMentionedKeywords(summary.text, context.keywords),
+        }))
+        .sort((a, b) => LENGTH_ORDER.indexOf(a.length) - LENGTH_ORDER.indexOf(b.length))
+
+      return {
+        success: true,
+        data: {
+          candidates,
+          keywords: context.keywords,
+        },
+      }
+    })
+  } catch (error) {
+    console.error('Unexpected error in generateSummaries:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+/**
+ * Save the chosen (and possibly edited) summary on the analysis
+ * An empty summary clears it.
+ * @param formData - FormData containing analysisId and summary
+ */
+export async function saveSummary(formData: FormData): Promise<SaveSummaryResult> {
+  try {
+    const validatedFields = saveSchema.safeParse({
+      analysisId: formData.get('analysisId'),
+      summary: formData.get('summary') ?? '',
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { analysisId, summary } = validatedFields.data
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to save a summary',
+      }
+    }
+
+    const { data: analysis, error: updateError } = await supabase
+      .from('analyses')
+      .update({ tailored_summary: summary || null })
+      .eq('id', analysisId)
+      .select('tailored_summary')
+      .maybeSingle()
+
+    if (updateError || !analysis) {
+      console.error('Summary save error:', updateError)
+      return {
+        success: false,
+        error: 'Analysis not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        summary: analysis.tailored_summary,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in saveSummary:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
@@ -0,0 +1,60 @@
+'use server'
+
+/**
+ * Server Actions: Jobs
+ * Read the state of background jobs owned by the current user
+ */
+
+import { createClient } from '@/lib/supabase/server'
+import type { Job } from '@/lib/types/database'
+
+export type JobStatusResult = {
+  success: boolean
+  error?: string
+  data?: Pick<Job, 'id' | 'kind' | 'status' | 'stage' | 'progress' | 'result' | 'error' | 'attempts' | 'max_attempts' | 'run_after'>
+}
+
+/**
+ * Get the current state of a job
+ * Polling fallback for clients without Realtime. Due retries are picked up by the process-jobs cron route.
+ */
+export async function getJobStatus(jobId: string): Promise<JobStatusResult> {
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+    } = await supabase.auth.getUser()
+
+    if (!user) {
+      return {
+        success: false,
+        error: 'Unauthorized',
+      }
+    }
+
+    // RLS only returns the user's own jobs
+    const { data: job, error } = await supabase
+      .from('jobs')
+      .select('id, kind, status, stage, progress, result, error, attempts, max_attempts, run_after')
+      .eq('id', jobId)
+      .maybeSingle()
+
+    if (error || !job) {
+      return {
+        success: false,
+        error: 'Job not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: job,
+    }
+  } catch (error) {
+    console.error('Job status error:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to load the job',
+    }
+  }
+}
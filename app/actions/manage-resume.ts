@@ -0,0 +1,86 @@
+'use server'
+
+/**
+ * Server Actions: Manage Resume
+ * Update resume metadata owned by the current user
+ */
+
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+
+const renameSchema = z.object({
+  resumeId: z.string().uuid('Invalid resume'),
+  title: z.string().trim().min(1, 'Title is required').max(200, 'Title is too long'),
+})
+
+export type RenameResumeResult = {
+  success: boolean
+  error?: string
+  data?: {
+    title: string
+  }
+}
+
+/**
+ * Rename a resume owned by the current user
+ * @param formData - FormData containing resumeId and the new title
+ */
+export async function renameResume(formData: FormData): Promise<RenameResumeResult> {
+  try {
+    const validatedFields = renameSchema.safeParse({
+      resumeId: formData.get('resumeId'),
+      title: formData.get('title'),
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { resumeId, title } = validatedFields.data
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to rename a resume',
+      }
+    }
+
+    const { data: resume, error: updateError } = await supabase
+      .from('resumes')
+      .update({ title })
+      .eq('id', resumeId)
+      .eq('user_id', user.id)
+      .select('title')
+      .single()
+
+    if (updateError || !resume) {
+      console.error('Resume rename error:', updateError)
+      return {
+        success: false,
+        error: 'Resume not found',
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        title: resume.title,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in renameResume:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
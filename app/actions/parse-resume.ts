@@ -2,35 +2,63 @@
 
 /**
  * Server Action: Parse Resume
- * Handles resume file upload, text extraction, and database storage
+ * Handles resume file upload and queues text extraction and database storage as a parse job
  */
 
+import type { SupabaseClient } from '@supabase/supabase-js'
 import { createClient } from '@/lib/supabase/server'
-import { extractTextFromPDF } from '@/lib/utils/pdf-parser'
-import { extractTextFromDOCX } from '@/lib/utils/docx-parser'
-import { validateResumeFile } from '@/lib/utils/file-validation'
-import type { ResumeInsert } from '@/lib/types/database'
+import { createAdminClient } from '@/lib/supabase/admin'
+import { EXTRACTOR_VERSION } from '@/lib/utils/text-extraction'
+import {
+  deleteResumeAndFile,
+  discardResumeUpload,
+  stageResumeUpload,
+  validateResumeUpload,
+} from '@/lib/supabase/storage'
+import type { QuotaErrorCode } from '@/lib/supabase/quotas'
+import type { ValidationErrorCode } from '@/lib/utils/file-validation'
+import { generateResumeTitle } from '@/lib/utils/resume-formats'
+import {
+  reextractResume,
+  saveReextraction,
+  type ReparsableResume,
+} from '@/lib/supabase/resume-reparse'
+import { DUPLICATE_RESOLUTIONS, hashFileContent, type DuplicateMatch } from '@/lib/utils/resume-fingerprint'
+import type { DiffLine, DiffStats } from '@/lib/utils/text-diff'
+import { enqueueJob, processJobsAfterResponse, type ParseJobPayload } from '@/lib/jobs'
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 100
 
 export type ParseResumeResult = {
   success: boolean
   error?: string
+  errorCode?: ValidationErrorCode | QuotaErrorCode // Set when the file was rejected or would exceed the plan
+  duplicate?: DuplicateMatch // Set when the file was already uploaded; send again with duplicateAction
   data?: {
-    resumeId: string
-    title: string
-    fileUrl: string
-    textPreview: string
+    jobId?: string // Follow the parse job for progress and the stored resume (ParseJobResult)
+    linkedResumeId?: string // Set instead of jobId when the upload was discarded for an existing resume
   }
 }
 
 /**
- * Main server action to parse and store a resume
- * @param formData - FormData containing the resume file and optional title
+ * Main server action to upload a resume and queue it for parsing
+ * The file is validated and stored right away; extraction runs as a background parse job.
+ * @param formData - FormData containing the resume file, optional title, optional
+ * parentId / changeNote to register the upload as a new version of an existing resume,
+ * an optional idempotencyKey that makes retries of the same upload safe, and duplicateAction /
+ * duplicateOf once the user has decided what to do about a duplicate reported earlier
  */
 export async function parseResume(formData: FormData): Promise<ParseResumeResult> {
   try {
     // 1. Extract file and metadata from form data
     const file = formData.get('file') as File | null
     const title = (formData.get('title') as string) || undefined
+    let parentId = (formData.get('parentId') as string) || null
+    const changeNote = ((formData.get('changeNote') as string) || '').trim() || null
+    // Sent again when the client retries the same upload
+    const idempotencyKey = ((formData.get('idempotencyKey') as string) || '').slice(0, MAX_IDEMPOTENCY_KEY_LENGTH) || crypto.randomUUID()
+    const duplicateAction = DUPLICATE_RESOLUTIONS.find((action) => action === formData.get('duplicateAction'))
+    const duplicateOf = (formData.get('duplicateOf') as string) || null
 
     if (!file) {
       return {
@@ -39,14 +67,16 @@ export async function parseResume(formData: FormData): Promise<ParseResumeResult
       }
     }
 
-    // 2. Validate file
-    const validation = validateResumeFile(file)
-    if (!validation.valid) {
+    // 2. Validate file name, type and size, then the actual bytes
+    const validation = await validateResumeUpload(file)
+    if (!validation.success) {
       return {
         success: false,
         error: validation.error,
+        errorCode: validation.errorCode,
       }
     }
+    const upload = validation.data!
 
     // 3. Get authenticated user
     const supabase = await createClient()
@@ -62,68 +92,109 @@ export async function parseResume(formData: FormData): Promise<ParseResumeResult
       }
     }
 
-    // 4. Upload file to Supabase Storage
-    const uploadResult = await uploadResumeFile(file, user.id, supabase)
-    if (!uploadResult.success) {
-      return {
-        success: false,
-        error: uploadResult.error,
-      }
-    }
+    // Upload records and parse jobs are written by the server only
+    const admin = createAdminClient()
 
-    // 5. Extract text from file
-    const extractionResult = await extractTextFromFile(file)
-    if (!extractionResult.success) {
-      // Clean up uploaded file if extraction fails
-      await supabase.storage.from('resumes').remove([uploadResult.filePath!])
+    // 4. Apply the user's decision about a duplicate reported earlier
+    if (duplicateAction === 'link' || duplicateAction === 'version') {
+      const { data: match } = duplicateOf
+        ? await supabase.from('resumes').select('id').eq('id', duplicateOf).eq('user_id', user.id).maybeSingle()
+        : { data: null }
 
-      return {
-        success: false,
-        error: extractionResult.error,
+      if (!match) {
+        return {
+          success: false,
+          error: 'The matching resume was not found',
+        }
       }
-    }
 
-    // 6. Determine file type
-    const fileType = file.type === 'application/pdf' ? 'pdf' : 'docx'
+      if (duplicateAction === 'link') {
+        await discardResumeUpload(admin, user.id, idempotencyKey, 'Discarded in favor of an existing resume')
+        return {
+          success: true,
+          data: {
+            linkedResumeId: match.id,
+          },
+        }
+      }
 
-    // 7. Generate title if not provided
-    const resumeTitle = title || generateResumeTitle(file.name)
+      parentId = match.id
+    }
 
-    // 8. Store resume record in database
-    const resumeData: ResumeInsert = {
-      user_id: user.id,
-      title: resumeTitle,
-      file_url: uploadResult.fileUrl!,
-      raw_text: extractionResult.text!,
-      file_size: file.size,
-      file_type: fileType,
+    // 5. Check the resume to add a version to (the database assigns the version number)
+    if (parentId) {
+      const { data: parent } = await supabase
+        .from('resumes')
+        .select('id')
+        .eq('id', parentId)
+        .eq('user_id', user.id)
+        .maybeSingle()
+
+      if (!parent) {
+        return {
+          success: false,
+          error: 'The resume to add a version to was not found',
+        }
+      }
     }
 
-    const { data: resume, error: dbError } = await supabase
-      .from('resumes')
-      .insert(resumeData)
-      .select()
-      .single()
+    // 6. Stop at an identical file until the user decides what to do with it
+    // Near-duplicates are only known after extraction, so the parse job checks those
+    const contentHash = hashFileContent(upload.buffer)
+    if (!duplicateAction) {
+      const duplicate = await findExactDuplicate(supabase, user.id, contentHash)
+      if (duplicate) {
+        return {
+          success: false,
+          error: `You already uploaded this file as "${duplicate.title}"`,
+          duplicate,
+        }
+      }
+    }
 
-    if (dbError) {
-      // Clean up uploaded file if database insert fails
-      await supabase.storage.from('resumes').remove([uploadResult.filePath!])
+    // 7. Record the upload within the plan's limits and store the file
+    // Retries with the same idempotency key resume the same upload instead of storing a duplicate
+    const staged = await stageResumeUpload(admin, user.id, idempotencyKey, upload)
+    if (!staged.success) {
+      return {
+        success: false,
+        error: staged.error,
+        errorCode: staged.errorCode,
+      }
+    }
 
-      console.error('Database insert error:', dbError)
+    // 8. Queue extraction; the same key returns the job already queued for this upload
+    // A duplicate decision gets its own job, since the first one stopped at the duplicate
+    const payload: ParseJobPayload = {
+      uploadId: staged.upload!.id,
+      title: title || generateResumeTitle(file.name),
+      fileType: upload.fileType,
+      fileSize: file.size,
+      contentHash,
+      checkDuplicates: !duplicateAction,
+      parentId,
+      changeNote,
+    }
+    const queued = await enqueueJob(admin, {
+      userId: user.id,
+      kind: 'parse',
+      payload,
+      idempotencyKey: duplicateAction ? `${idempotencyKey}:${duplicateAction}` : idempotencyKey,
+    })
+
+    if (!queued.success) {
       return {
         success: false,
-        error: 'Failed to save resume to database',
+        error: queued.error,
       }
     }
 
-    // 9. Return success with resume data
+    processJobsAfterResponse()
+
     return {
       success: true,
       data: {
-        resumeId: resume.id,
-        title: resume.title,
-        fileUrl: resume.file_url,
-        textPreview: extractionResult.text!.substring(0, 500) + '...',
+        jobId: queued.job!.id,
       },
     }
   } catch (error) {
@@ -135,121 +206,185 @@ export async function parseResume(formData: FormData): Promise<ParseResumeResult
   }
 }
 
-/**
- * Upload resume file to Supabase Storage
- */
-async function uploadResumeFile(
-  file: File,
-  userId: string,
-  supabase: any
-): Promise<{
+export type ReparsePreviewResult = {
   success: boolean
   error?: string
-  filePath?: string
-  fileUrl?: string
-}> {
+  data?: {
+    resumeId: string
+    fromVersion: number // extractor_version the stored text came from
+    toVersion: number // Current EXTRACTOR_VERSION
+    diff: DiffLine[] // Stored text against the newly extracted text
+    stats: DiffStats
+  }
+}
+
+export type ReparseResumeResult = {
+  success: boolean
+  error?: string
+  data?: {
+    resumeId: string
+    textPreview: string
+  }
+}
+
+/**
+ * Re-extract text from the stored file of an existing resume and compare it with the stored text
+ * Nothing is saved; call reparseResume to keep the new text.
+ */
+export async function previewReparse(resumeId: string): Promise<ReparsePreviewResult> {
   try {
-    // Generate unique file path
-    const timestamp = new Date().toISOString().replace(/[:.]/g, '-')
-    const safeFilename = file.name.replace(/[^a-zA-Z0-9._-]/g, '_')
-    const filePath = `${userId}/${timestamp}_${safeFilename}`
-
-    // Upload to storage
-    const { data, error } = await supabase.storage
-      .from('resumes')
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false,
-      })
-
-    if (error) {
-      console.error('Storage upload error:', error)
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
       return {
         success: false,
-        error: `Failed to upload file: ${error.message}`,
+        error: 'You must be logged in to re-parse a resume',
       }
     }
 
-    // Get public URL
-    const {
-      data: { publicUrl },
-    } = supabase.storage.from('resumes').getPublicUrl(filePath)
+    const resume = await loadReparsableResume(supabase, user.id, resumeId)
+    if (!resume) {
+      return {
+        success: false,
+        error: 'Resume not found',
+      }
+    }
+
+    const reextraction = await reextractResume(supabase, resume)
+    if (!reextraction.success) {
+      return {
+        success: false,
+        error: reextraction.error,
+      }
+    }
 
     return {
       success: true,
-      filePath: data.path,
-      fileUrl: publicUrl,
+      data: {
+        resumeId,
+        fromVersion: resume.extractor_version,
+        toVersion: EXTRACTOR_VERSION,
+        diff: reextraction.data!.diff,
+        stats: reextraction.data!.stats,
+      },
     }
   } catch (error) {
-    console.error('Upload error:', error)
+    console.error('Unexpected error in previewReparse:', error)
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Upload failed',
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
     }
   }
 }
 
 /**
- * Extract text from file based on file type
+ * Re-extract text and structure from the stored file of an existing resume and save them
+ * Used after parser improvements, without asking the user to upload again
  */
-async function extractTextFromFile(file: File): Promise<{
-  success: boolean
-  error?: string
-  text?: string
-}> {
+export async function reparseResume(resumeId: string): Promise<ReparseResumeResult> {
   try {
-    const arrayBuffer = await file.arrayBuffer()
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
 
-    // Determine file type and use appropriate parser
-    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
-      const result = await extractTextFromPDF(arrayBuffer)
+    if (authError || !user) {
       return {
-        success: result.success,
-        error: result.error,
-        text: result.text,
+        success: false,
+        error: 'You must be logged in to re-parse a resume',
       }
-    } else if (
-      file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
-      file.name.toLowerCase().endsWith('.docx')
-    ) {
-      const result = await extractTextFromDOCX(arrayBuffer)
+    }
+
+    // 1. Load the resume and verify ownership
+    const resume = await loadReparsableResume(supabase, user.id, resumeId)
+    if (!resume) {
       return {
-        success: result.success,
-        error: result.error,
-        text: result.text,
+        success: false,
+        error: 'Resume not found',
       }
-    } else {
+    }
+
+    // 2. Download the original file and extract text again
+    const reextraction = await reextractResume(supabase, resume)
+    if (!reextraction.success) {
       return {
         success: false,
-        error: 'Unsupported file type',
+        error: reextraction.error,
       }
     }
+
+    // 3. Store the new text and structure (only the title is writable by users)
+    const saved = await saveReextraction(createAdminClient(), resumeId, reextraction.data!)
+    if (!saved.success) {
+      return {
+        success: false,
+        error: saved.error,
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        resumeId,
+        textPreview: reextraction.data!.text.substring(0, 500) + '...',
+      },
+    }
   } catch (error) {
-    console.error('Text extraction error:', error)
+    console.error('Unexpected error in reparseResume:', error)
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Text extraction failed',
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
     }
   }
 }
 
 /**
- * Generate a resume title from filename
+ * Load a resume with the fields needed to re-parse it, if it belongs to the user
  */
-function generateResumeTitle(filename: string): string {
-  // Remove extension
-  const nameWithoutExt = filename.replace(/\.(pdf|docx)$/i, '')
-
-  // Replace underscores and hyphens with spaces
-  const cleaned = nameWithoutExt.replace(/[_-]/g, ' ')
+async function loadReparsableResume(
+  supabase: SupabaseClient,
+  userId: string,
+  resumeId: string
+): Promise<ReparsableResume | null> {
+  const { data: resume, error } = await supabase
+    .from('resumes')
+    .select('id, user_id, file_path, file_type, raw_text, extractor_version')
+    .eq('id', resumeId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Resume fetch error:', error)
+  }
 
-  // Capitalize first letter of each word
-  const title = cleaned
-    .split(' ')
-    .map((word) => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
-    .join(' ')
+  return resume
+}
 
-  return title || 'Untitled Resume'
+/**
+ * Find the user's most recent resume stored from the same file bytes
+ */
+async function findExactDuplicate(
+  supabase: SupabaseClient,
+  userId: string,
+  contentHash: string
+): Promise<DuplicateMatch | null> {
+  const { data: resume } = await supabase
+    .from('resumes')
+    .select('id, title, version_number')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  return resume
+    ? { kind: 'exact', resumeId: resume.id, title: resume.title, versionNumber: resume.version_number }
+    : null
 }
 
 /**
@@ -261,55 +396,19 @@ export async function deleteResume(resumeId: string): Promise<{
 }> {
   try {
     const supabase = await createClient()
-
-    // Get the resume to find the file path
-    const { data: resume, error: fetchError } = await supabase
-      .from('resumes')
-      .select('file_url, user_id')
-      .eq('id', resumeId)
-      .single()
-
-    if (fetchError || !resume) {
-      return {
-        success: false,
-        error: 'Resume not found',
-      }
-    }
-
-    // Verify user owns this resume
     const {
       data: { user },
     } = await supabase.auth.getUser()
 
-    if (!user || user.id !== resume.user_id) {
+    if (!user) {
       return {
         success: false,
         error: 'Unauthorized',
       }
     }
 
-    // Extract file path from URL
-    const filePath = extractFilePathFromUrl(resume.file_url, user.id)
-
-    // Delete from database (will cascade delete analyses due to foreign key)
-    const { error: deleteError } = await supabase.from('resumes').delete().eq('id', resumeId)
-
-    if (deleteError) {
-      console.error('Database delete error:', deleteError)
-      return {
-        success: false,
-        error: 'Failed to delete resume',
-      }
-    }
-
-    // Delete file from storage
-    if (filePath) {
-      await supabase.storage.from('resumes').remove([filePath])
-    }
-
-    return {
-      success: true,
-    }
+    // Delete from database (will cascade delete analyses due to foreign key), then the file
+    return await deleteResumeAndFile(supabase, user.id, resumeId)
   } catch (error) {
     console.error('Delete resume error:', error)
     return {
@@ -318,19 +417,3 @@ export async function deleteResume(resumeId: string): Promise<{
     }
   }
 }
-
-/**
- * Extract file path from storage URL
- */
-function extractFilePathFromUrl(url: string, userId: string): string | null {
-  try {
-    // URL format: https://{project}.supabase.co/storage/v1/object/public/resumes/{userId}/{filename}
-    const parts = url.split('/resumes/')
-    if (parts.length === 2) {
-      return parts[1]
-    }
-    return null
-  } catch {
-    return null
-  }
-}
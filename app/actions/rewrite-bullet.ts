@@ -0,0 +1,237 @@
+'use server'
+
+/**
+ * Server Actions: Rewrite Bullet
+ * "Fix This" flow: rewrite one resume bullet for an analysis and apply accepted rewrites to its tailored resume
+ */
+
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { withCredits } from '@/lib/supabase/credits'
+import { getAIProvider } from '@/lib/ai'
+import { suggestionSchema } from '@/lib/ai/schemas'
+import { getOrCreateTailoredResume, getTailoredSections, saveTailoredResume } from '@/lib/supabase/tailored-resumes'
+import { replaceBulletInSections } from '@/lib/utils/resume-edits'
+import { findMentionedKeywords } from '@/lib/utils/keyword-matcher'
+import type { AcceptedSuggestion, Suggestion } from '@/lib/types/database'
+
+// Missing keywords passed to the provider per rewrite; more makes the candidates read like keyword lists
+const MAX_REWRITE_KEYWORDS = 3
+
+const rewriteSchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+  bullet: z
+    .string()
+    .trim()
+    .min(10, 'Bullet point must be at least 10 characters')
+    .max(1000, 'Bullet point must be at most 1,000 characters'),
+})
+
+const applySchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+  original: z.string().trim().min(1, 'Missing the bullet point to replace'),
+  replacement: z
+    .string()
+    .trim()
+    .min(1, 'The rewrite cannot be empty')
+    .max(1000, 'The rewrite must be at most 1,000 characters'),
+  suggestion: suggestionSchema,
+})
+
+export type RewriteBulletResult = {
+  success: boolean
+  error?: string
+  data?: {
+    candidates: Suggestion[] // Each with `original` set to the bullet
+    keywords: string[] // Missing keywords the candidates were asked to work in
+  }
+}
+
+export type ApplyRewriteResult = {
+  success: boolean
+  error?: string
+  data?: {
+    tailoredResumeId: string
+    text: string // Tailored text with the rewrite applied
+    matchScore: number | null
+  }
+}
+
+/**
+ * Generate rewrite candidates for one bullet, working in the analysis' missing keywords
+ * Costs a rewrite credit, refunded if the AI provider fails
+ * @param formData - FormData containing analysisId and the bullet text
+ */
+export async function rewriteBullet(formData: FormData): Promise<RewriteBulletResult> {
+  try {
+    const validatedFields = rewriteSchema.safeParse({
+      analysisId: formData.get('analysisId'),
+      bullet: formData.get('bullet'),
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { analysisId, bullet } = validatedFields.data
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to rewrite a bullet point',
+      }
+    }
+
+    // RLS only returns analyses of the user's own resumes
+    const { data: analysis, error: fetchError } = await supabase
+      .from('analyses')
+      .select('id, job_description_text, missing_keywords')
+      .eq('id', analysisId)
+      .maybeSingle()
+
+    if (fetchError || !analysis) {
+      return {
+        success: false,
+        error: 'Analysis not found',
+      }
+    }
+
+    const missingKeywords = analysis.missing_keywords as string[]
+    const mentioned = new Set(findMentionedKeywords(bullet, missingKeywords))
+    const keywords = missingKeywords.filter((keyword) => !mentioned.has(keyword)).slice(0, MAX_REWRITE_KEYWORDS)
+
+    return await withCredits(supabase, 'rewrite', async () => {
+      const { suggestions } = await getAIProvider().rewrite({
+        text: bullet,
+        jobDescription: analysis.job_description_text,
+        keywords,
+      })
+
+      return {
+        success: true,
+        data: {
+          candidates: suggestions.map((suggestion) => ({ ...suggestion, original: bullet })),
+          keywords,
+        },
+      }
+    })
+  } catch (error) {
+    console.error('Unexpected error in rewriteBullet:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+/**
+ * Apply an accepted (or edited) rewrite to the analysis' tailored resume
+ * The tailored resume is created from the resume's text on the first accepted rewrite; the resume itself is never changed.
+ * @param formData - FormData containing analysisId, the original bullet, the replacement text and
+ * the accepted candidate as JSON (suggestion)
+ */
+export async function applyRewrite(formData: FormData): Promise<ApplyRewriteResult> {
+  try {
+    let suggestion: unknown
+    try {
+      suggestion = JSON.parse((formData.get('suggestion') as string) || 'null')
+    } catch {
+      suggestion = null
+    }
+
+    const validatedFields = applySchema.safeParse({
+      analysisId: formData.get('analysisId'),
+      original: formData.get('original'),
+      replacement: formData.get('replacement'),
+      suggestion,
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { analysisId, original, replacement } = validatedFields.data
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to apply a rewrite',
+      }
+    }
+
+    const tailored = await getOrCreateTailoredResume(supabase, user.id, analysisId)
+    if (!tailored.success) {
+      return {
+        success: false,
+        error: tailored.error,
+      }
+    }
+
+    const replaced = replaceBulletInSections(getTailoredSections(tailored.data!), original, replacement)
+    if (!replaced) {
+      return {
+        success: false,
+        error: 'This bullet point is no longer in the tailored resume. It may have been rewritten already.',
+      }
+    }
+
+    const accepted: AcceptedSuggestion = {
+      original,
+      replacement,
+      suggestion: validatedFields.data.suggestion,
+      edited: replacement !== validatedFields.data.suggestion.suggested.trim(),
+      applied_at: new Date().toISOString(),
+    }
+
+    const saved = await saveTailoredResume(
+      supabase,
+      tailored.data!,
+      replaced.sections,
+      [{
+        kind: 'rewrite',
+        section: replaced.sections[replaced.index].heading,
+        description: `Rewrote "${original}"${accepted.edited ? ' (edited)' : ''}`,
+      }],
+      accepted
+    )
+    if (!saved.success) {
+      return {
+        success: false,
+        error: saved.error,
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        tailoredResumeId: saved.data!.id,
+        text: saved.data!.text,
+        matchScore: saved.data!.match_score,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in applyRewrite:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
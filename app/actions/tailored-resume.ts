@@ -0,0 +1,218 @@
+'use server'
+
+/**
+ * Server Actions: Tailored Resume
+ * Start and edit the per-analysis copy of a resume; the original resume is never changed
+ */
+
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import {
+  getOrCreateTailoredResume,
+  getTailoredResume,
+  getTailoredSections,
+  saveTailoredResume,
+  type TailoredResumeChange,
+} from '@/lib/supabase/tailored-resumes'
+import { splitResumeSections } from '@/lib/utils/resume-edits'
+
+const MAX_TAILORED_TEXT_LENGTH = 50000
+
+const startSchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+})
+
+const saveSchema = z.object({
+  analysisId: z.string().uuid('Invalid analysis'),
+  sections: z
+    .array(z.object({
+      heading: z.string().nullable(),
+      text: z.string().max(MAX_TAILORED_TEXT_LENGTH, 'A section is too long'),
+    }))
+    .min(1, 'The tailored resume needs at least one section'),
+})
+
+export type StartTailoredResumeResult = {
+  success: boolean
+  error?: string
+  data?: {
+    tailoredResumeId: string
+  }
+}
+
+export type SaveTailoredResumeResult = {
+  success: boolean
+  error?: string
+  data?: {
+    matchScore: number | null
+    changedSections: number
+  }
+}
+
+/**
+ * Create the tailored resume for an analysis from its resume's text, or return the existing one
+ * @param formData - FormData containing analysisId
+ */
+export async function startTailoredResume(formData: FormData): Promise<StartTailoredResumeResult> {
+  try {
+    const validatedFields = startSchema.safeParse({
+      analysisId: formData.get('analysisId'),
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to tailor a resume',
+      }
+    }
+
+    const tailored = await getOrCreateTailoredResume(supabase, user.id, validatedFields.data.analysisId)
+    if (!tailored.success) {
+      return {
+        success: false,
+        error: tailored.error,
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        tailoredResumeId: tailored.data!.id,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in startTailoredResume:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
+
+/**
+ * Save edited sections of a tailored resume
+ * Section headings and their order are fixed; each changed section is logged as an edit, or as
+ * a reset when it was put back to the original text.
+ * @param formData - FormData containing analysisId and the sections as JSON
+ */
+export async function saveTailoredSections(formData: FormData): Promise<SaveTailoredResumeResult> {
+  try {
+    let sections: unknown
+    try {
+      sections = JSON.parse((formData.get('sections') as string) || 'null')
+    } catch {
+      sections = null
+    }
+
+    const validatedFields = saveSchema.safeParse({
+      analysisId: formData.get('analysisId'),
+      sections,
+    })
+
+    if (!validatedFields.success) {
+      return {
+        success: false,
+        error: validatedFields.error.issues[0]?.message ?? 'Invalid input',
+      }
+    }
+
+    const { analysisId } = validatedFields.data
+
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return {
+        success: false,
+        error: 'You must be logged in to edit a tailored resume',
+      }
+    }
+
+    const tailored = await getTailoredResume(supabase, analysisId)
+    if (!tailored.success || !tailored.data) {
+      return {
+        success: false,
+        error: tailored.error ?? 'Tailored resume not found',
+      }
+    }
+
+    const current = getTailoredSections(tailored.data)
+    const edited = validatedFields.data.sections.map((section) => ({ heading: section.heading, text: section.text.trimEnd() }))
+    if (
+      edited.length !== current.length ||
+      edited.some((section, index) => section.heading !== current[index].heading)
+    ) {
+      return {
+        success: false,
+        error: 'The tailored resume changed in another tab. Reload the page to edit the latest version.',
+      }
+    }
+
+    const { data: resume } = await supabase
+      .from('resumes')
+      .select('raw_text')
+      .eq('id', tailored.data.resume_id)
+      .maybeSingle()
+    const original = splitResumeSections(resume?.raw_text ?? '')
+
+    const changes: TailoredResumeChange[] = edited.flatMap((section, index): TailoredResumeChange[] => {
+      if (section.text === current[index].text) {
+        return []
+      }
+
+      const name = section.heading ?? 'Contact details'
+      const originalText = original.find((candidate) => candidate.heading === section.heading)?.text
+      return section.text === originalText
+        ? [{ kind: 'reset', section: section.heading, description: `Restored ${name} to the original` }]
+        : [{ kind: 'edit', section: section.heading, description: `Edited ${name}` }]
+    })
+
+    if (changes.length === 0) {
+      return {
+        success: true,
+        data: {
+          matchScore: tailored.data.match_score,
+          changedSections: 0,
+        },
+      }
+    }
+
+    const saved = await saveTailoredResume(supabase, tailored.data, edited, changes)
+    if (!saved.success) {
+      return {
+        success: false,
+        error: saved.error,
+      }
+    }
+
+    return {
+      success: true,
+      data: {
+        matchScore: saved.data!.match_score,
+        changedSections: changes.length,
+      },
+    }
+  } catch (error) {
+    console.error('Unexpected error in saveTailoredSections:', error)
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : 'An unexpected error occurred',
+    }
+  }
+}
@@ -0,0 +1,46 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { reparseOutdatedResumes } from '@/lib/supabase/resume-reparse'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+
+// Leave the batch's 45 second budget room to finish its current resume
+export const maxDuration = 60
+
+const MAX_BATCH_LIMIT = 100
+
+/**
+ * Re-parse resumes extracted with an older EXTRACTOR_VERSION
+ * Run after changing a parser to roll the fix out to stored resumes, with
+ * `Authorization: Bearer $ADMIN_API_SECRET`. Query parameters:
+ * - dryRun=true reports line changes per resume without saving anything
+ * - limit (default 25, at most 100) resumes per request
+ * - after=<nextCursor> continues from the previous response
+ */
+export async function POST(request: NextRequest) {
+  const adminSecret = process.env.ADMIN_API_SECRET
+  if (!adminSecret || request.headers.get('authorization') !== `Bearer ${adminSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  const params = request.nextUrl.searchParams
+  const limit = Number(params.get('limit') ?? 25)
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_BATCH_LIMIT) {
+    return NextResponse.json({ error: `limit must be a whole number from 1 to ${MAX_BATCH_LIMIT}` }, { status: 400 })
+  }
+
+  try {
+    const result = await reparseOutdatedResumes(createAdminClient(), {
+      limit,
+      dryRun: params.get('dryRun') === 'true',
+      after: params.get('after'),
+    })
+    if (!result.success) {
+      return NextResponse.json({ error: result.error }, { status: 500 })
+    }
+
+    return NextResponse.json(result.data)
+  } catch (error) {
+    console.error('Unexpected error in resume re-parse:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
@@ -0,0 +1,72 @@
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { firstRelation } from '@/lib/supabase/relations'
+import { COVER_LETTER_FORMAT_IDS, exportCoverLetter } from '@/lib/export'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+
+const exportSchema = z.object({
+  format: z.enum(COVER_LETTER_FORMAT_IDS, `format must be one of ${COVER_LETTER_FORMAT_IDS.join(', ')}`),
+})
+
+/**
+ * Download a cover letter as ?format=docx, txt or md
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const validatedFields = exportSchema.safeParse({
+    format: request.nextUrl.searchParams.get('format') ?? undefined,
+  })
+
+  if (!validatedFields.success) {
+    return NextResponse.json(
+      { error: validatedFields.error.issues[0]?.message ?? 'Invalid input' },
+      { status: 400 }
+    )
+  }
+
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'You must be logged in to download a cover letter' }, { status: 401 })
+    }
+
+    const { data: coverLetter, error: fetchError } = await supabase
+      .from('cover_letters')
+      .select('user_id, text, analysis:analyses(job_title, company_name)')
+      .eq('id', id)
+      .maybeSingle()
+
+    // Answer 404 for other users' letters too, so ids cannot be probed
+    if (fetchError || !coverLetter || coverLetter.user_id !== user.id) {
+      return NextResponse.json({ error: 'Cover letter not found' }, { status: 404 })
+    }
+
+    const analysis = firstRelation(coverLetter.analysis)
+    const title = ['Cover Letter', analysis?.job_title, analysis?.company_name].filter(Boolean).join(' - ')
+
+    const file = await exportCoverLetter(coverLetter.text, { format: validatedFields.data.format, title })
+    const filename = `${title.replace(/[^a-zA-Z0-9._ -]/g, '_')}.${file.extension}`
+
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        // Letters are private to the user
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Unexpected error in cover letter export:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
@@ -0,0 +1,28 @@
+import { createAdminClient } from '@/lib/supabase/admin'
+import { processJobs } from '@/lib/jobs'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+
+// Leave the worker's 45 second budget room to finish its current job
+export const maxDuration = 60
+
+/**
+ * Run due background jobs
+ * Picks up retries and jobs whose after-response worker did not get to them.
+ * Called every minute by the scheduler (see vercel.json) with `Authorization: Bearer $CRON_SECRET`;
+ * per-minute Vercel crons need the Pro plan, so Hobby deployments use an external scheduler
+ */
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET
+  if (!cronSecret || request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+  }
+
+  try {
+    const report = await processJobs(createAdminClient())
+    return NextResponse.json(report)
+  } catch (error) {
+    console.error('Unexpected error in job processing:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
@@ -0,0 +1,61 @@
+import { createClient } from '@/lib/supabase/server'
+import { createResumeDownloadUrl } from '@/lib/supabase/storage'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+
+// Signed download links stay valid for one minute
+const SIGNED_URL_TTL_SECONDS = 60
+
+/**
+ * Download the original resume file
+ * Checks ownership, then redirects to a short-lived signed URL for the private storage object
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'You must be logged in to download a resume' }, { status: 401 })
+    }
+
+    const { data: resume, error: fetchError } = await supabase
+      .from('resumes')
+      .select('user_id, title, file_path, file_type, file_missing')
+      .eq('id', id)
+      .maybeSingle()
+
+    // Answer 404 for other users' resumes too, so ids cannot be probed
+    if (fetchError || !resume || resume.user_id !== user.id) {
+      return NextResponse.json({ error: 'Resume not found' }, { status: 404 })
+    }
+
+    if (resume.file_missing) {
+      return NextResponse.json({ error: 'The original file is no longer in storage' }, { status: 410 })
+    }
+
+    const extension = resume.file_path.includes('.') ? resume.file_path.split('.').pop() : resume.file_type
+    const filename = `${resume.title.replace(/[^a-zA-Z0-9._ -]/g, '_')}.${extension}`
+
+    const signed = await createResumeDownloadUrl(supabase, resume.file_path, filename, SIGNED_URL_TTL_SECONDS)
+    if (!signed.success) {
+      return NextResponse.json({ error: signed.error }, { status: 500 })
+    }
+
+    const response = NextResponse.redirect(signed.url!)
+    // The signed URL is short-lived and user-specific
+    response.headers.set('Cache-Control', 'private, no-store')
+    return response
+  } catch (error) {
+    console.error('Unexpected error in resume download:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
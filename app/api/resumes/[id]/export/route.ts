@@ -0,0 +1,96 @@
+import { z } from 'zod'
+import { createClient } from '@/lib/supabase/server'
+import { EXPORT_FORMAT_IDS, EXPORT_TEMPLATE_IDS, exportResume } from '@/lib/export'
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+
+const exportSchema = z.object({
+  format: z.enum(EXPORT_FORMAT_IDS, `format must be one of ${EXPORT_FORMAT_IDS.join(', ')}`),
+  template: z.enum(EXPORT_TEMPLATE_IDS, `template must be one of ${EXPORT_TEMPLATE_IDS.join(', ')}`).default('classic'),
+  analysisId: z.string().uuid('Invalid analysis').optional(),
+})
+
+/**
+ * Export a resume as an ATS-safe file
+ * Renders the extracted text, or the tailored resume for ?analysisId=, with ?format= and ?template=
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const { searchParams } = request.nextUrl
+
+  const validatedFields = exportSchema.safeParse({
+    format: searchParams.get('format') ?? undefined,
+    template: searchParams.get('template') ?? undefined,
+    analysisId: searchParams.get('analysisId') ?? undefined,
+  })
+
+  if (!validatedFields.success) {
+    return NextResponse.json(
+      { error: validatedFields.error.issues[0]?.message ?? 'Invalid input' },
+      { status: 400 }
+    )
+  }
+
+  const { format, template, analysisId } = validatedFields.data
+
+  try {
+    const supabase = await createClient()
+    const {
+      data: { user },
+      error: authError,
+    } = await supabase.auth.getUser()
+
+    if (authError || !user) {
+      return NextResponse.json({ error: 'You must be logged in to export a resume' }, { status: 401 })
+    }
+
+    const { data: resume, error: fetchError } = await supabase
+      .from('resumes')
+      .select('user_id, title, raw_text')
+      .eq('id', id)
+      .maybeSingle()
+
+    // Answer 404 for other users' resumes too, so ids cannot be probed
+    if (fetchError || !resume || resume.user_id !== user.id) {
+      return NextResponse.json({ error: 'Resume not found' }, { status: 404 })
+    }
+
+    let text: string | null = resume.raw_text
+    if (analysisId) {
+      const { data: tailored } = await supabase
+        .from('tailored_resumes')
+        .select('text')
+        .eq('analysis_id', analysisId)
+        .eq('resume_id', id)
+        .maybeSingle()
+
+      if (!tailored) {
+        return NextResponse.json({ error: 'Tailored resume not found' }, { status: 404 })
+      }
+      text = tailored.text
+    }
+
+    if (!text?.trim()) {
+      return NextResponse.json({ error: 'This resume has no extracted text to export' }, { status: 422 })
+    }
+
+    const file = await exportResume(text, { format, template, title: resume.title })
+    const baseName = resume.title.replace(/[^a-zA-Z0-9._ -]/g, '_')
+    const filename = `${analysisId ? `${baseName} (tailored)` : baseName}.${file.extension}`
+
+    return new NextResponse(file.body as BodyInit, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+        // Resume contents are private to the user
+        'Cache-Control': 'private, no-store',
+      },
+    })
+  } catch (error) {
+    console.error('Unexpected error in resume export:', error)
+    return NextResponse.json({ error: 'An unexpected error occurred' }, { status: 500 })
+  }
+}
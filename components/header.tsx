@@ -5,8 +5,13 @@ import { usePathname } from "next/navigation";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { signout } from "@/app/(auth)/actions";
+import { Coins } from "lucide-react";
 
-export function Header() {
+type HeaderProps = {
+  credits: number;
+};
+
+export function Header({ credits }: HeaderProps) {
   const pathname = usePathname();
 
   const navItems = [
@@ -25,6 +30,13 @@ export function Header() {
           CV Optima
         </Link>
         <nav className="flex items-center gap-2">
+          <span
+            className="mr-2 inline-flex items-center gap-1 text-sm text-zinc-500 dark:text-zinc-400"
+            title="Each analysis or rewrite uses one credit"
+          >
+            <Coins className="h-4 w-4" />
+            {credits} {credits === 1 ? "credit" : "credits"}
+          </span>
           {navItems.map((item) => {
             const isActive = pathname === item.href;
             return (
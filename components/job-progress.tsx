@@ -0,0 +1,124 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { CheckCircle, Circle, Loader2 } from "lucide-react";
+import { getJobStatus, type JobStatusResult } from "@/app/actions/jobs";
+import { createClient } from "@/lib/supabase/client";
+import { JOB_STAGES, getStageLabel } from "@/lib/jobs/stages";
+
+export type JobState = NonNullable<JobStatusResult["data"]>;
+
+// Realtime usually delivers updates first; polling covers dropped connections and kicks due retries
+const POLL_INTERVAL_MS = 4000;
+
+function isFinished(job: Pick<JobState, "status">) {
+  return job.status === "succeeded" || job.status === "failed";
+}
+
+/**
+ * Follow a background job until it succeeds or fails
+ * Subscribes to Realtime updates for the job and polls as a fallback.
+ * @returns The latest state of the job, or null until it has loaded
+ */
+export function useJob(jobId: string | null): JobState | null {
+  const [job, setJob] = useState<JobState | null>(null);
+
+  useEffect(() => {
+    if (!jobId) {
+      return;
+    }
+
+    let finished = false;
+    const update = (next: JobState) => {
+      if (finished) {
+        return;
+      }
+      finished = isFinished(next);
+      setJob(next);
+      if (finished) {
+        clearInterval(interval);
+      }
+    };
+
+    const poll = async () => {
+      const response = await getJobStatus(jobId);
+      if (response.success && response.data) {
+        update(response.data);
+      }
+    };
+
+    const supabase = createClient();
+    const channel = supabase
+      .channel(`job-${jobId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "jobs", filter: `id=eq.${jobId}` },
+        (payload) => update(payload.new as JobState)
+      )
+      .subscribe();
+
+    const interval = setInterval(poll, POLL_INTERVAL_MS);
+    poll();
+
+    return () => {
+      finished = true;
+      clearInterval(interval);
+      supabase.removeChannel(channel);
+    };
+  }, [jobId]);
+
+  // Ignore the state of a previous job until the new one has loaded
+  return job && job.id === jobId ? job : null;
+}
+
+interface JobProgressProps {
+  job: JobState | null;
+}
+
+/**
+ * Stage checklist and progress bar for a running job
+ */
+export function JobProgress({ job }: JobProgressProps) {
+  if (!job) {
+    return (
+      <p className="flex items-center gap-2 text-sm text-zinc-500">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        Starting...
+      </p>
+    );
+  }
+
+  const stages = JOB_STAGES[job.kind];
+  const currentIndex = isFinished(job) ? stages.length : stages.findIndex((stage) => stage.key === job.stage);
+
+  return (
+    <div className="space-y-3" aria-live="polite">
+      <div className="h-2 w-full overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+        <div className="h-full bg-zinc-900 transition-all dark:bg-zinc-100" style={{ width: `${job.progress}%` }} />
+      </div>
+      <ul className="space-y-1 text-sm">
+        {stages.map((stage, index) => (
+          <li
+            key={stage.key}
+            className={`flex items-center gap-2 ${index > currentIndex ? "text-zinc-400" : "text-zinc-700 dark:text-zinc-300"}`}
+          >
+            {index < currentIndex ? (
+              <CheckCircle className="h-4 w-4" />
+            ) : index === currentIndex ? (
+              <Loader2 className="h-4 w-4 animate-spin" />
+            ) : (
+              <Circle className="h-4 w-4" />
+            )}
+            {stage.label}
+          </li>
+        ))}
+      </ul>
+      {job.status === "queued" && job.attempts > 0 && (
+        <p className="text-xs text-zinc-500">
+          Attempt {job.attempts} of {job.max_attempts} failed while {getStageLabel(job.kind, job.stage).toLowerCase()}
+          {job.error ? ` (${job.error})` : ""}. Retrying shortly.
+        </p>
+      )}
+    </div>
+  );
+}
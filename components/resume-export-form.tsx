@@ -0,0 +1,69 @@
+import { Download } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  EXPORT_FORMAT_IDS,
+  EXPORT_FORMATS,
+  EXPORT_TEMPLATE_IDS,
+  EXPORT_TEMPLATES,
+  findUnsupportedPdfCharacters,
+} from "@/lib/export";
+
+// Unsupported characters named in the PDF warning
+const MAX_LISTED_CHARACTERS = 10;
+
+const fieldClassName =
+  "border-input w-full rounded-md border bg-transparent px-3 py-2 text-sm shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px] dark:bg-input/30";
+
+type ResumeExportFormProps = {
+  resumeId: string;
+  analysisId?: string; // Export this analysis' tailored resume instead of the extracted text
+  text: string; // Text the export is made from, checked for characters PDF cannot show
+};
+
+/**
+ * Format and template picker that downloads an export from the resume export route
+ * A plain GET form, so the browser handles the download without any client code.
+ */
+export function ResumeExportForm({ resumeId, analysisId, text }: ResumeExportFormProps) {
+  const idPrefix = analysisId ? `export-${analysisId}` : `export-${resumeId}`;
+  const unsupported = findUnsupportedPdfCharacters(text);
+
+  return (
+    <form
+      action={`/api/resumes/${resumeId}/export`}
+      method="get"
+      className="grid gap-4 sm:grid-cols-[1fr_1fr_auto] sm:items-end"
+    >
+      {analysisId && <input type="hidden" name="analysisId" value={analysisId} />}
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-format`} className="text-sm font-medium">Format</label>
+        <select id={`${idPrefix}-format`} name="format" defaultValue="docx" className={fieldClassName}>
+          {EXPORT_FORMAT_IDS.map((format) => (
+            <option key={format} value={format}>{EXPORT_FORMATS[format].label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="space-y-2">
+        <label htmlFor={`${idPrefix}-template`} className="text-sm font-medium">Template</label>
+        <select id={`${idPrefix}-template`} name="template" defaultValue="classic" className={fieldClassName}>
+          {EXPORT_TEMPLATE_IDS.map((template) => (
+            <option key={template} value={template}>
+              {EXPORT_TEMPLATES[template].label}: {EXPORT_TEMPLATES[template].description}
+            </option>
+          ))}
+        </select>
+      </div>
+      <Button type="submit" variant="outline">
+        <Download className="mr-2 h-4 w-4" />
+        Export
+      </Button>
+      {unsupported.length > 0 && (
+        <p className="text-sm text-amber-600 sm:col-span-3 dark:text-amber-500">
+          PDF exports use standard fonts without {unsupported.slice(0, MAX_LISTED_CHARACTERS).join(" ")}
+          {unsupported.length > MAX_LISTED_CHARACTERS && " …"}, so these are written without accents, as a close letter
+          (&quot;Ł&quot; as &quot;L&quot;) or as &quot;?&quot;. Choose DOCX to keep them as written.
+        </p>
+      )}
+    </form>
+  );
+}
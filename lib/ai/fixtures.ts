@@ -0,0 +1,127 @@
+/**
+ * Mock AI Fixtures
+ * Canned response templates used by the mock provider; `{keyword}` and `{text}` are substituted
+ */
+
+import type { CoverLetterTone, Suggestion } from '@/lib/types/database';
+import type { SummaryLength, SummaryTone } from './types';
+
+export type SuggestionFixture = Omit<Suggestion, 'original'>;
+
+/** Suggestions about a specific missing keyword, used in order */
+export const KEYWORD_SUGGESTION_FIXTURES: SuggestionFixture[] = [
+  {
+    type: 'bullet_point',
+    priority: 'high',
+    suggested: 'Add a bullet point that shows a concrete result you achieved with {keyword}.',
+    reason: 'The job description emphasizes {keyword}, and recruiters look for evidence of impact, not just a mention.',
+  },
+  {
+    type: 'keyword',
+    priority: 'medium',
+    suggested: 'Include {keyword} in your skills section if you have hands-on experience with it.',
+    reason: 'ATS filters often match skills sections literally, and {keyword} is currently missing.',
+  },
+  {
+    type: 'summary',
+    priority: 'medium',
+    suggested: 'Mention {keyword} in your professional summary to align it with the role.',
+    reason: 'The summary is the first section an ATS and a recruiter read.',
+  },
+];
+
+/** Suggestions returned when no keyword is missing */
+export const GENERAL_SUGGESTION_FIXTURES: SuggestionFixture[] = [
+  {
+    type: 'general',
+    priority: 'medium',
+    suggested: 'Quantify your achievements with numbers (%, $, time saved) wherever possible.',
+    reason: 'Measurable results make bullet points more persuasive to recruiters.',
+  },
+  {
+    type: 'general',
+    priority: 'low',
+    suggested: 'Mirror the exact job title from the posting in your summary or headline.',
+    reason: 'Many ATS rank candidates higher when the target title appears verbatim.',
+  },
+];
+
+/** Rewrite templates; each produces one candidate */
+export const REWRITE_FIXTURES: Array<{ withKeyword: string; withoutKeyword: string; reason: string }> = [
+  {
+    withKeyword: '{Text}, leveraging {keyword}',
+    withoutKeyword: '{Text}, delivering measurable results',
+    reason: 'Keeps your original action verb and adds the target keyword the ATS is looking for.',
+  },
+  {
+    withKeyword: 'Using {keyword}, {text}',
+    withoutKeyword: 'Working with cross-functional stakeholders, {text}',
+    reason: 'Leads with the target keyword so the ATS picks it up early in the line.',
+  },
+  {
+    withKeyword: 'Drove results with {keyword}: {text}',
+    withoutKeyword: 'Drove results: {text}',
+    reason: 'A results-first framing that highlights ownership.',
+  },
+];
+
+/** Summary templates, one candidate each; `{role}` and `{keywords}` are substituted */
+export const SUMMARY_FIXTURES: Array<{ length: SummaryLength; tone: SummaryTone; template: string }> = [
+  {
+    length: 'short',
+    tone: 'professional',
+    template: '{Role} with hands-on experience in {keywords}.',
+  },
+  {
+    length: 'medium',
+    tone: 'confident',
+    template: '{Role} who delivers results with {keywords}. Known for taking ownership from first design to production and raising the bar for the team.',
+  },
+  {
+    length: 'long',
+    tone: 'conversational',
+    template: "I'm a {role} who enjoys solving real problems with {keywords}. Over my career I have shipped work that customers rely on every day. I'm looking for a team where I can keep learning while helping others grow.",
+  },
+];
+
+/**
+ * Cover letter paragraphs per tone; `{role}`, `{atCompany}`, `{aCurrentRole}`, `{keywords}` and
+ * `{gaps}` are substituted. Longer letters add the experience and growth paragraphs.
+ */
+export const COVER_LETTER_FIXTURES: Record<CoverLetterTone, {
+  greeting: string;
+  opening: string;
+  experience: string;
+  skills: string;
+  growth: string;
+  closing: string;
+  signOff: string;
+}> = {
+  professional: {
+    greeting: 'Dear Hiring Manager,',
+    opening: 'I am writing to apply for the {role} position{atCompany}. My background as {aCurrentRole} has prepared me to contribute from the first day.',
+    experience: 'In my recent work I have taken projects from first design to production, working closely with colleagues across teams and holding myself to a high standard of quality.',
+    skills: 'My experience with {keywords} matches what you are looking for, and I have applied these skills to problems that real users depend on.',
+    growth: 'I am also keen to deepen my experience with {gaps}, and I pick up new tools quickly.',
+    closing: 'Thank you for considering my application. I would welcome the opportunity to discuss how I can support your team.',
+    signOff: 'Sincerely,',
+  },
+  enthusiastic: {
+    greeting: 'Dear Hiring Team,',
+    opening: 'I was excited to see the {role} opening{atCompany}! As {aCurrentRole}, this is exactly the kind of role I have been working toward.',
+    experience: "I love taking ownership of a problem and seeing it through, and the projects I'm proudest of are the ones where I did just that with a great team.",
+    skills: "I've built my work around {keywords}, and I would bring that energy to your team right away.",
+    growth: "I'm also eager to grow my skills in {gaps}, which I'd love to dig into with your team.",
+    closing: "Thank you so much for your time. I'd be thrilled to talk about how I can help.",
+    signOff: 'Best regards,',
+  },
+  conversational: {
+    greeting: 'Hello,',
+    opening: "I'd like to be considered for the {role} role{atCompany}. I currently work as {aCurrentRole}, and this role caught my eye right away.",
+    experience: 'Most of my work has been about understanding what people actually need and then building it well, one step at a time.',
+    skills: 'Day to day I work with {keywords}, which lines up well with what your team needs.',
+    growth: "I haven't worked much with {gaps} yet, and I'm looking forward to learning.",
+    closing: "Thanks for reading. I'd enjoy the chance to talk more.",
+    signOff: 'Best,',
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * AI Provider Registry
+ * Resolves the configured LLM provider; server-side only since it reads API keys
+ */
+
+import { createMockProvider } from './mock-provider';
+import { createOpenAIProvider } from './openai-provider';
+import type { AIProvider } from './types';
+
+export type {
+  AICoverLetterInput,
+  AICoverLetterResult,
+  AIProvider,
+  AIRewriteInput,
+  AIRewriteResult,
+  AIScoreInput,
+  AIScoreResult,
+  AISuggestInput,
+  AISuggestResult,
+  AISummaryInput,
+  AISummaryResult,
+  SummaryLength,
+  SummaryTone,
+} from './types';
+
+/**
+ * Get the AI provider selected by the AI_PROVIDER environment variable
+ * Outside production it falls back to the mock provider when no OpenAI API key is configured, so local dev
+ * and CI need no network. Production never serves fixture text unless AI_PROVIDER=mock asks for it.
+ */
+export function getAIProvider(name: string | undefined = process.env.AI_PROVIDER): AIProvider {
+  const providerName =
+    name || (process.env.OPENAI_API_KEY || process.env.NODE_ENV === 'production' ? 'openai' : 'mock');
+
+  switch (providerName) {
+    case 'mock':
+      return createMockProvider();
+    case 'openai': {
+      const apiKey = process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error('OPENAI_API_KEY must be set to use the openai AI provider');
+      }
+      return createOpenAIProvider({
+        apiKey,
+        baseUrl: process.env.OPENAI_BASE_URL || undefined,
+        model: process.env.OPENAI_MODEL || undefined,
+      });
+    }
+    default:
+      throw new Error(`Unknown AI provider: ${providerName}`);
+  }
+}
@@ -0,0 +1,160 @@
+/**
+ * Mock AI Provider
+ * Deterministic, fixture-based provider so the analyze flow runs end to end without network access
+ */
+
+import { scoreByKeywords } from '@/lib/scoring/keyword-engine';
+import {
+  COVER_LETTER_FIXTURES,
+  GENERAL_SUGGESTION_FIXTURES,
+  KEYWORD_SUGGESTION_FIXTURES,
+  REWRITE_FIXTURES,
+  SUMMARY_FIXTURES,
+} from './fixtures';
+import {
+  coverLetterResultSchema,
+  parseModelOutput,
+  rewriteResultSchema,
+  scoreResultSchema,
+  suggestResultSchema,
+  summaryResultSchema,
+} from './schemas';
+import type { AIProvider } from './types';
+
+// Same number of improvements the real prompt asks for
+const SUGGESTION_COUNT = 3;
+
+// Keywords worked into the short, medium and long summary
+const SUMMARY_KEYWORD_COUNTS = { short: 2, medium: 3, long: 4 } as const;
+
+// Keywords worked into a cover letter
+const COVER_LETTER_KEYWORD_COUNT = 4;
+
+/**
+ * Fill `{keyword}`, `{text}` and `{Text}` placeholders in a fixture template
+ */
+function fillTemplate(template: string, values: { keyword?: string; text?: string }): string {
+  const text = (values.text ?? '').trim().replace(/[.;]+$/, '');
+
+  return template
+    .replace(/\{keyword\}/g, values.keyword ?? '')
+    .replace(/\{Text\}/g, text.charAt(0).toUpperCase() + text.slice(1))
+    .replace(/\{text\}/g, text.charAt(0).toLowerCase() + text.slice(1));
+}
+
+/**
+ * Join words into an English list ("a, b and c")
+ */
+function joinList(items: string[], fallback: string): string {
+  return items.length > 1
+    ? `${items.slice(0, -1).join(', ')} and ${items[items.length - 1]}`
+    : items[0] ?? fallback;
+}
+
+/**
+ * Most recent job title from summary context experience lines ("Title at Company (dates)")
+ */
+function findLatestRole(experience: string[]): string {
+  const latestRole = experience.find((line) => !line.startsWith('Skills:'));
+  return latestRole?.split(/ at | \(/)[0]?.trim() || 'professional';
+}
+
+/**
+ * Fill `{role}`, `{Role}` and `{keywords}` placeholders in a summary fixture
+ */
+function fillSummaryTemplate(template: string, values: { role: string; keywords: string[] }): string {
+  const keywords = joinList(values.keywords, 'the core skills of the role');
+
+  return template
+    .replace(/\{keywords\}/g, keywords)
+    .replace(/\{Role\}/g, values.role.charAt(0).toUpperCase() + values.role.slice(1))
+    .replace(/\{role\}/g, values.role);
+}
+
+/**
+ * Create the mock provider
+ * Responses go through the same schemas as real model output, so fixtures cannot drift from the types
+ */
+export function createMockProvider(): AIProvider {
+  return {
+    name: 'mock',
+
+    async score(input) {
+      const result = scoreByKeywords(input);
+
+      return parseModelOutput(scoreResultSchema, {
+        matchScore: result.matchScore,
+        missingKeywords: result.missingKeywords,
+        formattingIssues: [],
+      });
+    },
+
+    async suggest({ missingKeywords }) {
+      const suggestions = missingKeywords.length > 0
+        ? missingKeywords.slice(0, SUGGESTION_COUNT).map((keyword, index) => {
+            const fixture = KEYWORD_SUGGESTION_FIXTURES[index % KEYWORD_SUGGESTION_FIXTURES.length];
+            return {
+              ...fixture,
+              suggested: fillTemplate(fixture.suggested, { keyword }),
+              reason: fillTemplate(fixture.reason, { keyword }),
+            };
+          })
+        : GENERAL_SUGGESTION_FIXTURES;
+
+      return parseModelOutput(suggestResultSchema, { suggestions });
+    },
+
+    async rewrite({ text, keywords }) {
+      const suggestions = REWRITE_FIXTURES.map((fixture, index) => {
+        const keyword = keywords.length > 0 ? keywords[index % keywords.length] : undefined;
+        return {
+          type: 'bullet_point',
+          priority: index === 0 ? 'high' : 'medium',
+          original: text,
+          suggested: fillTemplate(keyword ? fixture.withKeyword : fixture.withoutKeyword, { keyword, text }),
+          reason: fixture.reason,
+        };
+      });
+
+      return parseModelOutput(rewriteResultSchema, { suggestions });
+    },
+
+    async summarize({ experience, keywords }) {
+      // The most recent title stands in for the role
+      const role = findLatestRole(experience);
+      const summaries = SUMMARY_FIXTURES.map((fixture) => ({
+        length: fixture.length,
+        tone: fixture.tone,
+        text: fillSummaryTemplate(fixture.template, { role, keywords: keywords.slice(0, SUMMARY_KEYWORD_COUNTS[fixture.length]) }),
+      }));
+
+      return parseModelOutput(summaryResultSchema, { summaries });
+    },
+
+    async writeCoverLetter({ resumeText, jobTitle, companyName, experience, keywords, gaps, tone, length }) {
+      const fixture = COVER_LETTER_FIXTURES[tone];
+      const currentRole = findLatestRole(experience);
+      const values: Record<string, string> = {
+        role: jobTitle || 'open',
+        atCompany: companyName ? ` at ${companyName}` : '',
+        aCurrentRole: `${/^[aeiou]/i.test(currentRole) ? 'an' : 'a'} ${currentRole}`,
+        keywords: joinList(keywords.slice(0, COVER_LETTER_KEYWORD_COUNT), 'the core skills of the role'),
+        gaps: joinList(gaps.slice(0, 2), ''),
+      };
+
+      const paragraphs = [
+        fixture.opening,
+        length !== 'short' ? fixture.experience : '',
+        fixture.skills,
+        length === 'long' && gaps.length > 0 ? fixture.growth : '',
+        fixture.closing,
+      ].filter(Boolean).map((paragraph) => paragraph.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match));
+
+      // Resumes start with the candidate's name
+      const name = resumeText.split('\n').map((line) => line.trim()).find(Boolean) ?? '';
+      const text = [fixture.greeting, ...paragraphs, `${fixture.signOff}\n${name}`.trim()].join('\n\n');
+
+      return parseModelOutput(coverLetterResultSchema, { text });
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * OpenAI-Compatible AI Provider
+ * Calls any chat completions endpoint that follows the OpenAI API (OpenAI, Azure, Ollama, vLLM, ...)
+ */
+
+import {
+  buildCoverLetterPrompt,
+  buildRewritePrompt,
+  buildScorePrompt,
+  buildSuggestPrompt,
+  buildSummaryPrompt,
+  type ChatPrompt,
+} from './prompts';
+import {
+  coverLetterResultSchema,
+  parseModelOutput,
+  rewriteResultSchema,
+  scoreResultSchema,
+  suggestResultSchema,
+  summaryResultSchema,
+} from './schemas';
+import type { AIProvider } from './types';
+
+const DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+const DEFAULT_MODEL = 'gpt-4o';
+const REQUEST_TIMEOUT_MS = 60_000;
+
+export type OpenAIProviderConfig = {
+  apiKey: string;
+  baseUrl?: string;
+  model?: string;
+};
+
+type ChatCompletionResponse = {
+  choices?: Array<{
+    message?: {
+      content?: string | null;
+    };
+  }>;
+};
+
+/**
+ * Create a provider backed by an OpenAI-compatible HTTP API
+ */
+export function createOpenAIProvider({
+  apiKey,
+  baseUrl = DEFAULT_BASE_URL,
+  model = DEFAULT_MODEL,
+}: OpenAIProviderConfig): AIProvider {
+  async function complete(prompt: ChatPrompt): Promise<string> {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${apiKey}`,
+      },
+      body: JSON.stringify({
+        model,
+        temperature: 0.2,
+        response_format: { type: 'json_object' },
+        messages: [
+          { role: 'system', content: prompt.system },
+          { role: 'user', content: prompt.user },
+        ],
+      }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      const body = await response.text().catch(() => '');
+      console.error('AI provider error:', response.status, body);
+      throw new Error(`AI provider request failed with status ${response.status}`);
+    }
+
+    const data = (await response.json()) as ChatCompletionResponse;
+    const content = data.choices?.[0]?.message?.content;
+
+    if (!content) {
+      throw new Error('AI provider returned an empty response');
+    }
+
+    return content;
+  }
+
+  return {
+    name: 'openai',
+
+    async score(input) {
+      return parseModelOutput(scoreResultSchema, await complete(buildScorePrompt(input)));
+    },
+
+    async suggest(input) {
+      return parseModelOutput(suggestResultSchema, await complete(buildSuggestPrompt(input)));
+    },
+
+    async rewrite(input) {
+      return parseModelOutput(rewriteResultSchema, await complete(buildRewritePrompt(input)));
+    },
+
+    async summarize(input) {
+      return parseModelOutput(summaryResultSchema, await complete(buildSummaryPrompt(input)));
+    },
+
+    async writeCoverLetter(input) {
+      return parseModelOutput(coverLetterResultSchema, await complete(buildCoverLetterPrompt(input)));
+    },
+  };
+}
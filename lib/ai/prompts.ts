@@ -0,0 +1,114 @@
+/**
+ * AI Prompt Builders
+ * System and user prompts for each AI operation; every response is requested as JSON
+ */
+
+import type { AICoverLetterInput, AIRewriteInput, AIScoreInput, AISuggestInput, AISummaryInput } from './types';
+
+export type ChatPrompt = {
+  system: string;
+  user: string;
+};
+
+const SYSTEM_PROMPT =
+  'You are an Applicant Tracking System (ATS) and an expert resume writer. ' +
+  'Always answer with a single JSON object that follows the requested shape exactly, without markdown fences.';
+
+export function buildScorePrompt({ resumeText, jobDescription }: AIScoreInput): ChatPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: [
+      'Act as an ATS. Compare Resume A against Job Description B.',
+      'Return JSON: {"matchScore": integer 0-100, "missingKeywords": string[], "formattingIssues": ' +
+        '[{"type": "table"|"column"|"image"|"special_char"|"other", "severity": "high"|"medium"|"low", "description": string, "location"?: string}]}',
+      `Resume A:\n"""\n${resumeText}\n"""`,
+      `Job Description B:\n"""\n${jobDescription}\n"""`,
+    ].join('\n\n'),
+  };
+}
+
+export function buildSuggestPrompt({ resumeText, jobDescription, missingKeywords }: AISuggestInput): ChatPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: [
+      'Give 3 actionable improvements that make the resume a better match for the job description.',
+      missingKeywords.length > 0 ? `Keywords missing from the resume: ${missingKeywords.join(', ')}` : '',
+      'Return JSON: {"suggestions": [{"type": "keyword"|"bullet_point"|"summary"|"general", ' +
+        '"priority": "high"|"medium"|"low", "original"?: string, "suggested": string, "reason": string}]}',
+      `Resume:\n"""\n${resumeText}\n"""`,
+      `Job Description:\n"""\n${jobDescription}\n"""`,
+    ].filter(Boolean).join('\n\n'),
+  };
+}
+
+export function buildRewritePrompt({ text, jobDescription, keywords }: AIRewriteInput): ChatPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: [
+      'Rewrite the resume bullet point below into 3 alternative versions for the job description.',
+      'Keep every claim truthful, start with a strong action verb and keep each version to one sentence.',
+      keywords.length > 0 ? `Work these keywords in naturally where they fit: ${keywords.join(', ')}` : '',
+      'Return JSON: {"suggestions": [{"type": "bullet_point", "priority": "high"|"medium"|"low", ' +
+        '"original": string, "suggested": string, "reason": string}]}',
+      `Bullet point:\n"""\n${text}\n"""`,
+      `Job Description:\n"""\n${jobDescription}\n"""`,
+    ].filter(Boolean).join('\n\n'),
+  };
+}
+
+export function buildSummaryPrompt({ resumeText, jobDescription, experience, requirements, keywords }: AISummaryInput): ChatPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: [
+      'Write 3 professional summaries for the top of this resume, tailored to the job description: ' +
+        'a short one (1-2 sentences, professional tone), a medium one (2-3 sentences, confident tone) ' +
+        'and a long one (3-4 sentences, conversational tone).',
+      'Only claim experience the resume supports and do not invent employers, numbers or skills.',
+      experience.length > 0 ? `Candidate experience:\n${experience.map(line => `- ${line}`).join('\n')}` : '',
+      requirements.length > 0 ? `Key requirements of the role:\n${requirements.map(line => `- ${line}`).join('\n')}` : '',
+      keywords.length > 0 ? `Cover as many of these keywords as fit naturally: ${keywords.join(', ')}` : '',
+      'Return JSON: {"summaries": [{"length": "short"|"medium"|"long", ' +
+        '"tone": "professional"|"confident"|"conversational", "text": string}]}',
+      `Resume:\n"""\n${resumeText}\n"""`,
+      `Job Description:\n"""\n${jobDescription}\n"""`,
+    ].filter(Boolean).join('\n\n'),
+  };
+}
+
+const COVER_LETTER_LENGTHS = {
+  short: '3 short paragraphs, about 150 words',
+  medium: '4 paragraphs, about 250 words',
+  long: '5 paragraphs, about 350 words',
+} as const;
+
+export function buildCoverLetterPrompt({
+  resumeText,
+  jobDescription,
+  jobTitle,
+  companyName,
+  experience,
+  requirements,
+  keywords,
+  gaps,
+  tone,
+  length,
+}: AICoverLetterInput): ChatPrompt {
+  return {
+    system: SYSTEM_PROMPT,
+    user: [
+      `Write a cover letter for the ${jobTitle || 'role'}${companyName ? ` at ${companyName}` : ''} in the job description, ` +
+        `in a ${tone} tone and ${COVER_LETTER_LENGTHS[length]}. Open with a greeting and close with a sign-off ` +
+        'followed by the candidate\'s name from the resume.',
+      'Only claim experience the resume supports and do not invent employers, numbers or skills.',
+      experience.length > 0 ? `Candidate experience:\n${experience.map(line => `- ${line}`).join('\n')}` : '',
+      requirements.length > 0 ? `Key requirements of the role:\n${requirements.map(line => `- ${line}`).join('\n')}` : '',
+      keywords.length > 0 ? `Work in these keywords the resume supports where they fit: ${keywords.join(', ')}` : '',
+      gaps.length > 0
+        ? `The resume does not show these; do not claim them, but you may express interest in growing into them: ${gaps.join(', ')}`
+        : '',
+      'Return JSON: {"text": string} with plain text paragraphs separated by blank lines and no markdown.',
+      `Resume:\n"""\n${resumeText}\n"""`,
+      `Job Description:\n"""\n${jobDescription}\n"""`,
+    ].filter(Boolean).join('\n\n'),
+  };
+}
@@ -0,0 +1,76 @@
+/**
+ * AI Response Schemas
+ * Zod schemas used to reject malformed model output before it reaches the database
+ */
+
+import { z } from 'zod';
+import type { FormattingIssue, Suggestion } from '@/lib/types/database';
+import type { AICoverLetterResult, AIRewriteResult, AIScoreResult, AISuggestResult, AISummaryResult } from './types';
+
+const prioritySchema = z.enum(['high', 'medium', 'low']);
+
+export const suggestionSchema = z.object({
+  type: z.enum(['keyword', 'bullet_point', 'summary', 'general']),
+  priority: prioritySchema,
+  original: z.string().min(1).optional(),
+  suggested: z.string().min(1),
+  reason: z.string().min(1),
+}) satisfies z.ZodType<Suggestion>;
+
+export const formattingIssueSchema = z.object({
+  type: z.enum(['table', 'column', 'image', 'special_char', 'other']),
+  severity: prioritySchema,
+  description: z.string().min(1),
+  location: z.string().min(1).optional(),
+}) satisfies z.ZodType<FormattingIssue>;
+
+export const scoreResultSchema = z.object({
+  matchScore: z.number().int().min(0).max(100),
+  missingKeywords: z.array(z.string().min(1)),
+  formattingIssues: z.array(formattingIssueSchema).default([]),
+}) satisfies z.ZodType<AIScoreResult>;
+
+export const suggestResultSchema = z.object({
+  suggestions: z.array(suggestionSchema),
+}) satisfies z.ZodType<AISuggestResult>;
+
+export const rewriteResultSchema = z.object({
+  suggestions: z.array(suggestionSchema.extend({ original: z.string().min(1) })).min(1),
+}) satisfies z.ZodType<AIRewriteResult>;
+
+export const summaryResultSchema = z.object({
+  summaries: z.array(z.object({
+    length: z.enum(['short', 'medium', 'long']),
+    tone: z.enum(['professional', 'confident', 'conversational']),
+    text: z.string().min(1),
+  })).min(2).max(3),
+}) satisfies z.ZodType<AISummaryResult>;
+
+export const coverLetterResultSchema = z.object({
+  text: z.string().trim().min(1).max(10000),
+}) satisfies z.ZodType<AICoverLetterResult>;
+
+/**
+ * Parse raw model output (a JSON string or an already decoded value) against a schema
+ * @throws Error when the output is not valid JSON or does not match the schema
+ */
+export function parseModelOutput<T>(schema: z.ZodType<T>, raw: unknown): T {
+  let value = raw;
+
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      throw new Error('AI provider returned invalid JSON');
+    }
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    const path = issue?.path.join('.') || 'response';
+    throw new Error(`AI provider returned malformed output at "${path}": ${issue?.message}`);
+  }
+
+  return result.data;
+}
@@ -0,0 +1,84 @@
+/**
+ * AI Provider Types
+ * Contract for every LLM backend used for scoring, suggestions and rewriting
+ */
+
+import type { CoverLetterLength, CoverLetterTone, FormattingIssue, Suggestion } from '@/lib/types/database';
+
+export type AIScoreInput = {
+  resumeText: string;
+  jobDescription: string;
+};
+
+export type AIScoreResult = {
+  matchScore: number; // 0-100
+  missingKeywords: string[];
+  formattingIssues: FormattingIssue[];
+};
+
+export type AISuggestInput = {
+  resumeText: string;
+  jobDescription: string;
+  missingKeywords: string[];
+};
+
+export type AISuggestResult = {
+  suggestions: Suggestion[];
+};
+
+export type AIRewriteInput = {
+  text: string; // The bullet point or sentence to rewrite
+  jobDescription: string;
+  keywords: string[]; // Keywords to work in naturally
+};
+
+export type AIRewriteResult = {
+  suggestions: Suggestion[]; // Rewrite candidates, each with `original` set
+};
+
+export type SummaryLength = 'short' | 'medium' | 'long';
+
+export type SummaryTone = 'professional' | 'confident' | 'conversational';
+
+export type AISummaryInput = {
+  resumeText: string;
+  jobDescription: string;
+  experience: string[]; // Recent roles and skills identified in the resume
+  requirements: string[]; // Key requirements identified in the job description
+  keywords: string[]; // Job keywords the resume supports
+};
+
+export type AISummaryResult = {
+  summaries: Array<{
+    length: SummaryLength;
+    tone: SummaryTone;
+    text: string;
+  }>;
+};
+
+export type AICoverLetterInput = {
+  resumeText: string;
+  jobDescription: string;
+  jobTitle: string | null;
+  companyName: string | null;
+  experience: string[]; // Recent roles and skills identified in the resume
+  requirements: string[]; // Key requirements identified in the job description
+  keywords: string[]; // Job keywords the resume supports
+  gaps: string[]; // Job keywords the resume is missing
+  tone: CoverLetterTone;
+  length: CoverLetterLength;
+};
+
+export type AICoverLetterResult = {
+  text: string; // Plain text, paragraphs separated by blank lines
+};
+
+export interface AIProvider {
+  /** Identifier used to select the provider, e.g. "openai" or "mock" */
+  readonly name: string;
+  score(input: AIScoreInput): Promise<AIScoreResult>;
+  suggest(input: AISuggestInput): Promise<AISuggestResult>;
+  rewrite(input: AIRewriteInput): Promise<AIRewriteResult>;
+  summarize(input: AISummaryInput): Promise<AISummaryResult>;
+  writeCoverLetter(input: AICoverLetterInput): Promise<AICoverLetterResult>;
+}
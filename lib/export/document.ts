@@ -0,0 +1,99 @@
+/**
+ * Export Document Model
+ * Turns extracted resume text into a flat list of single-column blocks the writers lay out
+ */
+
+import { isSectionHeading } from '@/lib/parsing/resume-parser';
+import { isBullet, stripBullet } from '@/lib/parsing/text-utils';
+
+export type ExportBlock =
+  | { kind: 'name'; text: string }
+  | { kind: 'contact'; text: string }
+  | { kind: 'heading'; text: string }
+  | { kind: 'bullet'; text: string }
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'break' };
+
+// Page markers pdf-parse appends to each page ("-- 1 of 2 --")
+const PAGE_MARKER = /^--\s*\d+\s+of\s+\d+\s*--$/;
+
+/**
+ * Build export blocks from resume text
+ * The first line is the name and the rest of the lines before the first section heading are
+ * contact details. Blank lines become breaks, collapsed and dropped next to headings so templates own
+ * the spacing around them.
+ */
+export function buildExportDocument(text: string): ExportBlock[] {
+  const lines = text.split(/\r?\n/);
+  const blocks: ExportBlock[] = [];
+  // Without any section heading only the name line is treated as the header
+  const hasHeadings = lines.some(isSectionHeading);
+  let inHeader = true;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trim().replace(/\s+/g, ' ');
+    const previous = blocks[blocks.length - 1];
+
+    if (line.length === 0 || PAGE_MARKER.test(line)) {
+      if (previous && previous.kind !== 'break' && previous.kind !== 'heading') {
+        blocks.push({ kind: 'break' });
+      }
+      continue;
+    }
+
+    if (isSectionHeading(line)) {
+      inHeader = false;
+      if (previous?.kind === 'break') {
+        blocks.pop();
+      }
+      blocks.push({ kind: 'heading', text: line.replace(/:$/, '') });
+      continue;
+    }
+
+    if (inHeader) {
+      blocks.push({ kind: blocks.some((block) => block.kind === 'name') ? 'contact' : 'name', text: line });
+      inHeader = hasHeadings;
+      continue;
+    }
+
+    if (isBullet(line)) {
+      blocks.push({ kind: 'bullet', text: stripBullet(line) });
+    } else if (previous?.kind === 'bullet' && /^[a-z(]/.test(line)) {
+      // A lowercase line right after a bullet continues the wrapped bullet
+      previous.text += ` ${line}`;
+    } else {
+      blocks.push({ kind: 'paragraph', text: line });
+    }
+  }
+
+  if (blocks[blocks.length - 1]?.kind === 'break') {
+    blocks.pop();
+  }
+
+  // Breaks inside the header only separate contact lines, which are laid out together anyway
+  return blocks.filter((block, index) => block.kind !== 'break' || blocks[index + 1]?.kind !== 'contact');
+}
+
+/**
+ * Build export blocks from cover letter text
+ * Letters have no sections, so every line is a paragraph and blank lines separate paragraphs.
+ */
+export function buildLetterDocument(text: string): ExportBlock[] {
+  const blocks: ExportBlock[] = [];
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim().replace(/\s+/g, ' ');
+    const previous = blocks[blocks.length - 1];
+
+    if (line.length > 0) {
+      blocks.push({ kind: 'paragraph', text: line });
+    } else if (previous && previous.kind !== 'break') {
+      blocks.push({ kind: 'break' });
+    }
+  }
+
+  if (blocks[blocks.length - 1]?.kind === 'break') {
+    blocks.pop();
+  }
+  return blocks;
+}
@@ -0,0 +1,144 @@
+/**
+ * DOCX Writer
+ * Builds a minimal WordprocessingML package with JSZip: one column, built-in heading and list
+ * styles, and no tables, text boxes, headers or footers for an ATS to trip over
+ */
+
+import JSZip from 'jszip';
+import type { ExportBlock } from './document';
+import { formatHeading, type TemplateStyle } from './templates';
+
+// US Letter in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+
+const BULLET_NUMBERING_ID = 1;
+
+/**
+ * Escape text for XML, dropping control characters XML 1.0 does not allow
+ */
+function escapeXml(text: string): string {
+  return text
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const twips = (points: number) => Math.round(points * 20);
+const halfPoints = (points: number) => Math.round(points * 2);
+
+function paragraph(text: string, properties = ''): string {
+  const run = text ? `<w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>` : '';
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${run}</w:p>`;
+}
+
+function buildDocumentXml(blocks: ExportBlock[], style: TemplateStyle): string {
+  const center = style.centerHeader ? '<w:jc w:val="center"/>' : '';
+
+  const body = blocks.map((block) => {
+    switch (block.kind) {
+      case 'name':
+        return paragraph(block.text, `<w:pStyle w:val="Title"/>${center}`);
+      case 'contact':
+        return paragraph(block.text, center);
+      case 'heading':
+        return paragraph(formatHeading(block.text, style), '<w:pStyle w:val="Heading1"/>');
+      case 'bullet':
+        return paragraph(
+          block.text,
+          `<w:pStyle w:val="ListBullet"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${BULLET_NUMBERING_ID}"/></w:numPr>`
+        );
+      case 'break':
+        return paragraph('', `<w:spacing w:before="0" w:after="0" w:line="${twips(style.breakSpace)}" w:lineRule="exact"/>`);
+      case 'paragraph':
+        return paragraph(block.text);
+    }
+  });
+
+  const margin = twips(style.margin);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>
+${body.join('\n')}
+<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/><w:pgMar w:top="${margin}" w:right="${margin}" w:bottom="${margin}" w:left="${margin}" w:header="0" w:footer="0" w:gutter="0"/></w:sectPr>
+</w:body>
+</w:document>`;
+}
+
+function buildStylesXml(style: TemplateStyle): string {
+  const font = escapeXml(style.font.docx);
+  const fonts = `<w:rFonts w:ascii="${font}" w:hAnsi="${font}" w:cs="${font}" w:eastAsia="${font}"/>`;
+  const line = Math.round(240 * style.lineHeight);
+  const rule = style.headingRule
+    ? '<w:pBdr><w:bottom w:val="single" w:sz="4" w:space="1" w:color="auto"/></w:pBdr>'
+    : '';
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr>${fonts}<w:color w:val="000000"/><w:sz w:val="${halfPoints(style.bodySize)}"/><w:szCs w:val="${halfPoints(style.bodySize)}"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:before="0" w:after="0" w:line="${line}" w:lineRule="auto"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="${twips(4)}"/></w:pPr><w:rPr><w:b/><w:bCs/><w:sz w:val="${halfPoints(style.nameSize)}"/><w:szCs w:val="${halfPoints(style.nameSize)}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/>${rule}<w:spacing w:before="${twips(style.headingSpaceBefore)}" w:after="${twips(4)}"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:bCs/><w:sz w:val="${halfPoints(style.headingSize)}"/><w:szCs w:val="${halfPoints(style.headingSize)}"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="ListBullet"><w:name w:val="List Bullet"/><w:basedOn w:val="Normal"/><w:qFormat/></w:style>
+</w:styles>`;
+}
+
+function buildNumberingXml(): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:numbering xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/><w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="bullet"/><w:lvlText w:val="•"/><w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr></w:lvl></w:abstractNum>
+<w:num w:numId="${BULLET_NUMBERING_ID}"><w:abstractNumId w:val="0"/></w:num>
+</w:numbering>`;
+}
+
+function buildCorePropertiesXml(title: string): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">
+<dc:title>${escapeXml(title)}</dc:title>
+<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>
+</cp:coreProperties>`;
+}
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+<Override PartName="/word/numbering.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml"/>
+<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>
+</Types>`;
+
+const PACKAGE_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/numbering" Target="numbering.xml"/>
+</Relationships>`;
+
+/**
+ * Render blocks as a DOCX file
+ * @param title - Stored as the document title
+ */
+export async function writeDOCX(blocks: ExportBlock[], style: TemplateStyle, title: string): Promise<Uint8Array> {
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES_XML);
+  zip.file('_rels/.rels', PACKAGE_RELS_XML);
+  zip.file('docProps/core.xml', buildCorePropertiesXml(title));
+  zip.file('word/document.xml', buildDocumentXml(blocks, style));
+  zip.file('word/styles.xml', buildStylesXml(style));
+  zip.file('word/numbering.xml', buildNumberingXml());
+  zip.file('word/_rels/document.xml.rels', DOCUMENT_RELS_XML);
+
+  return zip.generateAsync({ type: 'uint8array', compression: 'DEFLATE' });
+}
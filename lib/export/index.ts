@@ -0,0 +1,92 @@
+/**
+ * Resume Export
+ * Renders resume text as an ATS-safe download (DOCX, PDF, plain text or Markdown), and cover
+ * letters with the same writers, without any external service
+ */
+
+import { buildExportDocument, buildLetterDocument, type ExportBlock } from './document';
+import { writeDOCX } from './docx-writer';
+import { writePDF } from './pdf-writer';
+import { EXPORT_TEMPLATES, type ExportTemplate } from './templates';
+import { writeMarkdown, writeText } from './text-writer';
+
+export { buildExportDocument, buildLetterDocument, type ExportBlock } from './document';
+export { findUnsupportedPdfCharacters } from './pdf-fonts';
+export { EXPORT_TEMPLATE_IDS, EXPORT_TEMPLATES, type ExportTemplate, type TemplateStyle } from './templates';
+
+export type ExportFormat = 'docx' | 'pdf' | 'txt' | 'md';
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; contentType: string }> = {
+  docx: {
+    label: 'Word (DOCX)',
+    contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  },
+  pdf: { label: 'PDF', contentType: 'application/pdf' },
+  txt: { label: 'Plain text', contentType: 'text/plain; charset=utf-8' },
+  md: { label: 'Markdown', contentType: 'text/markdown; charset=utf-8' },
+};
+
+export const EXPORT_FORMAT_IDS = Object.keys(EXPORT_FORMATS) as ExportFormat[];
+
+// Cover letters are edited and sent as documents, so there is no PDF option
+export const COVER_LETTER_FORMAT_IDS = ['docx', 'txt', 'md'] as const satisfies ExportFormat[];
+
+export type CoverLetterFormat = (typeof COVER_LETTER_FORMAT_IDS)[number];
+
+// Letters are prose, so they use the plain serif layout
+const COVER_LETTER_TEMPLATE: ExportTemplate = 'classic';
+
+export type ExportedFile = {
+  body: Uint8Array | string;
+  contentType: string;
+  extension: ExportFormat;
+};
+
+/**
+ * Render resume text as a file
+ * @param text - Extracted or tailored resume text
+ * @param options.template - Layout for DOCX and PDF; ignored for text formats
+ * @param options.title - Document title stored in DOCX and PDF metadata
+ */
+export async function exportResume(
+  text: string,
+  { format, template, title }: { format: ExportFormat; template: ExportTemplate; title: string }
+): Promise<ExportedFile> {
+  return renderBlocks(buildExportDocument(text), { format, template, title });
+}
+
+/**
+ * Render cover letter text as a file
+ * @param options.title - Document title stored in DOCX metadata
+ */
+export async function exportCoverLetter(
+  text: string,
+  { format, title }: { format: CoverLetterFormat; title: string }
+): Promise<ExportedFile> {
+  return renderBlocks(buildLetterDocument(text), { format, template: COVER_LETTER_TEMPLATE, title });
+}
+
+async function renderBlocks(
+  blocks: ExportBlock[],
+  { format, template, title }: { format: ExportFormat; template: ExportTemplate; title: string }
+): Promise<ExportedFile> {
+  const style = EXPORT_TEMPLATES[template];
+
+  let body: Uint8Array | string;
+  switch (format) {
+    case 'docx':
+      body = await writeDOCX(blocks, style, title);
+      break;
+    case 'pdf':
+      body = writePDF(blocks, style, title);
+      break;
+    case 'txt':
+      body = writeText(blocks);
+      break;
+    case 'md':
+      body = writeMarkdown(blocks);
+      break;
+  }
+
+  return { body, contentType: EXPORT_FORMATS[format].contentType, extension: format };
+}
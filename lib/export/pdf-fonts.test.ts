@@ -0,0 +1,24 @@
+import { describe, expect, it } from 'vitest';
+import { encodeWinAnsi, findUnsupportedPdfCharacters } from './pdf-fonts';
+
+const decode = (codes: number[]) => String.fromCharCode(...codes);
+
+describe('encodeWinAnsi', () => {
+  it('keeps Latin-1 letters and typographic punctuation', () => {
+    expect(decode(encodeWinAnsi('Café “Zoë”'))).toBe('Café \x93Zoë\x94');
+  });
+
+  it('transliterates letters the standard fonts cannot show', () => {
+    expect(decode(encodeWinAnsi('Łukasz Dvořák, Đorđe Őz'))).toBe('Lukasz Dvorák, Dorde Oz');
+  });
+
+  it('falls back to "?" for characters without a close letter', () => {
+    expect(decode(encodeWinAnsi('王'))).toBe('?');
+  });
+});
+
+describe('findUnsupportedPdfCharacters', () => {
+  it('lists each character that is not written as is once', () => {
+    expect(findUnsupportedPdfCharacters('Łukasz Łódź – café')).toEqual(['Ł', 'ź']);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Standard PDF Font Metrics
+ * Glyph widths from the Adobe AFM files for the standard Type 1 fonts every PDF reader ships,
+ * so exported PDFs need no embedded fonts and still wrap text correctly
+ */
+
+export type PdfFont = 'Helvetica' | 'Helvetica-Bold' | 'Times-Roman' | 'Times-Bold';
+
+// Widths in 1/1000 em for character codes 32 (space) to 126 (~)
+const ASCII_WIDTHS: Record<PdfFont, number[]> = {
+  Helvetica: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  'Helvetica-Bold': [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+  'Times-Roman': [
+    250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+    921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+    556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+    333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+    500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541,
+  ],
+  'Times-Bold': [
+    250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+    500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+    930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+    611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+    333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+    556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520,
+  ],
+};
+
+// WinAnsiEncoding codes for the characters outside Latin-1 that resumes commonly use
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88,
+  '‰': 0x89, 'Š': 0x8a, '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b,
+  'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Widths of the non-ASCII glyphs that differ a lot from a lowercase letter
+const EXTRA_WIDTHS: Record<number, number> = {
+  0x85: 1000, // ellipsis
+  0x91: 333, 0x92: 333, 0x93: 444, 0x94: 444, // curly quotes
+  0x95: 350, // bullet
+  0x96: 500, // en dash
+  0x97: 1000, // em dash
+  0xa0: 250, // no-break space
+};
+
+// Letters without a WinAnsi glyph that do not decompose into a base letter and an accent
+const TRANSLITERATIONS: Record<string, string> = {
+  'Ł': 'L', 'ł': 'l', 'Đ': 'D', 'đ': 'd', 'Ħ': 'H', 'ħ': 'h', 'ı': 'i', 'Ŧ': 'T', 'ŧ': 't',
+  'Ŀ': 'L', 'ŀ': 'l', 'ĸ': 'k', 'Ŋ': 'N', 'ŋ': 'n', 'ſ': 's', 'Ə': 'E', 'ə': 'e',
+};
+
+const FALLBACK_CODE = 0x3f; // "?"
+
+function toWinAnsiCode(char: string): number | undefined {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code <= 126) || (code >= 0xa0 && code <= 0xff)) {
+    return code;
+  }
+  return WIN_ANSI_EXTRAS[char];
+}
+
+/**
+ * Codes for one character: its own glyph, the letters without accents ("ő" as "o", "ﬁ" as "fi"),
+ * a close letter for the few that do not decompose ("Ł" as "L"), or "?"
+ */
+function encodeChar(char: string): number[] {
+  const code = toWinAnsiCode(char);
+  if (code !== undefined) {
+    return [code];
+  }
+
+  const base = [...char.normalize('NFKD').replace(/[\u0300-\u036f]/g, '')].map(toWinAnsiCode);
+  if (base.length > 0 && base.every((baseCode) => baseCode !== undefined)) {
+    return base as number[];
+  }
+
+  const transliteration = TRANSLITERATIONS[char];
+  return transliteration ? [...transliteration].map((letter) => letter.charCodeAt(0)) : [FALLBACK_CODE];
+}
+
+/**
+ * Encode text as WinAnsi byte codes, transliterating characters the standard fonts cannot show
+ */
+export function encodeWinAnsi(text: string): number[] {
+  return [...text].flatMap(encodeChar);
+}
+
+/**
+ * Characters of the text that the standard fonts cannot show as written, each listed once
+ * They are exported without accents, as a close letter, or as "?"; DOCX keeps them
+ */
+export function findUnsupportedPdfCharacters(text: string): string[] {
+  return [...new Set([...text].filter((char) => char.trim() && toWinAnsiCode(char) === undefined))];
+}
+
+/**
+ * Width of WinAnsi-encoded text in points
+ */
+export function measureCodes(codes: number[], font: PdfFont, size: number): number {
+  const widths = ASCII_WIDTHS[font];
+  // Accented letters and other Latin-1 glyphs are about as wide as an "o"
+  const fallback = widths['o'.charCodeAt(0) - 32];
+
+  const total = codes.reduce(
+    (sum, code) => sum + (code >= 32 && code <= 126 ? widths[code - 32] : EXTRA_WIDTHS[code] ?? fallback),
+    0
+  );
+  return (total * size) / 1000;
+}
@@ -0,0 +1,241 @@
+/**
+ * PDF Writer
+ * Lays out export blocks in one column and writes a PDF 1.4 file by hand, using the standard
+ * Type 1 fonts with WinAnsi encoding so every line stays selectable, searchable text
+ */
+
+import type { ExportBlock } from './document';
+import { encodeWinAnsi, measureCodes, type PdfFont } from './pdf-fonts';
+import { formatHeading, type TemplateStyle } from './templates';
+
+// US Letter in points
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+// Bullet text is indented past the bullet glyph
+const BULLET_INDENT = 12;
+
+const FONT_RESOURCES = { regular: 'F1', bold: 'F2' } as const;
+
+type FontWeight = keyof typeof FONT_RESOURCES;
+
+type Line = {
+  codes: number[];
+  x: number;
+  weight: FontWeight;
+  size: number;
+  bullet?: boolean; // Draw a bullet glyph in the margin before the line
+};
+
+// WinAnsi code of the bullet glyph
+const BULLET_CODE = 0x95;
+
+function fontFor(style: TemplateStyle, weight: FontWeight): PdfFont {
+  if (style.font.pdf === 'Times') {
+    return weight === 'bold' ? 'Times-Bold' : 'Times-Roman';
+  }
+  return weight === 'bold' ? 'Helvetica-Bold' : 'Helvetica';
+}
+
+/**
+ * Greedy word wrap; words wider than a whole line are split between characters
+ */
+function wrapCodes(codes: number[], font: PdfFont, size: number, maxWidth: number): number[][] {
+  const SPACE = 32;
+  const lines: number[][] = [];
+  let current: number[] = [];
+
+  const words: number[][] = [];
+  let word: number[] = [];
+  for (const code of codes) {
+    if (code === SPACE) {
+      words.push(word);
+      word = [];
+    } else {
+      word.push(code);
+    }
+  }
+  words.push(word);
+
+  for (let word of words.filter((candidate) => candidate.length > 0)) {
+    const candidate = current.length > 0 ? [...current, SPACE, ...word] : word;
+    if (measureCodes(candidate, font, size) <= maxWidth) {
+      current = candidate;
+      continue;
+    }
+
+    if (current.length > 0) {
+      lines.push(current);
+    }
+    while (measureCodes(word, font, size) > maxWidth) {
+      let fit = word.length - 1;
+      while (fit > 1 && measureCodes(word.slice(0, fit), font, size) > maxWidth) {
+        fit--;
+      }
+      lines.push(word.slice(0, fit));
+      word = word.slice(fit);
+    }
+    current = word;
+  }
+
+  if (current.length > 0) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+function toHex(codes: number[]): string {
+  return codes.map((code) => code.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Lay out blocks into page content streams
+ */
+function layoutPages(blocks: ExportBlock[], style: TemplateStyle): string[] {
+  const contentWidth = PAGE_WIDTH - style.margin * 2;
+  const top = PAGE_HEIGHT - style.margin;
+  const pages: string[][] = [[]];
+  let y = top;
+
+  const newPage = () => {
+    pages.push([]);
+    y = top;
+  };
+
+  const drawText = (codes: number[], x: number, baseline: number, weight: FontWeight, size: number) => {
+    pages[pages.length - 1].push(
+      `BT /${FONT_RESOURCES[weight]} ${size} Tf ${x.toFixed(2)} ${baseline.toFixed(2)} Td <${toHex(codes)}> Tj ET`
+    );
+  };
+
+  const drawLine = ({ codes, x, weight, size, bullet }: Line) => {
+    const advance = size * style.lineHeight;
+    if (y - advance < style.margin) {
+      newPage();
+    }
+    y -= advance;
+    // Baseline sits a little above the bottom of the line box
+    const baseline = y + (advance - size) / 2 + size * 0.2;
+    if (bullet) {
+      drawText([BULLET_CODE], style.margin + 2, baseline, weight, size);
+    }
+    drawText(codes, x, baseline, weight, size);
+  };
+
+  const drawWrapped = (text: string, weight: FontWeight, size: number, center = false) => {
+    const font = fontFor(style, weight);
+    for (const codes of wrapCodes(encodeWinAnsi(text), font, size, contentWidth)) {
+      const x = center ? (PAGE_WIDTH - measureCodes(codes, font, size)) / 2 : style.margin;
+      drawLine({ codes, x, weight, size });
+    }
+  };
+
+  for (const [index, block] of blocks.entries()) {
+    switch (block.kind) {
+      case 'name':
+        drawWrapped(block.text, 'bold', style.nameSize, style.centerHeader);
+        y -= 4;
+        break;
+      case 'contact':
+        drawWrapped(block.text, 'regular', style.bodySize, style.centerHeader);
+        break;
+      case 'heading': {
+        // Keep a heading on the same page as the line after it
+        const needed = style.headingSpaceBefore + (style.headingSize + style.bodySize) * style.lineHeight + 4;
+        if (y - needed < style.margin) {
+          newPage();
+        } else if (y < top) {
+          y -= style.headingSpaceBefore;
+        }
+        drawWrapped(formatHeading(block.text, style), 'bold', style.headingSize);
+        if (style.headingRule) {
+          const ruleY = y + 1;
+          pages[pages.length - 1].push(
+            `0.5 w ${style.margin} ${ruleY.toFixed(2)} m ${PAGE_WIDTH - style.margin} ${ruleY.toFixed(2)} l S`
+          );
+        }
+        y -= 4;
+        break;
+      }
+      case 'bullet': {
+        const font = fontFor(style, 'regular');
+        const lines = wrapCodes(encodeWinAnsi(block.text), font, style.bodySize, contentWidth - BULLET_INDENT);
+        for (const [lineIndex, codes] of lines.entries()) {
+          drawLine({
+            codes,
+            x: style.margin + BULLET_INDENT,
+            weight: 'regular',
+            size: style.bodySize,
+            bullet: lineIndex === 0,
+          });
+        }
+        break;
+      }
+      case 'break':
+        // A break at the top of a page would only push the next line down
+        if (y < top && blocks[index + 1]) {
+          y -= style.breakSpace;
+        }
+        break;
+      case 'paragraph':
+        drawWrapped(block.text, 'regular', style.bodySize);
+        break;
+    }
+  }
+
+  return pages.map((commands) => commands.join('\n'));
+}
+
+/**
+ * PDF text string for document info, as UTF-16BE hex so any title survives
+ */
+function infoString(text: string): string {
+  const hex = [...text]
+    .flatMap((char) => {
+      const code = char.codePointAt(0)!;
+      return code > 0xffff ? [0xfffd] : [code];
+    })
+    .map((code) => code.toString(16).padStart(4, '0'))
+    .join('');
+  return `<feff${hex}>`;
+}
+
+/**
+ * Render blocks as a PDF file
+ * @param title - Stored as the document title
+ */
+export function writePDF(blocks: ExportBlock[], style: TemplateStyle, title: string): Uint8Array {
+  const pages = layoutPages(blocks, style);
+
+  // Objects 1-5 are fixed; each page then adds a page object and its content stream
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${6 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${fontFor(style, 'regular')} /Encoding /WinAnsiEncoding >>`,
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${fontFor(style, 'bold')} /Encoding /WinAnsiEncoding >>`,
+    `<< /Title ${infoString(title)} /Producer (CV-Optima) >>`,
+  ];
+
+  for (const [index, content] of pages.entries()) {
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+      `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+    );
+  }
+
+  // Everything after the header comment is ASCII, so string offsets are byte offsets
+  let output = '%PDF-1.4\n%\xe2\xe3\xcf\xd3\n';
+  const offsets: number[] = [];
+  for (const [index, body] of objects.entries()) {
+    offsets.push(output.length);
+    output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+  }
+
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new Uint8Array(Buffer.from(output, 'latin1'));
+}
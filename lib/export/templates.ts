@@ -0,0 +1,83 @@
+/**
+ * Export Templates
+ * Single-column layouts shared by the DOCX and PDF writers. All of them stick to standard fonts,
+ * real text and plain paragraphs so ATS parsers read the export the same way a person does.
+ */
+
+export type ExportTemplate = 'classic' | 'modern' | 'compact';
+
+export type TemplateStyle = {
+  label: string;
+  description: string;
+  font: {
+    docx: string; // Font name written into the DOCX
+    pdf: 'Times' | 'Helvetica'; // Standard PDF font family, so nothing has to be embedded
+  };
+  nameSize: number; // Sizes in points
+  headingSize: number;
+  bodySize: number;
+  lineHeight: number; // Multiple of the font size
+  margin: number; // Page margin in points
+  headingSpaceBefore: number; // Points above a section heading
+  breakSpace: number; // Points for a blank line between entries
+  centerHeader: boolean; // Center the name and contact lines
+  uppercaseHeadings: boolean;
+  headingRule: boolean; // Thin line under section headings
+};
+
+export const EXPORT_TEMPLATES: Record<ExportTemplate, TemplateStyle> = {
+  classic: {
+    label: 'Classic',
+    description: 'Serif type, centered header and ruled section headings',
+    font: { docx: 'Times New Roman', pdf: 'Times' },
+    nameSize: 18,
+    headingSize: 12,
+    bodySize: 11,
+    lineHeight: 1.2,
+    margin: 72,
+    headingSpaceBefore: 12,
+    breakSpace: 6,
+    centerHeader: true,
+    uppercaseHeadings: true,
+    headingRule: true,
+  },
+  modern: {
+    label: 'Modern',
+    description: 'Sans-serif type with a left-aligned header',
+    font: { docx: 'Arial', pdf: 'Helvetica' },
+    nameSize: 20,
+    headingSize: 12,
+    bodySize: 10.5,
+    lineHeight: 1.25,
+    margin: 60,
+    headingSpaceBefore: 14,
+    breakSpace: 6,
+    centerHeader: false,
+    uppercaseHeadings: false,
+    headingRule: false,
+  },
+  compact: {
+    label: 'Compact',
+    description: 'Smaller type and narrow margins to fit more on a page',
+    font: { docx: 'Arial', pdf: 'Helvetica' },
+    nameSize: 16,
+    headingSize: 11,
+    bodySize: 9.5,
+    lineHeight: 1.15,
+    margin: 36,
+    headingSpaceBefore: 8,
+    breakSpace: 3,
+    centerHeader: false,
+    uppercaseHeadings: true,
+    headingRule: true,
+  },
+};
+
+export const EXPORT_TEMPLATE_IDS = Object.keys(EXPORT_TEMPLATES) as ExportTemplate[];
+
+/**
+ * Heading text as the template shows it
+ */
+export function formatHeading(text: string, style: TemplateStyle): string {
+  return style.uppercaseHeadings ? text.toUpperCase() : text;
+}
@@ -0,0 +1,83 @@
+/**
+ * Plain Text and Markdown Writers
+ * Render export blocks as .txt or .md; templates only apply to DOCX and PDF
+ */
+
+import type { ExportBlock } from './document';
+
+/**
+ * Escape characters Markdown would read as formatting
+ */
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/([\\`*_[\]<>])/g, '\\$1')
+    .replace(/^(#|\+|-|\d+\.)(?=\s|$)/, '\\$1');
+}
+
+/**
+ * Render blocks as plain text with uppercase headings and "-" bullets
+ */
+export function writeText(blocks: ExportBlock[]): string {
+  const lines: string[] = [];
+
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'heading':
+        lines.push('', block.text.toUpperCase());
+        break;
+      case 'bullet':
+        lines.push(`- ${block.text}`);
+        break;
+      case 'break':
+        lines.push('');
+        break;
+      default:
+        lines.push(block.text);
+    }
+  }
+
+  return `${lines.join('\n').trim()}\n`;
+}
+
+/**
+ * Render blocks as Markdown: the name as the title, sections as second-level headings
+ */
+export function writeMarkdown(blocks: ExportBlock[]): string {
+  const lines: string[] = [];
+
+  for (const [index, block] of blocks.entries()) {
+    const next = blocks[index + 1];
+    switch (block.kind) {
+      case 'name':
+        lines.push(`# ${escapeMarkdown(block.text)}`, '');
+        break;
+      case 'contact':
+        // Hard line breaks keep contact lines apart without turning them into a list
+        lines.push(next?.kind === 'contact' ? `${escapeMarkdown(block.text)}  ` : escapeMarkdown(block.text));
+        break;
+      case 'heading':
+        lines.push('', `## ${escapeMarkdown(block.text)}`, '');
+        break;
+      case 'bullet':
+        lines.push(`- ${escapeMarkdown(block.text)}`);
+        // Otherwise a following line would continue the list item
+        if (next?.kind === 'paragraph') {
+          lines.push('');
+        }
+        break;
+      case 'break':
+        lines.push('');
+        break;
+      case 'paragraph':
+        // Consecutive lines of one entry stay separate lines instead of merging into one paragraph
+        lines.push(next?.kind === 'paragraph' ? `${escapeMarkdown(block.text)}  ` : escapeMarkdown(block.text));
+        // A list needs a blank line before it
+        if (next?.kind === 'bullet') {
+          lines.push('');
+        }
+        break;
+    }
+  }
+
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trim()}\n`;
+}
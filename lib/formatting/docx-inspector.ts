@@ -0,0 +1,123 @@
+/**
+ * DOCX Formatting Inspector
+ * Reads the raw WordprocessingML parts to find layout constructs that break ATS parsers
+ */
+
+import JSZip from 'jszip';
+import type { FormattingIssue } from '@/lib/types/database';
+import { inspectText } from './text-inspector';
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\+?\d[\d\s().-]{7,}\d/;
+
+// Fonts whose glyphs map to Private Use Area characters
+const SYMBOL_FONTS = /w:(?:ascii|hAnsi)="(Wingdings[^"]*|Symbol|Webdings)"/i;
+
+/**
+ * Count non-overlapping matches of a pattern
+ */
+function countMatches(xml: string, pattern: RegExp): number {
+  return (xml.match(pattern) ?? []).length;
+}
+
+/**
+ * Extract the visible text runs (<w:t>) from a WordprocessingML part
+ */
+function extractXmlText(xml: string): string {
+  return [...xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g)]
+    .map(match => match[1])
+    .join(' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>');
+}
+
+/**
+ * Inspect a DOCX file for ATS-hostile formatting
+ * @param buffer - DOCX file as Buffer or ArrayBuffer
+ */
+export async function inspectDOCXFormatting(buffer: Buffer | ArrayBuffer): Promise<FormattingIssue[]> {
+  const zip = await JSZip.loadAsync(buffer);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+
+  if (!documentXml) {
+    throw new Error('DOCX file is missing word/document.xml');
+  }
+
+  const issues: FormattingIssue[] = [];
+
+  // 1. Tables
+  const tableCount = countMatches(documentXml, /<w:tbl>/g);
+  if (tableCount > 0) {
+    issues.push({
+      type: 'table',
+      severity: 'high',
+      description: `${tableCount} table(s) found. Many ATS parsers read tables cell by cell or skip them, scrambling your content.`,
+      location: 'Document body',
+    });
+  }
+
+  // 2. Multi-column sections
+  const columnCounts = [...documentXml.matchAll(/<w:cols\b[^>]*w:num="(\d+)"/g)].map(match => Number(match[1]));
+  const maxColumns = Math.max(1, ...columnCounts);
+  if (maxColumns > 1) {
+    issues.push({
+      type: 'column',
+      severity: 'high',
+      description: `A ${maxColumns}-column layout was found. ATS parsers often read across columns, mixing unrelated lines.`,
+      location: 'Document body',
+    });
+  }
+
+  // 3. Text boxes and shapes holding text
+  const textBoxCount = countMatches(documentXml, /<w:txbxContent>/g);
+  if (textBoxCount > 0) {
+    issues.push({
+      type: 'other',
+      severity: 'high',
+      description: `${textBoxCount} text box(es) found. Text inside text boxes is frequently ignored by ATS parsers.`,
+      location: 'Document body',
+    });
+  }
+
+  // 4. Embedded images (photos, logos, skill charts)
+  const imageCount = countMatches(documentXml, /<pic:pic\b/g) + countMatches(documentXml, /<v:imagedata\b/g);
+  if (imageCount > 0) {
+    issues.push({
+      type: 'image',
+      severity: 'medium',
+      description: `${imageCount} embedded image(s) found. ATS parsers cannot read text or ratings shown in images.`,
+      location: 'Document body',
+    });
+  }
+
+  // 5. Contact information placed in headers or footers
+  const headerFooterFiles = zip.file(/^word\/(header|footer)\d*\.xml$/);
+  for (const part of headerFooterFiles) {
+    const text = extractXmlText(await part.async('string'));
+    if (EMAIL_PATTERN.test(text) || PHONE_PATTERN.test(text)) {
+      const kind = part.name.includes('header') ? 'Header' : 'Footer';
+      issues.push({
+        type: 'other',
+        severity: 'high',
+        description: `Contact information is in the ${kind.toLowerCase()}. Many ATS parsers skip headers and footers, so your email or phone may be lost.`,
+        location: kind,
+      });
+    }
+  }
+
+  // 6. Bullets rendered with symbol fonts or decorative glyphs
+  const numberingXml = await zip.file('word/numbering.xml')?.async('string');
+  if (numberingXml && SYMBOL_FONTS.test(numberingXml)) {
+    issues.push({
+      type: 'special_char',
+      severity: 'medium',
+      description: 'Bullet lists use a symbol font (e.g. Wingdings). These bullets often extract as unreadable characters.',
+      location: 'Bullet lists',
+    });
+  }
+
+  issues.push(...inspectText(extractXmlText(documentXml), 'Document body'));
+
+  return issues;
+}
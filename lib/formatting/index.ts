@@ -0,0 +1,42 @@
+/**
+ * Formatting Inspector
+ * Flags ATS-hostile layout constructs in the original resume file ("Formatting Check")
+ */
+
+import type { FormattingIssue, Resume } from '@/lib/types/database';
+import { inspectDOCXFormatting } from './docx-inspector';
+import { inspectPDFFormatting } from './pdf-inspector';
+import { inspectText } from './text-inspector';
+import { extractText } from '@/lib/utils/text-extraction';
+
+export { inspectDOCXFormatting, inspectPDFFormatting, inspectText };
+
+const SEVERITY_ORDER: Record<FormattingIssue['severity'], number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+/**
+ * Inspect a stored resume file for formatting issues
+ * @param buffer - Original file bytes
+ * @param fileType - Resume file type
+ * @returns Issues sorted by severity (most severe first)
+ */
+export async function inspectResumeFormatting(
+  buffer: Buffer | ArrayBuffer,
+  fileType: NonNullable<Resume['file_type']>
+): Promise<FormattingIssue[]> {
+  let issues: FormattingIssue[];
+  if (fileType === 'pdf') {
+    issues = await inspectPDFFormatting(buffer);
+  } else if (fileType === 'docx') {
+    issues = await inspectDOCXFormatting(buffer);
+  } else {
+    // No layout inspector for the other formats yet, so only check the extracted text
+    const result = await extractText(buffer instanceof ArrayBuffer ? buffer : new Uint8Array(buffer).buffer, fileType);
+    issues = result.success && result.text ? inspectText(result.text, 'Document body') : [];
+  }
+
+  return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+}
@@ -0,0 +1,102 @@
+/**
+ * PDF Formatting Inspector
+ * Uses pdf-parse layout information to find constructs that break ATS parsers
+ */
+
+import type { FormattingIssue } from '@/lib/types/database';
+import { inspectText } from './text-inspector';
+
+// Separator pdf-parse inserts between text items with a large horizontal gap on the same line
+const CELL_SEPARATOR = '\t';
+
+// A line only counts as two-column when both sides hold real content
+const MIN_COLUMN_TEXT_LENGTH = 12;
+
+// Share of lines on a page that must be split to call the page multi-column
+const COLUMN_LINE_RATIO = 0.3;
+const MIN_COLUMN_LINES = 4;
+
+// Ignore tiny decorative images (icons, rules)
+const MIN_IMAGE_SIZE = 50;
+
+/**
+ * Decide whether a page's text looks like a side-by-side column layout
+ */
+function isMultiColumnPage(pageText: string): boolean {
+  const lines = pageText.split('\n').map(line => line.trim()).filter(line => line.length > 0);
+  if (lines.length === 0) return false;
+
+  const splitLines = lines.filter(line => {
+    const cells = line.split(CELL_SEPARATOR).map(cell => cell.trim());
+    return cells.filter(cell => cell.length >= MIN_COLUMN_TEXT_LENGTH).length >= 2;
+  });
+
+  return splitLines.length >= MIN_COLUMN_LINES && splitLines.length / lines.length >= COLUMN_LINE_RATIO;
+}
+
+/**
+ * Inspect a PDF file for ATS-hostile formatting
+ * @param buffer - PDF file as Buffer or ArrayBuffer
+ */
+export async function inspectPDFFormatting(buffer: Buffer | ArrayBuffer): Promise<FormattingIssue[]> {
+  const pdfBuffer = buffer instanceof ArrayBuffer ? Buffer.from(buffer) : buffer;
+
+  const { PDFParse } = await import('pdf-parse');
+  const parser = new PDFParse({ data: pdfBuffer });
+
+  try {
+    const text = await parser.getText({ cellSeparator: CELL_SEPARATOR });
+    const images = await parser.getImage({
+      imageThreshold: MIN_IMAGE_SIZE,
+      imageBuffer: false,
+      imageDataUrl: false,
+    });
+    const tables = await parser.getTable();
+
+    const issues: FormattingIssue[] = [];
+
+    // 1. Multi-column layouts
+    const columnPages = text.pages.filter(page => isMultiColumnPage(page.text)).map(page => page.num);
+    if (columnPages.length > 0) {
+      issues.push({
+        type: 'column',
+        severity: 'high',
+        description: 'Multi-column layout detected. ATS parsers often read straight across columns, mixing unrelated lines.',
+        location: `Page ${columnPages.join(', ')}`,
+      });
+    }
+
+    // 2. Tables (ruled grids)
+    for (const page of tables.pages) {
+      if (page.tables.length > 0) {
+        issues.push({
+          type: 'table',
+          severity: 'high',
+          description: `${page.tables.length} table(s) found. Many ATS parsers read tables cell by cell or skip them.`,
+          location: `Page ${page.num}`,
+        });
+      }
+    }
+
+    // 3. Embedded images
+    for (const page of images.pages) {
+      if (page.images.length > 0) {
+        issues.push({
+          type: 'image',
+          severity: 'medium',
+          description: `${page.images.length} embedded image(s) found. ATS parsers cannot read text or ratings shown in images.`,
+          location: `Page ${page.pageNumber}`,
+        });
+      }
+    }
+
+    // 4. Decorative bullets and symbol-font characters
+    for (const page of text.pages) {
+      issues.push(...inspectText(page.text, `Page ${page.num}`));
+    }
+
+    return issues;
+  } finally {
+    await parser.destroy();
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Text Formatting Inspector
+ * Flags characters that older ATS parsers garble, such as decorative bullet glyphs
+ */
+
+import type { FormattingIssue } from '@/lib/types/database';
+
+// Decorative bullets and symbols commonly copied from templates ("•" and "-" are safe)
+const DECORATIVE_GLYPHS = /[➢➣➤►▶▸▹▪▫■□◆◇◈○◦❖❑❒✓✔✗✘★☆♦♠♣♥➔→⇒⮚✦✧]/gu;
+
+// Private Use Area characters come from symbol fonts (Wingdings, Symbol) and extract as garbage
+const PRIVATE_USE_CHARS = /[\uE000-\uF8FF]/gu;
+
+/**
+ * Inspect extracted text for ATS-hostile characters
+ * @param text - Extracted text of the document or of one page/part
+ * @param location - Human readable location reported with each issue (e.g. "Page 2")
+ */
+export function inspectText(text: string, location?: string): FormattingIssue[] {
+  const issues: FormattingIssue[] = [];
+
+  const decorative = new Set(text.match(DECORATIVE_GLYPHS) ?? []);
+  if (decorative.size > 0) {
+    issues.push({
+      type: 'special_char',
+      severity: 'medium',
+      description: `Non-standard bullet or symbol characters (${[...decorative].join(' ')}) may be dropped or garbled by ATS parsers. Use simple "•" or "-" bullets.`,
+      location,
+    });
+  }
+
+  const privateUseCount = (text.match(PRIVATE_USE_CHARS) ?? []).length;
+  if (privateUseCount > 0) {
+    issues.push({
+      type: 'special_char',
+      severity: 'high',
+      description: `${privateUseCount} character(s) from a symbol font (e.g. Wingdings) could not be read as text. Replace them with standard characters.`,
+      location,
+    });
+  }
+
+  return issues;
+}
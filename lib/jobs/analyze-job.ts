@@ -0,0 +1,226 @@
+/**
+ * Analyze Job
+ * Scores a stored resume against a job description and saves the analysis.
+ * The credit for it was reserved by the analyzeResume action and is refunded if the job fails.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getAIProvider } from '@/lib/ai';
+import { inspectResumeFormatting } from '@/lib/formatting';
+import { parseJobDescription } from '@/lib/parsing/job-description-parser';
+import { getScoringEngine, type ScoringResult } from '@/lib/scoring';
+import { refundCredits } from '@/lib/supabase/credits';
+import { downloadResumeFile, isUserFilePath } from '@/lib/supabase/storage';
+import type { AnalysisInsert, FormattingIssue, Resume, Suggestion } from '@/lib/types/database';
+import { findMentionedKeywords } from '@/lib/utils/keyword-matcher';
+import type { JobContext, JobHandler, JobOutcome } from './types';
+
+// Number of missing keywords turned into individual suggestions
+const MAX_KEYWORD_SUGGESTIONS = 5;
+
+// OCR confidence below which extracted text is likely to contain misread words
+const LOW_OCR_CONFIDENCE = 70;
+
+export type AnalyzeJobPayload = {
+  resumeId: string;
+  jobDescription: string;
+  jobTitle?: string;
+  companyName?: string;
+  chargeId: string; // Credit ledger charge to refund if the job fails
+};
+
+export type AnalyzeJobResult = {
+  analysisId: string;
+  resumeId: string;
+  jobTitle: string | null;
+  companyName: string | null;
+  matchScore: number;
+  missingKeywords: string[];
+  suggestions: Suggestion[];
+  formattingIssues: FormattingIssue[];
+};
+
+export const analyzeJobHandler: JobHandler = {
+  async run({ supabase, job, reportStage }: JobContext): Promise<JobOutcome> {
+    const payload = job.payload as AnalyzeJobPayload;
+
+    const { data: resume, error: fetchError } = await supabase
+      .from('resumes')
+      .select('id, user_id, raw_text, file_path, file_type, ocr_used, ocr_confidence')
+      .eq('id', payload.resumeId)
+      .eq('user_id', job.user_id)
+      .maybeSingle();
+
+    if (fetchError) {
+      console.error('Resume fetch error:', fetchError);
+      throw new Error('Failed to load the resume');
+    }
+
+    if (!resume) {
+      return { success: false, error: 'Resume not found' };
+    }
+
+    if (!resume.raw_text) {
+      return { success: false, error: 'This resume has no extracted text to analyze' };
+    }
+
+    return runAnalysis(supabase, resume, payload, reportStage);
+  },
+
+  async onFailed({ job }) {
+    await refundCredits((job.payload as AnalyzeJobPayload).chargeId);
+  },
+};
+
+/**
+ * Score the resume, gather suggestions and formatting issues, and save the analysis
+ */
+async function runAnalysis(
+  supabase: SupabaseClient,
+  resume: Pick<Resume, 'id' | 'user_id' | 'file_path' | 'file_type' | 'ocr_used' | 'ocr_confidence'> & { raw_text: string },
+  { jobDescription, jobTitle, companyName }: Pick<AnalyzeJobPayload, 'jobDescription' | 'jobTitle' | 'companyName'>,
+  reportStage: JobContext['reportStage']
+): Promise<JobOutcome> {
+  // 1. Parse the job description, then compare the resume against it
+  await reportStage('scoring');
+  const jobDetails = parseJobDescription(jobDescription);
+  const comparison = await getScoringEngine().score({
+    resumeText: resume.raw_text,
+    jobDescription,
+    requirements: {
+      mustHave: jobDetails.mustHave,
+      niceToHave: jobDetails.niceToHave,
+    },
+  });
+
+  // 2. Ask the AI provider for improvements, then add per-keyword suggestions
+  await reportStage('suggesting');
+  const { suggestions: aiSuggestions } = await getAIProvider().suggest({
+    resumeText: resume.raw_text,
+    jobDescription,
+    missingKeywords: comparison.missingKeywords,
+  });
+  const suggestions = [
+    ...aiSuggestions,
+    ...buildKeywordSuggestions(comparison).filter(
+      (keywordSuggestion) =>
+        !aiSuggestions.some((suggestion) =>
+          findMentionedKeywords(suggestion.suggested, [keywordSuggestion.suggested]).length > 0
+        )
+    ),
+  ];
+
+  // 3. Check the original file for ATS-hostile formatting, and flag unreliable OCR text
+  await reportStage('formatting');
+  const formattingIssues = [...getExtractionIssues(resume), ...(await checkFormatting(supabase, resume))];
+
+  // 4. Store analysis record in database
+  await reportStage('saving');
+  const analysisData: AnalysisInsert = {
+    resume_id: resume.id,
+    job_description_text: jobDescription,
+    job_title: jobTitle || jobDetails.title,
+    company_name: companyName || jobDetails.company,
+    match_score: comparison.matchScore,
+    missing_keywords: comparison.missingKeywords,
+    suggestions,
+    formatting_issues: formattingIssues,
+    job_details: jobDetails,
+    tailored_summary: null,
+  };
+
+  const { data: analysis, error: dbError } = await supabase
+    .from('analyses')
+    .insert(analysisData)
+    .select()
+    .single();
+
+  if (dbError) {
+    console.error('Database insert error:', dbError);
+    // Usually transient, so let the worker try again
+    throw new Error('Failed to save analysis to database');
+  }
+
+  // 5. Return the analysis for the client
+  const result: AnalyzeJobResult = {
+    analysisId: analysis.id,
+    resumeId: analysis.resume_id,
+    jobTitle: analysis.job_title,
+    companyName: analysis.company_name,
+    matchScore: analysis.match_score,
+    missingKeywords: analysis.missing_keywords,
+    suggestions: analysis.suggestions,
+    formattingIssues: analysis.formatting_issues,
+  };
+
+  return { success: true, result };
+}
+
+/**
+ * Turn the most important missing keywords into actionable suggestions
+ * Missing must-haves and hard skills are high priority, soft skills and nice-to-haves medium, other keywords low
+ */
+function buildKeywordSuggestions(comparison: ScoringResult): Suggestion[] {
+  const skills = new Map(comparison.missingSkills.map((match) => [match.skill, match]));
+
+  return comparison.missingKeywords.slice(0, MAX_KEYWORD_SUGGESTIONS).map((keyword) => {
+    const skill = skills.get(keyword);
+    const isHighPriority =
+      skill?.requirement === 'must_have' || (skill?.category === 'hard' && skill.requirement !== 'nice_to_have');
+    return {
+      type: 'keyword',
+      priority: isHighPriority ? 'high' : skill ? 'medium' : 'low',
+      suggested: keyword,
+      reason: `"${keyword}" appears in the job description but not in your resume. Add it where it reflects real experience.`,
+    };
+  });
+}
+
+/**
+ * Warn when the resume text was recognized with OCR, since scores depend on the extracted words
+ */
+function getExtractionIssues(resume: Pick<Resume, 'ocr_used' | 'ocr_confidence'>): FormattingIssue[] {
+  if (!resume.ocr_used) {
+    return [];
+  }
+
+  const confidence = resume.ocr_confidence ?? 0;
+  if (confidence < LOW_OCR_CONFIDENCE) {
+    return [{
+      type: 'other',
+      severity: 'high',
+      description: `This resume is a scanned image and its text could only be read with ${Math.round(confidence)}% confidence, so keywords may be missed. Many ATS cannot read scanned resumes at all; upload a text-based PDF or DOCX.`,
+    }];
+  }
+
+  return [{
+    type: 'other',
+    severity: 'medium',
+    description: 'This resume is a scanned image. Its text was read with OCR, but many ATS cannot read scanned resumes; upload a text-based PDF or DOCX.',
+  }];
+}
+
+/**
+ * Download the original resume file and inspect its formatting
+ * Formatting is a secondary signal, so failures are logged and yield no issues instead of failing the analysis
+ */
+async function checkFormatting(
+  supabase: SupabaseClient,
+  resume: Pick<Resume, 'user_id' | 'file_path' | 'file_type'>
+): Promise<FormattingIssue[]> {
+  if (!resume.file_type || !isUserFilePath(resume.user_id, resume.file_path)) {
+    return [];
+  }
+
+  try {
+    const download = await downloadResumeFile(supabase, resume.file_path);
+    if (!download.success) {
+      return [];
+    }
+
+    return await inspectResumeFormatting(download.data!, resume.file_type);
+  } catch (error) {
+    console.error('Formatting inspection error:', error);
+    return [];
+  }
+}
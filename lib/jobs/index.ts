@@ -0,0 +1,11 @@
+/**
+ * Background Jobs
+ * Parsing and analysis run as queued jobs so server actions can return right away.
+ * Server only; client components import stage labels from ./stages.
+ */
+
+export { enqueueJob } from './queue';
+export { processJobs, processJobsAfterResponse, registerJobHandler, type WorkerReport } from './worker';
+export type { AnalyzeJobPayload, AnalyzeJobResult } from './analyze-job';
+export type { ParseJobDuplicateResult, ParseJobPayload, ParseJobResult } from './parse-job';
+export type { JobContext, JobHandler, JobOutcome } from './types';
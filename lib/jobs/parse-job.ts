@@ -0,0 +1,234 @@
+/**
+ * Parse Job
+ * Extracts text from an uploaded resume file and stores the resume.
+ * The file was already validated and uploaded by the parseResume action (stageResumeUpload).
+ */
+
+import { parseResumeStructure } from '@/lib/parsing/resume-parser';
+import { completeResumeUpload, downloadResumeFile, failResumeUpload, isUserFilePath } from '@/lib/supabase/storage';
+import type { Resume, ResumeInsert, ResumeUpload } from '@/lib/types/database';
+import type { ResumeFileType } from '@/lib/utils/resume-formats';
+import { computeTextFingerprint, findNearDuplicate, type DuplicateMatch } from '@/lib/utils/resume-fingerprint';
+import { EXTRACTOR_VERSION, extractText } from '@/lib/utils/text-extraction';
+import type { JobContext, JobHandler, JobOutcome } from './types';
+
+export type ParseJobPayload = {
+  uploadId: string;
+  title: string;
+  fileType: ResumeFileType;
+  fileSize: number;
+  contentHash: string;
+  checkDuplicates: boolean; // False once the user chose to keep the upload despite a duplicate
+  parentId: string | null; // Set to store the upload as a new version of this resume
+  changeNote: string | null;
+};
+
+export type ParseJobResult = {
+  resumeId: string;
+  title: string;
+  filePath: string;
+  textPreview: string;
+  parentId: string | null;
+  versionNumber: number;
+};
+
+// Result when the extracted text matches an existing resume; nothing was stored
+export type ParseJobDuplicateResult = {
+  duplicate: DuplicateMatch;
+};
+
+export const parseJobHandler: JobHandler = {
+  async run({ supabase, job, reportStage }: JobContext): Promise<JobOutcome> {
+    const payload = job.payload as ParseJobPayload;
+
+    const upload = await loadUpload(supabase, job.user_id, payload.uploadId);
+    if (!upload) {
+      return { success: false, error: 'The upload was not found' };
+    }
+    if (upload.status === 'failed') {
+      return { success: false, error: upload.error ?? 'The upload failed, please upload the file again' };
+    }
+    if (!isUserFilePath(job.user_id, upload.file_path)) {
+      return { success: false, error: 'The upload was not found' };
+    }
+
+    let duplicate: DuplicateMatch | null = null;
+    const pipeline = await completeResumeUpload(supabase, upload, {
+      extract: async () => {
+        await reportStage('downloading');
+        const download = await downloadResumeFile(supabase, upload.file_path);
+        if (!download.success) {
+          // Storage hiccups are worth another attempt
+          throw new Error(download.error);
+        }
+
+        await reportStage('extracting');
+        try {
+          return await extractText(download.data!, payload.fileType);
+        } catch (error) {
+          // The same bytes fail the same way on every attempt
+          console.error('Text extraction error:', error);
+          return {
+            success: false,
+            error: error instanceof Error ? error.message : 'Text extraction failed',
+          };
+        }
+      },
+      persist: async (filePath, extractionResult) => {
+        await reportStage('saving');
+
+        const textFingerprint = computeTextFingerprint(extractionResult.text!);
+        if (payload.checkDuplicates && textFingerprint) {
+          // A new version is expected to resemble the resume it belongs to, so only identical files count
+          duplicate = await findDuplicate(supabase, job.user_id, payload.contentHash, payload.parentId ? null : textFingerprint);
+          if (duplicate) {
+            // Rolls the upload back; the user's decision re-sends the file
+            return { success: false, error: 'The upload matches an existing resume' };
+          }
+        }
+
+        // The parent may have been deleted since the upload; the database assigns the version number
+        if (payload.parentId) {
+          const { data: parent, error: parentError } = await supabase
+            .from('resumes')
+            .select('id')
+            .eq('id', payload.parentId)
+            .eq('user_id', job.user_id)
+            .maybeSingle();
+
+          if (parentError || !parent) {
+            return {
+              success: false,
+              error: 'The resume to add a version to was not found',
+            };
+          }
+        }
+
+        const resumeData: ResumeInsert = {
+          user_id: job.user_id,
+          title: payload.title,
+          file_path: filePath,
+          raw_text: extractionResult.text!,
+          file_size: payload.fileSize,
+          file_type: payload.fileType,
+          structured_content: parseResumeStructure(extractionResult.text!),
+          ocr_used: extractionResult.ocrConfidence !== undefined,
+          ocr_confidence: extractionResult.ocrConfidence ?? null,
+          parent_id: payload.parentId,
+          change_note: payload.parentId ? payload.changeNote : null,
+          content_hash: payload.contentHash,
+          text_fingerprint: textFingerprint,
+          extractor_version: EXTRACTOR_VERSION,
+        };
+
+        const { data: resume, error: dbError } = await supabase
+          .from('resumes')
+          .insert(resumeData)
+          .select('id')
+          .single();
+
+        if (dbError) {
+          console.error('Database insert error:', dbError);
+          return {
+            success: false,
+            error: 'Failed to save resume to database',
+          };
+        }
+
+        return {
+          success: true,
+          resumeId: resume.id,
+        };
+      },
+    });
+
+    if (duplicate) {
+      const result: ParseJobDuplicateResult = { duplicate };
+      return { success: true, result };
+    }
+
+    if (!pipeline.success) {
+      return { success: false, error: pipeline.error };
+    }
+
+    const { data: resume, error: fetchError } = await supabase
+      .from('resumes')
+      .select('id, title, file_path, raw_text, parent_id, version_number')
+      .eq('id', pipeline.resumeId!)
+      .eq('user_id', job.user_id)
+      .single();
+
+    if (fetchError || !resume) {
+      console.error('Resume fetch error:', fetchError);
+      return { success: false, error: 'The resume was saved but could not be loaded' };
+    }
+
+    const result: ParseJobResult = {
+      resumeId: resume.id,
+      title: resume.title,
+      filePath: resume.file_path,
+      textPreview: (resume.raw_text ?? '').substring(0, 500) + '...',
+      parentId: resume.parent_id,
+      versionNumber: resume.version_number,
+    };
+
+    return { success: true, result };
+  },
+
+  async onFailed({ supabase, job }, error) {
+    // Roll the upload back once retries are exhausted; returned failures were already rolled back
+    const upload = await loadUpload(supabase, job.user_id, (job.payload as ParseJobPayload).uploadId);
+    if (upload && upload.status !== 'persisted' && upload.status !== 'failed') {
+      await failResumeUpload(supabase, upload, error);
+    }
+  },
+};
+
+/**
+ * Find a stored resume with the same file bytes, or else the one with the closest text
+ * @param textFingerprint - Fingerprint to compare, or null to look for identical files only
+ */
+async function findDuplicate(
+  supabase: JobContext['supabase'],
+  userId: string,
+  contentHash: string,
+  textFingerprint: string | null
+): Promise<DuplicateMatch | null> {
+  const { data: resumes, error } = await supabase
+    .from('resumes')
+    .select('id, title, version_number, content_hash, text_fingerprint')
+    .eq('user_id', userId);
+
+  if (error) {
+    console.error('Duplicate lookup error:', error);
+    throw new Error('Failed to check for duplicate resumes');
+  }
+
+  const candidates = (resumes ?? []) as Pick<Resume, 'id' | 'title' | 'version_number' | 'content_hash' | 'text_fingerprint'>[];
+  const exact = candidates.find((resume) => resume.content_hash === contentHash);
+  const match = exact ?? (textFingerprint ? findNearDuplicate(textFingerprint, candidates) : null);
+
+  return match
+    ? { kind: exact ? 'exact' : 'near', resumeId: match.id, title: match.title, versionNumber: match.version_number }
+    : null;
+}
+
+async function loadUpload(
+  supabase: JobContext['supabase'],
+  userId: string,
+  uploadId: string
+): Promise<ResumeUpload | null> {
+  const { data, error } = await supabase
+    .from('resume_uploads')
+    .select()
+    .eq('id', uploadId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    console.error('Upload fetch error:', error);
+    throw new Error('Failed to load the upload');
+  }
+
+  return data;
+}
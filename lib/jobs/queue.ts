@@ -0,0 +1,193 @@
+/**
+ * Job Queue
+ * Reads and writes the jobs table (migration 012). Jobs are written with the service-role client only.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job, JobKind } from '@/lib/types/database';
+import { getStageProgress } from './stages';
+
+// Delay before the first retry; each further retry waits RETRY_BACKOFF_FACTOR times longer
+const RETRY_BASE_DELAY_SECONDS = 30;
+const RETRY_BACKOFF_FACTOR = 4;
+
+// Running jobs locked longer than this belong to a worker that died and are claimed again
+const LOCK_TIMEOUT = '10 minutes';
+
+/**
+ * Add a job to the queue
+ * With an idempotency key, a repeated request returns the job already queued for it. A job that
+ * failed for good is queued again with the new payload so the user can retry.
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient,
+  {
+    userId,
+    kind,
+    payload,
+    idempotencyKey,
+  }: { userId: string; kind: JobKind; payload: Record<string, unknown>; idempotencyKey?: string }
+): Promise<{ success: boolean; error?: string; job?: Job }> {
+  const { data: job, error } = await supabase
+    .from('jobs')
+    .insert({
+      user_id: userId,
+      kind,
+      payload,
+      idempotency_key: idempotencyKey ?? null,
+    })
+    .select()
+    .single();
+
+  if (!error) {
+    return { success: true, job };
+  }
+
+  // 23505: unique violation, a job already exists for this key
+  if (error.code !== '23505' || !idempotencyKey) {
+    console.error('Job enqueue error:', error);
+    return { success: false, error: 'Failed to queue the job' };
+  }
+
+  const { data: existing, error: fetchError } = await supabase
+    .from('jobs')
+    .select()
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .eq('idempotency_key', idempotencyKey)
+    .single();
+
+  if (fetchError || !existing) {
+    console.error('Existing job fetch error:', fetchError);
+    return { success: false, error: 'Failed to queue the job' };
+  }
+
+  if (existing.status !== 'failed') {
+    return { success: true, job: existing };
+  }
+
+  const { data: requeued, error: requeueError } = await supabase
+    .from('jobs')
+    .update({
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      payload,
+      result: null,
+      error: null,
+      attempts: 0,
+      run_after: new Date().toISOString(),
+      locked_at: null,
+    })
+    .eq('id', existing.id)
+    .eq('status', 'failed')
+    .select()
+    .single();
+
+  if (requeueError || !requeued) {
+    console.error('Job requeue error:', requeueError);
+    return { success: false, error: 'Failed to queue the job' };
+  }
+
+  return { success: true, job: requeued };
+}
+
+/**
+ * Lock due jobs for this worker; each claim counts as an attempt
+ */
+export async function claimJobs(supabase: SupabaseClient, batchSize: number): Promise<Job[]> {
+  const { data, error } = await supabase.rpc('claim_jobs', {
+    batch_size: batchSize,
+    lock_timeout: LOCK_TIMEOUT,
+  });
+
+  if (error) {
+    console.error('Job claim error:', error);
+    return [];
+  }
+
+  return (data ?? []) as Job[];
+}
+
+/**
+ * Record the stage a running job has reached
+ * Progress is a secondary signal, so failures are logged and the job carries on.
+ */
+export async function reportJobStage(supabase: SupabaseClient, job: Pick<Job, 'id' | 'kind'>, stage: string): Promise<void> {
+  const { error } = await supabase
+    .from('jobs')
+    .update({ stage, progress: getStageProgress(job.kind, stage) })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('Job stage update error:', error);
+  }
+}
+
+/**
+ * Mark a job as succeeded and store its result
+ */
+export async function completeJob(
+  supabase: SupabaseClient,
+  jobId: string,
+  result: Record<string, unknown> | null
+): Promise<void> {
+  const { error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'succeeded',
+      stage: 'done',
+      progress: 100,
+      result,
+      error: null,
+      locked_at: null,
+    })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Job completion error:', error);
+  }
+}
+
+/**
+ * Mark a job as failed for good
+ */
+export async function failJob(supabase: SupabaseClient, jobId: string, reason: string): Promise<void> {
+  const { error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'failed',
+      error: reason,
+      locked_at: null,
+    })
+    .eq('id', jobId);
+
+  if (error) {
+    console.error('Job failure update error:', error);
+  }
+}
+
+/**
+ * Put a job back in the queue after a failed attempt
+ * Waits 30 seconds after the first attempt, 2 minutes after the second, and so on.
+ */
+export async function scheduleJobRetry(
+  supabase: SupabaseClient,
+  job: Pick<Job, 'id' | 'attempts'>,
+  reason: string
+): Promise<void> {
+  const delaySeconds = RETRY_BASE_DELAY_SECONDS * RETRY_BACKOFF_FACTOR ** Math.max(job.attempts - 1, 0);
+  const { error } = await supabase
+    .from('jobs')
+    .update({
+      status: 'queued',
+      error: reason,
+      run_after: new Date(Date.now() + delaySeconds * 1000).toISOString(),
+      locked_at: null,
+    })
+    .eq('id', job.id);
+
+  if (error) {
+    console.error('Job retry update error:', error);
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Job Stages
+ * The steps each job kind reports while it runs. Safe to import in the browser.
+ */
+
+import type { JobKind } from '@/lib/types/database';
+
+export type JobStage = {
+  key: string;
+  label: string;
+};
+
+export const JOB_STAGES: Record<JobKind, JobStage[]> = {
+  parse: [
+    { key: 'queued', label: 'Waiting to start' },
+    { key: 'downloading', label: 'Reading the uploaded file' },
+    { key: 'extracting', label: 'Extracting text' },
+    { key: 'saving', label: 'Saving your resume' },
+  ],
+  analyze: [
+    { key: 'queued', label: 'Waiting to start' },
+    { key: 'scoring', label: 'Matching keywords and skills' },
+    { key: 'suggesting', label: 'Writing suggestions' },
+    { key: 'formatting', label: 'Checking formatting' },
+    { key: 'saving', label: 'Saving the analysis' },
+  ],
+};
+
+/**
+ * Rough completion percentage when a job enters a stage
+ * Unknown stages count as not started.
+ */
+export function getStageProgress(kind: JobKind, stage: string): number {
+  const stages = JOB_STAGES[kind];
+  const index = stages.findIndex((candidate) => candidate.key === stage);
+
+  return index <= 0 ? 0 : Math.round((index / stages.length) * 100);
+}
+
+/**
+ * Human-readable label for a stage
+ */
+export function getStageLabel(kind: JobKind, stage: string): string {
+  return JOB_STAGES[kind].find((candidate) => candidate.key === stage)?.label ?? stage;
+}
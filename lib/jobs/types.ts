@@ -0,0 +1,31 @@
+/**
+ * Background Job Types
+ * Contract between the job queue, the worker and the handler for each job kind
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Job } from '@/lib/types/database';
+
+export type JobOutcome = {
+  success: boolean;
+  error?: string;
+  result?: Record<string, unknown>; // Stored on the job and read back by the client
+};
+
+export type JobContext = {
+  supabase: SupabaseClient; // Service-role client; scope every query to job.user_id
+  job: Job;
+  reportStage: (stage: string) => Promise<void>;
+};
+
+export interface JobHandler {
+  /**
+   * Do the work
+   * A returned failure is final. A thrown error is retried with backoff until max_attempts.
+   */
+  run(context: JobContext): Promise<JobOutcome>;
+  /**
+   * Clean up after the job has failed for good, e.g. roll back an upload or refund credits
+   */
+  onFailed?(context: Omit<JobContext, 'reportStage'>, error: string): Promise<void>;
+}
@@ -0,0 +1,123 @@
+/**
+ * Job Worker
+ * Claims due jobs and runs them one at a time with the handler registered for their kind.
+ * Runs after a server action responds (see processJobsAfterResponse) and from the process-jobs cron route.
+ */
+
+import { after } from 'next/server';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { createAdminClient } from '@/lib/supabase/admin';
+import type { Job, JobKind } from '@/lib/types/database';
+import { analyzeJobHandler } from './analyze-job';
+import { parseJobHandler } from './parse-job';
+import { claimJobs, completeJob, failJob, reportJobStage, scheduleJobRetry } from './queue';
+import type { JobHandler } from './types';
+
+// Stop claiming new jobs once a run has taken this long, leaving room for the current job to finish
+const DEFAULT_TIME_BUDGET_MS = 45_000;
+
+const jobHandlers = new Map<JobKind, JobHandler>([
+  ['parse', parseJobHandler],
+  ['analyze', analyzeJobHandler],
+]);
+
+export type WorkerReport = {
+  succeeded: number;
+  retried: number; // Failed attempts put back in the queue
+  failed: number; // Jobs that failed for good
+};
+
+/**
+ * Replace the handler for a job kind
+ */
+export function registerJobHandler(kind: JobKind, handler: JobHandler): void {
+  jobHandlers.set(kind, handler);
+}
+
+/**
+ * Run due jobs until the queue is empty or the time budget is spent
+ * @param supabase - Service-role client from createAdminClient
+ */
+export async function processJobs(
+  supabase: SupabaseClient,
+  { timeBudgetMs = DEFAULT_TIME_BUDGET_MS }: { timeBudgetMs?: number } = {}
+): Promise<WorkerReport> {
+  const report: WorkerReport = { succeeded: 0, retried: 0, failed: 0 };
+  const startedAt = Date.now();
+
+  while (Date.now() - startedAt < timeBudgetMs) {
+    const [job] = await claimJobs(supabase, 1);
+    if (!job) {
+      break;
+    }
+
+    report[await runJob(supabase, job)]++;
+  }
+
+  return report;
+}
+
+/**
+ * Work through the queue once the current response has been sent
+ * Lets server actions return a job id right away instead of waiting for the cron route.
+ */
+export function processJobsAfterResponse(): void {
+  after(async () => {
+    try {
+      await processJobs(createAdminClient());
+    } catch (error) {
+      console.error('Background job processing error:', error);
+    }
+  });
+}
+
+async function runJob(supabase: SupabaseClient, job: Job): Promise<keyof WorkerReport> {
+  const handler = jobHandlers.get(job.kind);
+  if (!handler) {
+    await failJob(supabase, job.id, `No handler for ${job.kind} jobs`);
+    return 'failed';
+  }
+
+  // Claimed again after its worker died on the last allowed attempt
+  if (job.attempts > job.max_attempts) {
+    await failFinally(supabase, job, handler, job.error ?? 'The job stopped responding');
+    return 'failed';
+  }
+
+  try {
+    const outcome = await handler.run({
+      supabase,
+      job,
+      reportStage: (stage) => reportJobStage(supabase, job, stage),
+    });
+
+    if (!outcome.success) {
+      await failFinally(supabase, job, handler, outcome.error ?? 'The job failed');
+      return 'failed';
+    }
+
+    await completeJob(supabase, job.id, outcome.result ?? null);
+    return 'succeeded';
+  } catch (error) {
+    console.error(`Error in ${job.kind} job ${job.id} (attempt ${job.attempts}):`, error);
+    const reason = error instanceof Error ? error.message : 'An unexpected error occurred';
+
+    if (job.attempts < job.max_attempts) {
+      await scheduleJobRetry(supabase, job, reason);
+      return 'retried';
+    }
+
+    await failFinally(supabase, job, handler, reason);
+    return 'failed';
+  }
+}
+
+async function failFinally(supabase: SupabaseClient, job: Job, handler: JobHandler, reason: string): Promise<void> {
+  try {
+    await handler.onFailed?.({ supabase, job }, reason);
+  } catch (error) {
+    console.error(`Cleanup error for ${job.kind} job ${job.id}:`, error);
+  }
+
+  await failJob(supabase, job.id, reason);
+}
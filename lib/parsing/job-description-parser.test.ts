@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { parseJobDescription } from './job-description-parser';
+
+describe('parseJobDescription', () => {
+  it('reads labeled fields', () => {
+    const details = parseJobDescription('Job Title: Data Analyst\nCompany: Acme\nLocation: Berlin, Germany');
+
+    expect(details).toMatchObject({ title: 'Data Analyst', company: 'Acme', location: 'Berlin, Germany' });
+  });
+
+  it('splits a "Company - Location" header on its separator', () => {
+    const details = parseJobDescription('Senior Software Engineer\nAcme Corp - Toronto, ON (Hybrid)\n\nWe build tools.');
+
+    expect(details).toMatchObject({
+      title: 'Senior Software Engineer',
+      company: 'Acme Corp',
+      location: 'Toronto, ON (Hybrid)',
+    });
+  });
+
+  it('splits a "Company | Location" header on its separator', () => {
+    const details = parseJobDescription('Northwind Traders | Remote (Canada)\nProduct Designer');
+
+    expect(details).toMatchObject({ title: 'Product Designer', company: 'Northwind Traders', location: 'Remote (Canada)' });
+  });
+
+  it('does not read a title line as a company header', () => {
+    const details = parseJobDescription('Senior Engineer - Remote\nAbout Acme:\nAcme makes rockets.');
+
+    expect(details).toMatchObject({ title: 'Senior Engineer', company: 'Acme' });
+  });
+
+  it('ignores separators inside requirement bullets', () => {
+    const details = parseJobDescription('Backend Developer\nRequirements:\n- Python - remote friendly team');
+
+    expect(details.company).toBeNull();
+    expect(details.mustHave).toEqual(['Python - remote friendly team']);
+  });
+
+  it('sorts requirements into must-haves and nice-to-haves', () => {
+    const details = parseJobDescription(
+      [
+        'Data Engineer',
+        'Requirements:',
+        '- 5+ years of SQL',
+        '- Airflow experience preferred',
+        'Nice to have:',
+        '- dbt',
+      ].join('\n')
+    );
+
+    expect(details.mustHave).toEqual(['5+ years of SQL']);
+    expect(details.niceToHave).toEqual(['Airflow experience preferred', 'dbt']);
+    expect(details.yearsOfExperience).toEqual({ min: 5, max: null });
+    expect(details.seniority).toBe('senior');
+  });
+});
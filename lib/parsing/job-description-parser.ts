@@ -0,0 +1,264 @@
+/**
+ * Job Description Parser
+ * Extracts title, company, location, requirements, years of experience and seniority from pasted JD text
+ */
+
+import type { JobDescriptionDetails, SeniorityLevel } from '@/lib/types/database';
+import { isBullet, normalizeHeading, stripBullet, toLines } from './text-utils';
+
+type RequirementKind = 'mustHave' | 'niceToHave';
+
+// Headings introducing required vs preferred qualifications
+const MUST_HAVE_HEADINGS = [
+  'requirements', 'required qualifications', 'minimum qualifications', 'basic qualifications', 'qualifications',
+  'must have', 'must haves', 'must-have', 'must-haves', "what you'll need", 'what you will need', 'what you need',
+  "what we're looking for", 'what we are looking for', 'who you are', 'you have', 'about you', 'skills and experience',
+  'required skills', 'your profile', 'experience',
+];
+const NICE_TO_HAVE_HEADINGS = [
+  'nice to have', 'nice to haves', 'nice-to-have', 'nice-to-haves', 'preferred qualifications', 'preferred',
+  'preferred skills', 'bonus', 'bonus points', 'pluses', 'good to have', "it's a plus", 'extra credit', 'desired skills',
+];
+// Any other heading ends a requirements block
+const OTHER_HEADINGS = [
+  'responsibilities', 'what you will do', "what you'll do", 'the role', 'about the role', 'about us', 'about the company',
+  'benefits', 'perks', 'what we offer', 'compensation', 'how to apply', 'our team', 'the team', 'location',
+];
+
+const LABELED_FIELDS: Record<'title' | 'company' | 'location', RegExp> = {
+  title: /^(?:job title|title|position|role)\s*:\s*(.+)$/i,
+  company: /^(?:company|employer|organization|organisation)\s*:\s*(.+)$/i,
+  location: /^(?:location|based in|office)\s*:\s*(.+)$/i,
+};
+
+const ROLE_WORDS = /\b(engineer|developer|manager|designer|analyst|specialist|director|lead|consultant|scientist|architect|coordinator|administrator|intern|associate|officer|representative|marketer|writer|strategist|recruiter|accountant|technician|head of|vp)\b/i;
+
+// "Acme Corp - Toronto, ON (Hybrid)" / "Acme Corp | Remote": a company and location header line
+const HEADER_SEPARATOR = /\s+(?:\||—|–|-|•|·)\s+/;
+const CITY_AND_REGION = /^[A-Z][\w .'-]*,\s*[A-Z]/;
+const WORK_ARRANGEMENT = /\b(remote|hybrid|on-site|onsite)\b/i;
+
+// Up to four capitalized words ("Acme", "Acme Corp.", "Northwind Traders Inc")
+const COMPANY_NAME = "([A-Z][\\w&.'-]*(?:\\s+[A-Z][\\w&.'-]*){0,3})";
+
+// Phrases that mark a single line as optional or required when it is outside a headed block
+const NICE_TO_HAVE_MARKERS = /\b(preferred|a plus|nice to have|bonus|ideally|desirable)\b/i;
+const MUST_HAVE_MARKERS = /\b(required|must|minimum|at least|proven)\b/i;
+
+const YEARS_PATTERN = /(\d{1,2})\s*\+?\s*(?:(?:-|–|to)\s*(\d{1,2})\s*)?\+?\s*years?/gi;
+
+// Checked in order, so more specific levels win
+const SENIORITY_PATTERNS: Array<[SeniorityLevel, RegExp]> = [
+  ['intern', /\b(intern|internship|co-op|apprentice)\b/i],
+  ['executive', /\b(chief|cto|ceo|cfo|cmo|vp|vice president|head of|director)\b/i],
+  ['principal', /\b(principal|staff|distinguished)\b/i],
+  ['lead', /\b(lead|team lead|engineering manager)\b/i],
+  ['senior', /\b(senior|sr\.?)\b/i],
+  ['junior', /\b(junior|jr\.?|entry[- ]level|graduate|new grad)\b/i],
+  ['mid', /\b(mid[- ]level|intermediate|ii)\b/i],
+];
+
+/**
+ * Classify a line as a requirements heading, another heading, or content
+ */
+function getHeadingKind(line: string): RequirementKind | 'other' | null {
+  const heading = normalizeHeading(line);
+  if (heading.length > 40) return null;
+  if (MUST_HAVE_HEADINGS.includes(heading)) return 'mustHave';
+  if (NICE_TO_HAVE_HEADINGS.includes(heading)) return 'niceToHave';
+  if (OTHER_HEADINGS.includes(heading)) return 'other';
+  return null;
+}
+
+/**
+ * Find an explicitly labeled field ("Location: Remote")
+ */
+function findLabeledField(lines: string[], field: keyof typeof LABELED_FIELDS): string | null {
+  for (const line of lines) {
+    const match = line.match(LABELED_FIELDS[field]);
+    if (match) return match[1].trim();
+  }
+  return null;
+}
+
+/**
+ * Guess the job title from the first lines of the posting
+ */
+function findTitle(lines: string[]): string | null {
+  const labeled = findLabeledField(lines, 'title');
+  if (labeled) return labeled;
+
+  const candidate = lines
+    .slice(0, 5)
+    .find(line => line.length <= 80 && ROLE_WORDS.test(line) && !getHeadingKind(line));
+
+  if (!candidate) return null;
+
+  // "Join Acme as a Senior Engineer": keep what follows "as a"
+  const joinPhrase = candidate.match(/^join\s+.+?\s+as\s+an?\s+(.+)$/i);
+  if (joinPhrase) return joinPhrase[1].trim();
+
+  // "Senior Engineer at Acme" / "Senior Engineer - Acme": keep the role part only
+  return candidate.split(/\s+(?:at|@|\||—|–|-)\s+/i)[0].trim();
+}
+
+/**
+ * Find a "Company - Location" header among the first lines, split on its separator
+ */
+function findCompanyHeader(lines: string[]): { company: string; location: string } | null {
+  for (const line of lines.slice(0, 5)) {
+    const parts = line.split(HEADER_SEPARATOR).map(part => part.trim());
+    if (parts.length !== 2) continue;
+
+    // "Senior Engineer - Remote" is a title line
+    const [company, location] = parts;
+    const isLocation = CITY_AND_REGION.test(location) || WORK_ARRANGEMENT.test(location);
+    if (isLocation && new RegExp(`^${COMPANY_NAME}$`).test(company) && !ROLE_WORDS.test(company)) {
+      return { company, location };
+    }
+  }
+  return null;
+}
+
+/**
+ * Guess the hiring company from labels, a header line or common phrasing
+ */
+function findCompany(lines: string[]): string | null {
+  const labeled = findLabeledField(lines, 'company') ?? findCompanyHeader(lines)?.company;
+  if (labeled) return labeled;
+
+  const patterns = [
+    new RegExp(`^About\\s+${COMPANY_NAME}\\s*:?$`),
+    new RegExp(`\\b(?:at|@)\\s+${COMPANY_NAME}`),
+    new RegExp(`\\bJoin\\s+${COMPANY_NAME}`),
+    new RegExp(`^${COMPANY_NAME}\\s+is\\s+(?:hiring|looking|seeking|a|an|the)\\b`),
+  ];
+
+  for (const pattern of patterns) {
+    for (const line of lines.slice(0, 15)) {
+      const match = line.match(pattern);
+      // "About Us" / "About the role" are headings, not company names
+      if (match && !/^(us|the|our|you|this)$/i.test(match[1].split(/\s+/)[0])) {
+        return match[1].trim();
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Find the work location, including remote/hybrid arrangements
+ */
+function findLocation(lines: string[]): string | null {
+  const labeled = findLabeledField(lines, 'location') ?? findCompanyHeader(lines)?.location;
+  if (labeled) return labeled;
+
+  for (const line of lines.slice(0, 10)) {
+    // "Acme is hiring! Remote (Canada)": keep only the fragment naming the arrangement
+    const fragment = line
+      .split(/[!.|•·—–]\s+/)
+      .find(part => WORK_ARRANGEMENT.test(part));
+    if (fragment && fragment.length <= 80) return fragment.trim();
+  }
+
+  return null;
+}
+
+/**
+ * Split requirement lines into must-have and nice-to-have lists
+ */
+function findRequirements(lines: string[]): Pick<JobDescriptionDetails, 'mustHave' | 'niceToHave'> {
+  const mustHave: string[] = [];
+  const niceToHave: string[] = [];
+  let block: RequirementKind | 'other' | null = null;
+
+  for (const line of lines) {
+    const heading = getHeadingKind(line);
+    if (heading) {
+      block = heading;
+      continue;
+    }
+
+    const requirement = stripBullet(line);
+    if (requirement.length === 0) continue;
+
+    if (block === 'mustHave' || block === 'niceToHave') {
+      // Inside a required block, an explicit "preferred" still marks the line as optional
+      const kind = block === 'mustHave' && NICE_TO_HAVE_MARKERS.test(requirement) ? 'niceToHave' : block;
+      (kind === 'mustHave' ? mustHave : niceToHave).push(requirement);
+    } else if (isBullet(line) || block === null) {
+      // Outside a headed block, classify each sentence on its own wording
+      for (const sentence of requirement.split(/(?<=[.!?])\s+/)) {
+        if (NICE_TO_HAVE_MARKERS.test(sentence)) {
+          niceToHave.push(sentence);
+        } else if (MUST_HAVE_MARKERS.test(sentence)) {
+          mustHave.push(sentence);
+        }
+      }
+    }
+  }
+
+  return { mustHave, niceToHave };
+}
+
+/**
+ * Find the years of experience asked for, preferring must-have lines
+ */
+function findYearsOfExperience(lines: string[]): JobDescriptionDetails['yearsOfExperience'] {
+  let result: JobDescriptionDetails['yearsOfExperience'] = null;
+
+  for (const line of lines) {
+    for (const match of line.matchAll(YEARS_PATTERN)) {
+      const min = Number(match[1]);
+      const max = match[2] ? Number(match[2]) : null;
+      // Keep the highest minimum: "5+ years of X, 2 years of Y" asks for 5
+      if (min > 0 && min <= 30 && (!result || min > result.min)) {
+        result = { min, max };
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Infer seniority from the title first, then from the years of experience asked for
+ */
+function findSeniority(title: string | null, years: JobDescriptionDetails['yearsOfExperience']): SeniorityLevel | null {
+  if (title) {
+    for (const [level, pattern] of SENIORITY_PATTERNS) {
+      if (pattern.test(title)) return level;
+    }
+  }
+
+  if (!years) return null;
+  if (years.min >= 8) return 'principal';
+  if (years.min >= 5) return 'senior';
+  if (years.min >= 2) return 'mid';
+  return 'junior';
+}
+
+/**
+ * Parse pasted job description text
+ * @param text - Job description as pasted by the user
+ */
+export function parseJobDescription(text: string): JobDescriptionDetails {
+  const lines = toLines(text);
+  const title = findTitle(lines);
+  const requirements = findRequirements(lines);
+
+  const requirementLines = [...requirements.mustHave, ...requirements.niceToHave];
+  const yearsOfExperience = findYearsOfExperience(requirements.mustHave.length > 0 ? requirements.mustHave : lines)
+    ?? findYearsOfExperience(requirementLines.length > 0 ? requirementLines : lines);
+
+  return {
+    title,
+    company: findCompany(lines),
+    location: findLocation(lines),
+    mustHave: requirements.mustHave,
+    niceToHave: requirements.niceToHave,
+    yearsOfExperience,
+    seniority: findSeniority(title, yearsOfExperience),
+  };
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { parseResumeStructure } from './resume-parser';
+
+const RESUME = [
+  'Jane Doe',
+  'Toronto, ON | jane@example.com | (555) 123-4567 | linkedin.com/in/janedoe',
+  '',
+  'Summary',
+  'Backend engineer with eight years of experience.',
+  '',
+  'Experience',
+  'Senior Engineer at Acme Corp, Toronto',
+  'Jan 2020 - Present',
+  '• Led the migration to Kubernetes',
+  '• Cut API latency by 40% by caching',
+  'hot paths',
+  'Developer | Initech',
+  '2016 - 2019',
+  '- Built billing services',
+  '',
+  'Education',
+  'University of Toronto',
+  'B.Sc. Computer Science, 2012 - 2016',
+  '',
+  'Skills',
+  'Languages: Python, Go, TypeScript',
+  'Docker; Kubernetes',
+  '',
+  'Certifications',
+  'AWS Certified Developer 2021',
+  '',
+  'Projects',
+  '- Open source CLI',
+].join('\n');
+
+describe('parseResumeStructure', () => {
+  const document = parseResumeStructure(RESUME);
+
+  it('reads the contact block', () => {
+    expect(document.contact).toEqual({
+      name: 'Jane Doe',
+      email: 'jane@example.com',
+      phone: '(555) 123-4567',
+      location: 'Toronto, ON',
+      links: ['linkedin.com/in/janedoe'],
+    });
+  });
+
+  it('keeps the international prefix of a phone number', () => {
+    expect(parseResumeStructure('Jane Doe\n+1 (555) 123-4567').contact.phone).toBe('+1 (555) 123-4567');
+  });
+
+  it('reads the summary', () => {
+    expect(document.summary).toBe('Backend engineer with eight years of experience.');
+  });
+
+  it('splits experience into roles with dates and bullets', () => {
+    expect(document.experience).toEqual([
+      {
+        title: 'Senior Engineer',
+        company: 'Acme Corp',
+        location: 'Toronto',
+        startDate: 'Jan 2020',
+        endDate: 'Present',
+        bullets: ['Led the migration to Kubernetes', 'Cut API latency by 40% by caching hot paths'],
+      },
+      {
+        title: 'Developer',
+        company: 'Initech',
+        location: null,
+        startDate: '2016',
+        endDate: '2019',
+        bullets: ['Built billing services'],
+      },
+    ]);
+  });
+
+  it('reads education, skills and certifications', () => {
+    expect(document.education).toEqual([
+      { institution: 'University of Toronto', degree: 'B.Sc. Computer Science', startDate: '2012', endDate: '2016', details: [] },
+    ]);
+    expect(document.skills).toEqual(['Python', 'Go', 'TypeScript', 'Docker', 'Kubernetes']);
+    expect(document.certifications).toEqual([{ name: 'AWS Certified Developer', date: '2021' }]);
+  });
+
+  it('keeps sections it does not model', () => {
+    expect(document.otherSections).toEqual([{ heading: 'Projects', lines: ['Open source CLI'] }]);
+  });
+});
@@ -0,0 +1,335 @@
+/**
+ * Resume Structure Parser
+ * Turns extracted resume text into a typed document model (contact, summary, experience, ...)
+ */
+
+import type {
+  CertificationEntry,
+  ContactInfo,
+  EducationEntry,
+  ExperienceEntry,
+  ResumeDocument,
+  ResumeSection,
+} from '@/lib/types/database';
+import { isBullet, normalizeHeading, stripBullet, toLines } from './text-utils';
+
+type SectionKind = 'summary' | 'experience' | 'education' | 'skills' | 'certifications' | 'other';
+
+// Headings mapped to the section they introduce (compared lowercase, without trailing colon)
+const SECTION_HEADINGS: Record<Exclude<SectionKind, 'other'>, string[]> = {
+  summary: ['summary', 'professional summary', 'profile', 'professional profile', 'about', 'about me', 'objective', 'career objective', 'career summary'],
+  experience: ['experience', 'work experience', 'professional experience', 'employment', 'employment history', 'work history', 'career history', 'relevant experience'],
+  education: ['education', 'academic background', 'education and training', 'academic history'],
+  skills: ['skills', 'technical skills', 'key skills', 'core skills', 'core competencies', 'competencies', 'skills and tools', 'technologies'],
+  certifications: ['certifications', 'certificates', 'licenses', 'licenses and certifications', 'licenses & certifications', 'certifications and licenses'],
+};
+
+// Headings we recognize so their content is not merged into the previous section
+const OTHER_HEADINGS = ['projects', 'personal projects', 'languages', 'interests', 'hobbies', 'volunteering', 'volunteer experience', 'awards', 'achievements', 'publications', 'references'];
+
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\.?';
+const DATE = `(?:${MONTH}\\s+\\d{4}|\\d{1,2}/\\d{4}|\\d{4})`;
+const DATE_RANGE = new RegExp(`(${DATE})\\s*(?:-|–|—|to)\\s*(${DATE}|present|current|now|today)`, 'i');
+const SINGLE_DATE = new RegExp(`\\b(${DATE})\\b`, 'i');
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/i;
+const PHONE_PATTERN = /\+?\(?\d[\d\s().-]{7,}\d/;
+const URL_PATTERN = /(?:https?:\/\/)?(?:www\.)?(?:linkedin\.com|github\.com|gitlab\.com|behance\.net|dribbble\.com)\/[^\s|,]+|https?:\/\/[^\s|,]+/gi;
+
+const DEGREE_PATTERN = /\b(bachelor|master|b\.?sc?|m\.?sc?|b\.?a|m\.?a|mba|ph\.?d|doctor|associate|diploma|degree|certificate)\b/i;
+const INSTITUTION_PATTERN = /\b(university|college|institute|school|academy|polytechnic|université|école)\b/i;
+
+// Separators between title and company on a single line ("Engineer at Acme", "Engineer | Acme")
+const TITLE_COMPANY_SEPARATOR = /\s+(?:at|@|\||—|–|-)\s+|,\s+/i;
+
+// Long sentences without a bullet glyph are usually bullets whose glyph was lost in extraction
+const MIN_IMPLICIT_BULLET_LENGTH = 80;
+
+/**
+ * Identify which section a line introduces, if it is a heading
+ */
+function getSectionKind(line: string): SectionKind | null {
+  const normalized = normalizeHeading(line);
+  if (normalized.length === 0 || normalized.length > 40) return null;
+
+  for (const [kind, headings] of Object.entries(SECTION_HEADINGS)) {
+    if (headings.includes(normalized)) return kind as SectionKind;
+  }
+
+  return OTHER_HEADINGS.includes(normalized) ? 'other' : null;
+}
+
+/**
+ * Remove a date range from a line and return both parts
+ */
+function extractDateRange(line: string): { rest: string; startDate: string | null; endDate: string | null } {
+  const range = line.match(DATE_RANGE);
+  if (range) {
+    return {
+      rest: cleanFragment(line.replace(range[0], '')),
+      startDate: range[1],
+      endDate: range[2],
+    };
+  }
+
+  const single = line.match(SINGLE_DATE);
+  if (single) {
+    return {
+      rest: cleanFragment(line.replace(single[0], '')),
+      startDate: null,
+      endDate: single[1],
+    };
+  }
+
+  return { rest: line, startDate: null, endDate: null };
+}
+
+/**
+ * Trim separators left behind after removing part of a line
+ */
+function cleanFragment(text: string): string {
+  return text.replace(/\(\s*\)/g, '').replace(/^[\s|,–—-]+|[\s|,–—-]+$/g, '').trim();
+}
+
+/**
+ * Split the document into the header block and its sections
+ */
+function splitSections(lines: string[]): { header: string[]; sections: Array<{ kind: SectionKind; heading: string; lines: string[] }> } {
+  const header: string[] = [];
+  const sections: Array<{ kind: SectionKind; heading: string; lines: string[] }> = [];
+
+  for (const line of lines) {
+    const kind = getSectionKind(line);
+    if (kind) {
+      sections.push({ kind, heading: line.replace(/:$/, '').trim(), lines: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].lines.push(line);
+    } else {
+      header.push(line);
+    }
+  }
+
+  return { header, sections };
+}
+
+/**
+ * Parse the contact block at the top of the resume
+ */
+function parseContact(header: string[]): ContactInfo {
+  const joined = header.join('\n');
+  const links = [...new Set(joined.match(URL_PATTERN) ?? [])];
+
+  const contact: ContactInfo = {
+    name: null,
+    email: joined.match(EMAIL_PATTERN)?.[0] ?? null,
+    phone: joined.match(PHONE_PATTERN)?.[0]?.trim() ?? null,
+    location: null,
+    links,
+  };
+
+  for (const line of header) {
+    // Contact lines are often "a | b | c", so look at each fragment separately
+    for (const fragment of line.split(/\s*[|•·]\s*/)) {
+      const isContactDetail = EMAIL_PATTERN.test(fragment) || PHONE_PATTERN.test(fragment) || links.some(link => fragment.includes(link));
+      if (isContactDetail || fragment.length === 0) continue;
+
+      if (!contact.name && /^[\p{L}' .-]{2,60}$/u.test(fragment)) {
+        contact.name = fragment;
+      } else if (!contact.location && /^[\p{L} .'-]+,\s*[\p{L} .'-]+$/u.test(fragment)) {
+        contact.location = fragment;
+      }
+    }
+  }
+
+  return contact;
+}
+
+/**
+ * Parse the experience section into roles with their bullets
+ */
+function parseExperience(lines: string[]): ExperienceEntry[] {
+  const entries: ExperienceEntry[] = [];
+  let current: ExperienceEntry | null = null;
+  let headerLines = 0;
+
+  const startEntry = (): ExperienceEntry => {
+    const entry: ExperienceEntry = { title: null, company: null, location: null, startDate: null, endDate: null, bullets: [] };
+    entries.push(entry);
+    headerLines = 0;
+    return entry;
+  };
+
+  for (const line of lines) {
+    const explicitBullet = isBullet(line);
+    const implicitBullet = !explicitBullet && current !== null && current.title !== null
+      && line.length >= MIN_IMPLICIT_BULLET_LENGTH && !DATE_RANGE.test(line);
+
+    if (explicitBullet || implicitBullet) {
+      current ??= startEntry();
+      current.bullets.push(explicitBullet ? stripBullet(line) : line);
+      continue;
+    }
+
+    // A lowercase line right after a bullet continues the wrapped bullet
+    if (current && current.bullets.length > 0 && /^[a-z(]/.test(line)) {
+      current.bullets[current.bullets.length - 1] += ` ${line}`;
+      continue;
+    }
+
+    // A header line after bullets (or a second date range) starts the next role
+    const hasDates = DATE_RANGE.test(line);
+    if (!current || current.bullets.length > 0 || (hasDates && current.startDate !== null)) {
+      current = startEntry();
+    }
+
+    const { rest, startDate, endDate } = extractDateRange(line);
+    if (startDate || endDate) {
+      current.startDate ??= startDate;
+      current.endDate ??= endDate;
+    }
+    if (rest.length === 0) continue;
+
+    headerLines++;
+    if (current.title === null) {
+      const [title, ...others] = rest.split(TITLE_COMPANY_SEPARATOR).map(cleanFragment).filter(Boolean);
+      current.title = title ?? null;
+      if (others.length > 0) {
+        current.company = others[0];
+        current.location = others.slice(1).join(', ') || null;
+      }
+    } else if (current.company === null) {
+      const [company, ...location] = rest.split(/\s*[|•]\s*|,\s+/).map(cleanFragment).filter(Boolean);
+      current.company = company ?? null;
+      current.location = location.join(', ') || null;
+    } else if (current.location === null && headerLines <= 3) {
+      current.location = rest;
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the education section into institutions and degrees
+ */
+function parseEducation(lines: string[]): EducationEntry[] {
+  const entries: EducationEntry[] = [];
+  let current: EducationEntry | null = null;
+
+  for (const rawLine of lines) {
+    const line = stripBullet(rawLine);
+    const { rest, startDate, endDate } = extractDateRange(line);
+    const isInstitution = INSTITUTION_PATTERN.test(rest);
+    const isDegree = DEGREE_PATTERN.test(rest);
+
+    // Start a new entry when the field this line would fill is already taken
+    if (!current || (isInstitution && current.institution) || (isDegree && !isInstitution && current.degree)) {
+      current = { institution: null, degree: null, startDate: null, endDate: null, details: [] };
+      entries.push(current);
+    }
+
+    if (startDate || endDate) {
+      current.startDate ??= startDate;
+      current.endDate ??= endDate;
+    }
+
+    if (rest.length === 0) continue;
+
+    if (isInstitution && !current.institution) {
+      current.institution = rest;
+    } else if (isDegree && !current.degree) {
+      current.degree = rest;
+    } else {
+      current.details.push(rest);
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Parse the skills section into a flat, de-duplicated list
+ */
+function parseSkills(lines: string[]): string[] {
+  const skills = lines
+    .map(stripBullet)
+    // Drop category labels such as "Languages: ..."
+    .map(line => line.replace(/^[^:]{1,30}:\s*/, ''))
+    .flatMap(line => line.split(/\s*[,;|•·]\s*/))
+    .map(skill => skill.trim().replace(/\.$/, ''))
+    .filter(skill => skill.length > 0 && skill.length <= 50);
+
+  return [...new Map(skills.map(skill => [skill.toLowerCase(), skill])).values()];
+}
+
+/**
+ * Parse the certifications section
+ */
+function parseCertifications(lines: string[]): CertificationEntry[] {
+  return lines
+    .map(stripBullet)
+    .filter(line => line.length > 0)
+    .map(line => {
+      const { rest, endDate } = extractDateRange(line);
+      return { name: rest || line, date: endDate };
+    });
+}
+
+/**
+ * Whether a line is a section heading the parser recognizes ("Experience", "Skills:", ...)
+ */
+export function isSectionHeading(line: string): boolean {
+  return getSectionKind(line.trim()) !== null;
+}
+
+/**
+ * Parse extracted resume text into a structured document
+ * @param text - Text produced by a parser from the text extraction registry
+ */
+export function parseResumeStructure(text: string): ResumeDocument {
+  const lines = toLines(text);
+
+  const { header, sections } = splitSections(lines);
+
+  const document: ResumeDocument = {
+    contact: parseContact(header),
+    summary: null,
+    experience: [],
+    education: [],
+    skills: [],
+    certifications: [],
+    otherSections: [],
+  };
+
+  for (const section of sections) {
+    switch (section.kind) {
+      case 'summary':
+        document.summary = [document.summary, section.lines.join(' ')].filter(Boolean).join(' ') || null;
+        break;
+      case 'experience':
+        document.experience.push(...parseExperience(section.lines));
+        break;
+      case 'education':
+        document.education.push(...parseEducation(section.lines));
+        break;
+      case 'skills':
+        document.skills.push(...parseSkills(section.lines));
+        break;
+      case 'certifications':
+        document.certifications.push(...parseCertifications(section.lines));
+        break;
+      default: {
+        const other: ResumeSection = { heading: section.heading, lines: section.lines.map(stripBullet) };
+        document.otherSections.push(other);
+      }
+    }
+  }
+
+  // Resumes without a summary heading often open with a short paragraph after the contact block
+  if (!document.summary) {
+    const paragraph = header.filter(line => line.length >= MIN_IMPLICIT_BULLET_LENGTH);
+    document.summary = paragraph.length > 0 ? paragraph.join(' ') : null;
+  }
+
+  return document;
+}
@@ -0,0 +1,35 @@
+/**
+ * Shared Text Helpers for Parsers
+ * Line splitting and bullet handling used by the resume and job description parsers
+ */
+
+// Bullet glyphs, dashes and "1." / "1)" list markers at the start of a line
+const BULLET_PREFIX = /^(?:[•·▪▫■□◆◇○◦●►▶▸➢➤✓✔*+-]|\d{1,2}[.)])\s+/;
+
+// Page markers pdf-parse appends to each page ("-- 1 of 2 --")
+const PAGE_MARKER = /^--\s*\d+\s+of\s+\d+\s*--$/;
+
+/**
+ * Split text into trimmed, non-empty lines, dropping PDF page markers
+ */
+export function toLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(line => line.length > 0 && !PAGE_MARKER.test(line));
+}
+
+export function isBullet(line: string): boolean {
+  return BULLET_PREFIX.test(line);
+}
+
+export function stripBullet(line: string): string {
+  return line.replace(BULLET_PREFIX, '').trim();
+}
+
+/**
+ * Normalize a potential section heading for lookups ("Requirements:" -> "requirements")
+ */
+export function normalizeHeading(line: string): string {
+  return line.toLowerCase().replace(/[:\s]+$/, '').replace(/\s+/g, ' ').trim();
+}
@@ -0,0 +1,38 @@
+/**
+ * Scoring Engine Registry
+ * Resolves the ATS scoring engine by name so implementations can be swapped via configuration
+ */
+
+import { createKeywordScoringEngine } from './keyword-engine';
+import { createLLMScoringEngine } from './llm-engine';
+import type { ScoringEngine } from './types';
+
+export type { RequirementLevel, ScoringEngine, ScoringInput, ScoringResult, SkillMatch } from './types';
+
+const DEFAULT_ENGINE = 'keyword';
+
+const engineFactories = new Map<string, () => ScoringEngine>([
+  ['keyword', createKeywordScoringEngine],
+  ['llm', createLLMScoringEngine],
+]);
+
+/**
+ * Register an additional scoring engine
+ */
+export function registerScoringEngine(name: string, factory: () => ScoringEngine): void {
+  engineFactories.set(name, factory);
+}
+
+/**
+ * Get a scoring engine by name
+ * Defaults to the SCORING_ENGINE environment variable, then to the keyword engine
+ */
+export function getScoringEngine(name: string = process.env.SCORING_ENGINE || DEFAULT_ENGINE): ScoringEngine {
+  const factory = engineFactories.get(name);
+
+  if (!factory) {
+    throw new Error(`Unknown scoring engine: ${name}`);
+  }
+
+  return factory();
+}
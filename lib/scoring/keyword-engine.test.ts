@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { parseJobDescription } from '@/lib/parsing/job-description-parser';
+import { scoreByKeywords } from './keyword-engine';
+
+describe('scoreByKeywords', () => {
+  it('scores a resume covering every skill and keyword at 100', () => {
+    const result = scoreByKeywords({
+      resumeText: 'React and TypeScript developer building dashboards',
+      jobDescription: 'React TypeScript dashboards',
+    });
+
+    expect(result.matchScore).toBe(100);
+    expect(result.missingKeywords).toEqual([]);
+    expect(result.matchedKeywords).toEqual(['React', 'TypeScript', 'dashboards']);
+  });
+
+  it('scores a resume with nothing in common at 0', () => {
+    const result = scoreByKeywords({
+      resumeText: 'Pastry chef',
+      jobDescription: 'Kubernetes Terraform',
+    });
+
+    expect(result.matchScore).toBe(0);
+    expect(result.missingKeywords).toEqual(['Kubernetes', 'Terraform']);
+  });
+
+  it('weighs hard skills double soft skills', () => {
+    const jobDescription = 'Python and communication';
+
+    const hardOnly = scoreByKeywords({ resumeText: 'Python', jobDescription });
+    const softOnly = scoreByKeywords({ resumeText: 'Communication', jobDescription });
+
+    // Hard 2 of 3, soft 1 of 3
+    expect(hardOnly.matchScore).toBe(67);
+    expect(softOnly.matchScore).toBe(33);
+  });
+
+  it('weighs must-haves above nice-to-haves', () => {
+    const jobDescription = 'Python and Docker';
+    const requirements = { mustHave: ['Python'], niceToHave: ['Docker'] };
+
+    const mustHaveOnly = scoreByKeywords({ resumeText: 'Python', jobDescription, requirements });
+    const niceToHaveOnly = scoreByKeywords({ resumeText: 'Docker', jobDescription, requirements });
+
+    // Must-have 4 of 5, nice-to-have 1 of 5
+    expect(mustHaveOnly.matchScore).toBe(80);
+    expect(niceToHaveOnly.matchScore).toBe(20);
+  });
+
+  it('ranks missing must-haves first, nice-to-haves last and hard skills before soft skills', () => {
+    const result = scoreByKeywords({
+      resumeText: 'Pastry chef',
+      jobDescription: 'Leadership, Kafka, Rust, SQL and Docker',
+      requirements: { mustHave: ['Rust', 'Leadership'], niceToHave: ['Docker'] },
+    });
+
+    expect(result.missingSkills.map(match => [match.skill, match.requirement])).toEqual([
+      ['Rust', 'must_have'],
+      ['Leadership', 'must_have'],
+      ['Kafka', null],
+      ['SQL', null],
+      ['Docker', 'nice_to_have'],
+    ]);
+    expect(result.missingKeywords).toEqual(['Rust', 'Leadership', 'Kafka', 'SQL', 'Docker']);
+  });
+
+  it('takes keywords from the requirements, not the company, location or benefits', () => {
+    const jobDescription = [
+      'Senior Backend Engineer',
+      'Acme Robotics - San Francisco, CA (Hybrid)',
+      '',
+      'About us',
+      "Acme Robotics makes warehouse robots. You'll join a small crew shipping to customers weekly.",
+      '',
+      'Requirements',
+      '- 5+ years building backend services in Python',
+      '- Familiarity with Kafka and PostgreSQL',
+      '',
+      'What we offer',
+      '- 401k matching, health insurance and a learning stipend',
+    ].join('\n');
+    const { mustHave, niceToHave } = parseJobDescription(jobDescription);
+
+    const result = scoreByKeywords({
+      resumeText: 'Python developer running backend services on PostgreSQL',
+      jobDescription,
+      requirements: { mustHave, niceToHave },
+    });
+
+    expect(result.missingKeywords).toEqual(['Kafka']);
+  });
+
+  it('does not report everyday words, numbers, benefits or headings as missing', () => {
+    const result = scoreByKeywords({
+      resumeText: 'Built services in Python',
+      jobDescription: [
+        "You'll build fast services. We go fast and rest well.",
+        'Requirements:',
+        '- 5+ years of Python',
+        '- Familiarity with Kafka',
+        'Nice to have: 401k matching and health insurance',
+      ].join('\n'),
+    });
+
+    expect(result.missingKeywords).toEqual(['Kafka']);
+  });
+
+  it('matches an acronym in the resume to the spelled-out skill', () => {
+    const result = scoreByKeywords({ resumeText: 'Designed REST services', jobDescription: 'REST APIs' });
+
+    expect(result.matchScore).toBe(100);
+    expect(result.missingKeywords).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Keyword Scoring Engine
+ * Deterministic, offline ATS scorer based on dictionary skills and keyword overlap
+ */
+
+import { extractKeywords, tokenize } from '@/lib/utils/keyword-matcher';
+import { extractSkills, getSkillPhrases } from './skill-extractor';
+import type { RequirementLevel, ScoringEngine, ScoringInput, ScoringResult, SkillCategory, SkillMatch } from './types';
+
+// Hard skills are what ATS filters key on, so they count double
+const CATEGORY_WEIGHTS: Record<SkillCategory, number> = {
+  hard: 2,
+  soft: 1,
+};
+
+// Missing a must-have hurts more than missing a nice-to-have
+const REQUIREMENT_WEIGHTS: Record<RequirementLevel, number> = {
+  must_have: 2,
+  nice_to_have: 0.5,
+};
+
+// Share of the final score driven by dictionary skills (the rest is generic keyword overlap)
+const SKILL_SCORE_WEIGHT = 0.8;
+
+// Upper bound on keywords reported back as missing
+const MAX_MISSING_KEYWORDS = 20;
+
+/**
+ * Score a resume against a job description without any network call
+ */
+export function scoreByKeywords({ resumeText, jobDescription, requirements }: ScoringInput): ScoringResult {
+  const jobSkills = extractSkills(jobDescription);
+  const resumeSkills = extractSkills(resumeText);
+  const mustHaveSkills = extractSkills(requirements?.mustHave.join('\n') ?? '');
+  const niceToHaveSkills = extractSkills(requirements?.niceToHave.join('\n') ?? '');
+
+  // 1. Dictionary skills, weighted by category and requirement level
+  const matchedSkills: SkillMatch[] = [];
+  const missingSkills: SkillMatch[] = [];
+  let totalWeight = 0;
+  let matchedWeight = 0;
+
+  for (const { skill } of jobSkills.values()) {
+    const requirement: RequirementLevel | null = mustHaveSkills.has(skill.name)
+      ? 'must_have'
+      : niceToHaveSkills.has(skill.name) ? 'nice_to_have' : null;
+    const weight = CATEGORY_WEIGHTS[skill.category] * (requirement ? REQUIREMENT_WEIGHTS[requirement] : 1);
+    const match: SkillMatch = { skill: skill.name, category: skill.category, requirement };
+    totalWeight += weight;
+
+    if (resumeSkills.has(skill.name)) {
+      matchedWeight += weight;
+      matchedSkills.push(match);
+    } else {
+      missingSkills.push(match);
+    }
+  }
+
+  // Must-haves first, then unclassified, then nice-to-haves; hard skills before soft within each group
+  const requirementRank = (match: SkillMatch) =>
+    match.requirement === 'must_have' ? 0 : match.requirement === 'nice_to_have' ? 2 : 1;
+  missingSkills.sort((a, b) =>
+    requirementRank(a) - requirementRank(b) || CATEGORY_WEIGHTS[b.category] - CATEGORY_WEIGHTS[a.category]
+  );
+
+  // 2. Generic keywords not already covered by a dictionary skill
+  const skillTokens = new Set(
+    [...jobSkills.values()].flatMap(({ skill }) => getSkillPhrases(skill).flatMap(phrase => phrase.split(' ')))
+  );
+  // Requirement lines, when parsed, keep the company blurb, location and benefits out of the keywords
+  const requirementText = [...(requirements?.mustHave ?? []), ...(requirements?.niceToHave ?? [])].join('\n');
+  const jobKeywords = extractKeywords(requirementText || jobDescription).filter(keyword => !skillTokens.has(keyword));
+  const resumeTokens = new Set(tokenize(resumeText));
+
+  const matchedKeywords = jobKeywords.filter(keyword => resumeTokens.has(keyword));
+  const missingGenericKeywords = jobKeywords.filter(keyword => !resumeTokens.has(keyword));
+
+  // 3. Blend both coverages into a 0-100 score
+  const skillCoverage = totalWeight > 0 ? matchedWeight / totalWeight : null;
+  const keywordCoverage = jobKeywords.length > 0 ? matchedKeywords.length / jobKeywords.length : null;
+
+  let coverage = 0;
+  if (skillCoverage !== null && keywordCoverage !== null) {
+    coverage = skillCoverage * SKILL_SCORE_WEIGHT + keywordCoverage * (1 - SKILL_SCORE_WEIGHT);
+  } else {
+    coverage = skillCoverage ?? keywordCoverage ?? 0;
+  }
+
+  // Missing skills in priority order, then generic keywords
+  const missingKeywords = [
+    ...missingSkills.map(match => match.skill),
+    ...missingGenericKeywords,
+  ].slice(0, MAX_MISSING_KEYWORDS);
+
+  return {
+    matchScore: Math.round(coverage * 100),
+    missingKeywords,
+    matchedKeywords: [...matchedSkills.map(match => match.skill), ...matchedKeywords],
+    matchedSkills,
+    missingSkills,
+  };
+}
+
+/**
+ * Create the keyword-based scoring engine
+ */
+export function createKeywordScoringEngine(): ScoringEngine {
+  return {
+    name: 'keyword',
+    async score(input: ScoringInput) {
+      return scoreByKeywords(input);
+    },
+  };
+}
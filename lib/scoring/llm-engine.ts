@@ -0,0 +1,28 @@
+/**
+ * LLM Scoring Engine
+ * Adapts the configured AI provider to the ScoringEngine interface
+ */
+
+import { getAIProvider } from '@/lib/ai';
+import type { ScoringEngine } from './types';
+
+/**
+ * Create a scoring engine that delegates to the AI provider's "score" call
+ * The model does not report skill categories, so skill breakdowns are left empty
+ */
+export function createLLMScoringEngine(): ScoringEngine {
+  return {
+    name: 'llm',
+    async score(input) {
+      const result = await getAIProvider().score(input);
+
+      return {
+        matchScore: result.matchScore,
+        missingKeywords: result.missingKeywords,
+        matchedKeywords: [],
+        matchedSkills: [],
+        missingSkills: [],
+      };
+    },
+  };
+}
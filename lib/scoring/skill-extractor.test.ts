@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { extractSkills, normalizeTokens } from './skill-extractor';
+
+const skillNames = (text: string) => [...extractSkills(text).keys()].sort();
+
+describe('normalizeTokens', () => {
+  it('splits on separators and keeps tech punctuation', () => {
+    expect(normalizeTokens('CI/CD, C++ and C# on .NET.')).toEqual(['ci', 'cd', 'c++', 'and', 'c#', 'on', '.net']);
+  });
+});
+
+describe('extractSkills', () => {
+  it('resolves synonyms to canonical names', () => {
+    expect(skillNames('Built services in golang and ReactJS on k8s')).toEqual(['Go', 'Kubernetes', 'React']);
+  });
+
+  it('counts every mention', () => {
+    expect(extractSkills('Python scripts, python3 tooling and more Python').get('Python')?.count).toBe(3);
+  });
+
+  it('prefers the longest phrase', () => {
+    expect(skillNames('Spring Boot services')).toEqual(['Spring']);
+    expect(skillNames('Google Cloud Platform')).toEqual(['Google Cloud']);
+  });
+
+  it('ignores everyday words that are also skill names or abbreviations', () => {
+    expect(skillNames('We go fast and rest well. She led the node rollout from the shell.')).toEqual([]);
+    expect(skillNames('Containers ship with stakeholders, ts and py files, and full ownership')).toEqual([]);
+    expect(skillNames('Express your ideas; lambda calculus is a plus')).toEqual([]);
+  });
+
+  it('still matches the unambiguous spellings of those skills', () => {
+    expect(skillNames('Go language, Express.js, RESTful APIs, Node.js, shell scripting and AWS Lambda')).toEqual([
+      'Bash', 'Express', 'Go', 'Node.js', 'REST APIs', 'Serverless',
+    ]);
+  });
+
+  it('matches acronyms only in their exact case', () => {
+    expect(skillNames('Designed REST services')).toEqual(['REST APIs']);
+    expect(skillNames('Rest assured, we rest well')).toEqual([]);
+  });
+});
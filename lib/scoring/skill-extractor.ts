@@ -0,0 +1,109 @@
+/**
+ * Skill Extraction
+ * Finds dictionary skills in free text, resolving synonyms to canonical names
+ */
+
+import { SKILLS, type SkillDefinition } from './skills-dictionary';
+
+/**
+ * Normalize text into lowercase tokens for phrase lookups
+ * Separators such as "/", "-" and whitespace all split tokens, so "CI/CD" and "ci cd" match
+ */
+export function normalizeTokens(text: string): string[] {
+  return splitTokens(text).map(token => token.toLowerCase());
+}
+
+/**
+ * Tokens in their original case, split the same way as normalizeTokens
+ */
+function splitTokens(text: string): string[] {
+  return (text.match(/[a-z0-9+#.]+/gi) ?? [])
+    // Drop sentence punctuation captured at the end of a token (keeps leading dots, e.g. ".net")
+    .map(token => token.replace(/\.+$/, ''))
+    .filter(token => token.length > 0);
+}
+
+type SkillIndex = {
+  phrases: Map<string, SkillDefinition>;
+  acronyms: Map<string, SkillDefinition>; // Exact-case single tokens
+  maxPhraseLength: number;
+};
+
+let skillIndex: SkillIndex | null = null;
+
+/**
+ * Build (once) a lookup from every normalized name and synonym to its skill
+ */
+function getSkillIndex(): SkillIndex {
+  if (skillIndex) return skillIndex;
+
+  const phrases = new Map<string, SkillDefinition>();
+  const acronyms = new Map<string, SkillDefinition>();
+  let maxPhraseLength = 1;
+
+  for (const skill of SKILLS) {
+    for (const phrase of getSkillPhrases(skill)) {
+      if (phrase.length === 0) continue;
+
+      // First definition wins so canonical names are never shadowed by a later synonym
+      if (!phrases.has(phrase)) {
+        phrases.set(phrase, skill);
+      }
+      maxPhraseLength = Math.max(maxPhraseLength, phrase.split(' ').length);
+    }
+
+    for (const acronym of skill.acronyms ?? []) {
+      acronyms.set(acronym, skill);
+    }
+  }
+
+  skillIndex = { phrases, acronyms, maxPhraseLength };
+  return skillIndex;
+}
+
+/**
+ * Find all dictionary skills mentioned in a text
+ * Longer phrases are matched first so "spring boot" is not also counted as a bare "spring"
+ * @returns Matched skills keyed by canonical name, with the number of mentions
+ */
+export function extractSkills(text: string): Map<string, { skill: SkillDefinition; count: number }> {
+  const { phrases, acronyms, maxPhraseLength } = getSkillIndex();
+  const originalTokens = splitTokens(text);
+  const tokens = originalTokens.map(token => token.toLowerCase());
+  const found = new Map<string, { skill: SkillDefinition; count: number }>();
+
+  let i = 0;
+  while (i < tokens.length) {
+    let matchedLength = 0;
+
+    for (let length = Math.min(maxPhraseLength, tokens.length - i); length > 0; length--) {
+      const phrase = tokens.slice(i, i + length).join(' ');
+      const skill = phrases.get(phrase) ?? (length === 1 ? acronyms.get(originalTokens[i]) : undefined);
+      if (skill) {
+        const entry = found.get(skill.name);
+        found.set(skill.name, { skill, count: (entry?.count ?? 0) + 1 });
+        matchedLength = length;
+        break;
+      }
+    }
+
+    i += matchedLength || 1;
+  }
+
+  return found;
+}
+
+/**
+ * Whether a keyword is the canonical name of a dictionary skill
+ */
+export function isSkillName(keyword: string): boolean {
+  return SKILLS.some(skill => skill.name === keyword);
+}
+
+/**
+ * All normalized phrases that refer to the given skill: the name, unless it is ambiguous, and the synonyms
+ */
+export function getSkillPhrases(skill: SkillDefinition): string[] {
+  const terms = skill.ambiguousName ? skill.synonyms : [skill.name, ...skill.synonyms];
+  return terms.map(term => normalizeTokens(term).join(' '));
+}
@@ -0,0 +1,147 @@
+/**
+ * Skills Dictionary
+ * Bundled list of hard and soft skills with the synonyms ATS parsers commonly equate
+ */
+
+import type { SkillCategory } from './types';
+
+export type SkillDefinition = {
+  name: string; // Canonical name reported to the user
+  category: SkillCategory;
+  synonyms: string[]; // Alternative spellings, abbreviations and aliases
+  ambiguousName?: boolean; // The bare name is an everyday word ("go"), so only the synonyms are matched
+  acronyms?: string[]; // Single words matched only in this exact case ("REST"), since lowercase they are everyday words
+};
+
+// Synonyms must not be everyday words or short tokens ("rest", "led", "ts"): each one counts as the skill
+// wherever it appears, so a job description saying "we rest well" would ask for REST APIs. Spell such
+// words as acronyms instead.
+
+export const SKILLS: SkillDefinition[] = [
+  // Programming languages
+  { name: 'JavaScript', category: 'hard', synonyms: ['js', 'ecmascript', 'es6', 'es2015'] },
+  { name: 'TypeScript', category: 'hard', synonyms: [] },
+  { name: 'Python', category: 'hard', synonyms: ['python3'] },
+  { name: 'Java', category: 'hard', synonyms: ['java se', 'java ee', 'j2ee'] },
+  { name: 'C++', category: 'hard', synonyms: ['cpp', 'c plus plus'] },
+  { name: 'C#', category: 'hard', synonyms: ['csharp', 'c sharp'] },
+  { name: 'Go', category: 'hard', synonyms: ['golang', 'go lang', 'go language', 'go programming'], ambiguousName: true },
+  { name: 'Rust', category: 'hard', synonyms: [] },
+  { name: 'Ruby', category: 'hard', synonyms: [] },
+  { name: 'PHP', category: 'hard', synonyms: [] },
+  { name: 'Kotlin', category: 'hard', synonyms: [] },
+  { name: 'Swift', category: 'hard', synonyms: [] },
+  { name: 'Scala', category: 'hard', synonyms: [] },
+  { name: 'SQL', category: 'hard', synonyms: ['structured query language', 't-sql', 'tsql', 'pl/sql', 'plsql'] },
+  { name: 'HTML', category: 'hard', synonyms: ['html5'] },
+  { name: 'CSS', category: 'hard', synonyms: ['css3', 'sass', 'scss'] },
+  { name: 'Bash', category: 'hard', synonyms: ['shell scripting', 'shell scripts'] },
+
+  // Frameworks and libraries
+  { name: 'React', category: 'hard', synonyms: ['react.js', 'reactjs'] },
+  { name: 'Next.js', category: 'hard', synonyms: ['nextjs', 'next js'] },
+  { name: 'Vue.js', category: 'hard', synonyms: ['vue', 'vuejs'] },
+  { name: 'Angular', category: 'hard', synonyms: ['angularjs', 'angular.js'] },
+  { name: 'Svelte', category: 'hard', synonyms: ['sveltekit'] },
+  { name: 'Node.js', category: 'hard', synonyms: ['nodejs', 'node js'] },
+  { name: 'Express', category: 'hard', synonyms: ['express.js', 'expressjs'], ambiguousName: true },
+  { name: 'Django', category: 'hard', synonyms: [] },
+  { name: 'Flask', category: 'hard', synonyms: [] },
+  { name: 'FastAPI', category: 'hard', synonyms: [] },
+  { name: 'Spring', category: 'hard', synonyms: ['spring boot', 'springboot'] },
+  { name: '.NET', category: 'hard', synonyms: ['dotnet', 'asp.net', 'net core'] },
+  { name: 'Ruby on Rails', category: 'hard', synonyms: ['rails', 'ror'] },
+  { name: 'Tailwind CSS', category: 'hard', synonyms: ['tailwind', 'tailwindcss'] },
+  { name: 'GraphQL', category: 'hard', synonyms: ['gql'] },
+  { name: 'REST APIs', category: 'hard', synonyms: ['restful', 'rest api', 'rest apis', 'restful api', 'restful apis'], acronyms: ['REST'] },
+  { name: 'Redux', category: 'hard', synonyms: [] },
+  { name: 'jQuery', category: 'hard', synonyms: [] },
+  { name: 'TensorFlow', category: 'hard', synonyms: [] },
+  { name: 'PyTorch', category: 'hard', synonyms: [] },
+  { name: 'pandas', category: 'hard', synonyms: [] },
+  { name: 'NumPy', category: 'hard', synonyms: [] },
+  { name: 'scikit-learn', category: 'hard', synonyms: ['sklearn', 'scikit learn'] },
+
+  // Data and storage
+  { name: 'PostgreSQL', category: 'hard', synonyms: ['postgres', 'psql'] },
+  { name: 'MySQL', category: 'hard', synonyms: [] },
+  { name: 'MongoDB', category: 'hard', synonyms: ['mongo'] },
+  { name: 'Redis', category: 'hard', synonyms: [] },
+  { name: 'Elasticsearch', category: 'hard', synonyms: ['elastic search', 'elk'] },
+  { name: 'Kafka', category: 'hard', synonyms: ['apache kafka'] },
+  { name: 'Spark', category: 'hard', synonyms: ['apache spark', 'pyspark'] },
+  { name: 'Snowflake', category: 'hard', synonyms: [] },
+  { name: 'Supabase', category: 'hard', synonyms: [] },
+  { name: 'Firebase', category: 'hard', synonyms: [] },
+  { name: 'Data Analysis', category: 'hard', synonyms: ['data analytics', 'analytics'] },
+  { name: 'Machine Learning', category: 'hard', synonyms: ['ml'] },
+  { name: 'Artificial Intelligence', category: 'hard', synonyms: ['ai'] },
+  { name: 'Deep Learning', category: 'hard', synonyms: ['dl', 'neural networks'] },
+  { name: 'Natural Language Processing', category: 'hard', synonyms: ['nlp'] },
+  { name: 'ETL', category: 'hard', synonyms: ['data pipelines', 'data pipeline'] },
+  { name: 'Tableau', category: 'hard', synonyms: [] },
+  { name: 'Power BI', category: 'hard', synonyms: ['powerbi'] },
+  { name: 'Excel', category: 'hard', synonyms: ['microsoft excel', 'ms excel', 'spreadsheets'] },
+
+  // Cloud and infrastructure
+  { name: 'AWS', category: 'hard', synonyms: ['amazon web services'] },
+  { name: 'Azure', category: 'hard', synonyms: ['microsoft azure'] },
+  { name: 'Google Cloud', category: 'hard', synonyms: ['gcp', 'google cloud platform'] },
+  { name: 'Docker', category: 'hard', synonyms: ['containerization'] },
+  { name: 'Kubernetes', category: 'hard', synonyms: ['k8s', 'kube'] },
+  { name: 'Terraform', category: 'hard', synonyms: ['infrastructure as code', 'iac'] },
+  { name: 'Ansible', category: 'hard', synonyms: [] },
+  { name: 'CI/CD', category: 'hard', synonyms: ['ci cd', 'continuous integration', 'continuous delivery', 'continuous deployment'] },
+  { name: 'GitHub Actions', category: 'hard', synonyms: [] },
+  { name: 'Jenkins', category: 'hard', synonyms: [] },
+  { name: 'Git', category: 'hard', synonyms: ['github', 'gitlab', 'version control'] },
+  { name: 'Linux', category: 'hard', synonyms: ['unix'] },
+  { name: 'Microservices', category: 'hard', synonyms: ['microservice', 'micro services'] },
+  { name: 'Serverless', category: 'hard', synonyms: ['aws lambda'] },
+
+  // Practices
+  { name: 'Agile', category: 'hard', synonyms: ['agile methodology', 'agile methodologies'] },
+  { name: 'Scrum', category: 'hard', synonyms: ['scrum master'] },
+  { name: 'Kanban', category: 'hard', synonyms: [] },
+  { name: 'Test-Driven Development', category: 'hard', synonyms: ['tdd'] },
+  { name: 'Unit Testing', category: 'hard', synonyms: ['unit tests', 'jest', 'vitest', 'pytest', 'junit'] },
+  { name: 'DevOps', category: 'hard', synonyms: [] },
+  { name: 'System Design', category: 'hard', synonyms: ['software architecture', 'distributed systems'] },
+  { name: 'Security', category: 'hard', synonyms: ['cybersecurity', 'information security', 'infosec'] },
+  { name: 'UX Design', category: 'hard', synonyms: ['ux', 'user experience', 'ui/ux', 'ui ux'] },
+  { name: 'Figma', category: 'hard', synonyms: [] },
+  { name: 'Jira', category: 'hard', synonyms: [] },
+
+  // Business and marketing
+  { name: 'SEO', category: 'hard', synonyms: ['search engine optimization'] },
+  { name: 'SEM', category: 'hard', synonyms: ['search engine marketing', 'ppc', 'pay per click'] },
+  { name: 'Google Analytics', category: 'hard', synonyms: ['ga4'] },
+  { name: 'Content Marketing', category: 'hard', synonyms: ['content strategy'] },
+  { name: 'Social Media Marketing', category: 'hard', synonyms: ['social media', 'smm'] },
+  { name: 'Email Marketing', category: 'hard', synonyms: ['marketing automation'] },
+  { name: 'CRM', category: 'hard', synonyms: ['customer relationship management', 'salesforce', 'hubspot'] },
+  { name: 'Product Management', category: 'hard', synonyms: ['product manager', 'product owner'] },
+  { name: 'Project Management', category: 'hard', synonyms: ['project manager', 'pmp'] },
+  { name: 'A/B Testing', category: 'hard', synonyms: ['ab testing', 'a b testing', 'split testing', 'experimentation'] },
+  { name: 'Budgeting', category: 'hard', synonyms: ['budget management', 'forecasting'] },
+  { name: 'Financial Modeling', category: 'hard', synonyms: ['financial modelling'] },
+  { name: 'Market Research', category: 'hard', synonyms: ['competitive analysis'] },
+  { name: 'Copywriting', category: 'hard', synonyms: ['copy writing'] },
+
+  // Soft skills
+  { name: 'Communication', category: 'soft', synonyms: ['communication skills', 'communicator', 'written communication', 'verbal communication'] },
+  { name: 'Leadership', category: 'soft', synonyms: ['leading teams', 'team lead', 'team leadership'] },
+  { name: 'Teamwork', category: 'soft', synonyms: ['collaboration', 'collaborative', 'team player', 'cross-functional', 'cross functional'] },
+  { name: 'Problem Solving', category: 'soft', synonyms: ['problem-solving', 'troubleshooting', 'analytical skills'] },
+  { name: 'Critical Thinking', category: 'soft', synonyms: [] },
+  { name: 'Time Management', category: 'soft', synonyms: ['prioritization', 'organizational skills'] },
+  { name: 'Adaptability', category: 'soft', synonyms: ['flexibility', 'adaptable', 'flexible'] },
+  { name: 'Attention to Detail', category: 'soft', synonyms: ['detail-oriented', 'detail oriented'] },
+  { name: 'Mentoring', category: 'soft', synonyms: ['mentorship', 'coaching', 'mentored'] },
+  { name: 'Stakeholder Management', category: 'soft', synonyms: ['stakeholder communication'] },
+  { name: 'Negotiation', category: 'soft', synonyms: ['negotiating'] },
+  { name: 'Presentation Skills', category: 'soft', synonyms: ['public speaking', 'presenting', 'presentations'] },
+  { name: 'Creativity', category: 'soft', synonyms: ['creative', 'innovation', 'innovative'] },
+  { name: 'Customer Focus', category: 'soft', synonyms: ['customer service', 'customer-centric', 'client-facing'] },
+  { name: 'Self-Motivation', category: 'soft', synonyms: ['self-starter', 'self starter', 'proactive'] },
+];
@@ -0,0 +1,38 @@
+/**
+ * Scoring Engine Types
+ * Shared contract for every ATS scoring implementation (keyword-based, LLM-backed, ...)
+ */
+
+export type SkillCategory = 'hard' | 'soft';
+
+export type RequirementLevel = 'must_have' | 'nice_to_have';
+
+export type SkillMatch = {
+  skill: string; // Canonical skill name, e.g. "JavaScript"
+  category: SkillCategory;
+  requirement: RequirementLevel | null; // Where the job description asks for it, when known
+};
+
+export type ScoringInput = {
+  resumeText: string;
+  jobDescription: string;
+  // Parsed requirement lines; when present, must-haves weigh more than nice-to-haves
+  requirements?: {
+    mustHave: string[];
+    niceToHave: string[];
+  };
+};
+
+export type ScoringResult = {
+  matchScore: number; // 0-100
+  missingKeywords: string[]; // Fits Analysis.missing_keywords
+  matchedKeywords: string[];
+  matchedSkills: SkillMatch[];
+  missingSkills: SkillMatch[];
+};
+
+export interface ScoringEngine {
+  /** Identifier used to select the engine, e.g. "keyword" */
+  readonly name: string;
+  score(input: ScoringInput): Promise<ScoringResult>;
+}
@@ -0,0 +1,21 @@
+import { createClient } from '@supabase/supabase-js'
+
+/**
+ * Service-role Supabase client for trusted background work (cron routes, the job worker)
+ * Bypasses RLS. While handling a signed-in user's request, use it only for the writes users cannot
+ * make themselves (upload records, resume content, jobs) on ids already checked against that user,
+ * or to refund a charge just reserved for them
+ */
+export function createAdminClient() {
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY
+  if (!serviceRoleKey) {
+    throw new Error('SUPABASE_SERVICE_ROLE_KEY is not set')
+  }
+
+  return createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
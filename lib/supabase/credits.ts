@@ -0,0 +1,112 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { createAdminClient } from './admin'
+
+/**
+ * Credit metering for paid operations
+ * Wraps the reserve_credits / refund_credits database functions (migration 008)
+ */
+
+// Credits charged per operation
+export const CREDIT_COSTS = {
+  analysis: 1,
+  rewrite: 1,
+  summary: 1,
+  cover_letter: 1,
+} as const
+
+export type CreditOperation = keyof typeof CREDIT_COSTS
+
+type OperationResult = {
+  success: boolean
+  error?: string
+}
+
+/**
+ * Get the current user's remaining credits
+ */
+export async function getCreditBalance(supabase: SupabaseClient): Promise<number> {
+  const { data, error } = await supabase.rpc('get_user_credits')
+
+  if (error) {
+    console.error('Credit balance error:', error)
+    return 0
+  }
+
+  return data ?? 0
+}
+
+/**
+ * Reserve credits for an operation
+ * @returns The ledger charge id to refund on failure, or an error when the balance is too low
+ */
+export async function reserveCredits(
+  supabase: SupabaseClient,
+  operation: CreditOperation
+): Promise<{ success: boolean; error?: string; chargeId?: string }> {
+  const cost = CREDIT_COSTS[operation]
+  const { data: chargeId, error } = await supabase.rpc('reserve_credits', {
+    amount: cost,
+    reason: operation,
+  })
+
+  if (error) {
+    console.error('Credit reservation error:', error)
+    return {
+      success: false,
+      error: 'Failed to check your credit balance',
+    }
+  }
+
+  if (!chargeId) {
+    return {
+      success: false,
+      error: `You need ${cost} credit${cost === 1 ? '' : 's'} for this, but you have run out of credits`,
+    }
+  }
+
+  return {
+    success: true,
+    chargeId,
+  }
+}
+
+/**
+ * Give back the credits of a failed operation
+ * refund_credits is service role only, so pass only charge ids this server just reserved
+ */
+export async function refundCredits(chargeId: string): Promise<void> {
+  const { data: refunded, error } = await createAdminClient().rpc('refund_credits', { charge_id: chargeId })
+
+  if (error || !refunded) {
+    console.error('Credit refund error:', error ?? `Charge ${chargeId} was not refunded`)
+  }
+}
+
+/**
+ * Run an operation that costs credits
+ * Credits are reserved up front and refunded when the operation fails or throws
+ */
+export async function withCredits<T extends OperationResult>(
+  supabase: SupabaseClient,
+  operation: CreditOperation,
+  task: () => Promise<T>
+): Promise<T | OperationResult> {
+  const reservation = await reserveCredits(supabase, operation)
+  if (!reservation.success) {
+    return {
+      success: false,
+      error: reservation.error,
+    }
+  }
+
+  try {
+    const result = await task()
+    if (!result.success) {
+      await refundCredits(reservation.chargeId!)
+    }
+    return result
+  } catch (error) {
+    await refundCredits(reservation.chargeId!)
+    throw error
+  }
+}
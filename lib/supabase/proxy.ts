@@ -41,7 +41,11 @@ export async function updateSession(request: NextRequest) {
     !user &&
     !request.nextUrl.pathname.startsWith('/login') &&
     !request.nextUrl.pathname.startsWith('/auth') &&
-    !request.nextUrl.pathname.startsWith('/signup')
+    !request.nextUrl.pathname.startsWith('/signup') &&
+    // Scheduled jobs authenticate with CRON_SECRET instead of a session
+    !request.nextUrl.pathname.startsWith('/api/cron') &&
+    // Admin maintenance routes authenticate with ADMIN_API_SECRET
+    !request.nextUrl.pathname.startsWith('/api/admin')
   ) {
     // no user, potentially respond by redirecting the user to the login page
     const url = request.nextUrl.clone()
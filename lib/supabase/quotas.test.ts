@@ -0,0 +1,81 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { getQuotaUsage, reserveUploadQuota } from './quotas'
+
+const MB = 1024 * 1024
+
+const FREE_PLAN = {
+  plan: 'free',
+  max_storage_bytes: '52428800', // BIGINT columns arrive as strings
+  max_resumes: 10,
+  storage_bytes: '47185920',
+  resume_count: 4,
+}
+
+function clientReturning(data: unknown, error: unknown = null) {
+  const rpc = vi.fn().mockResolvedValue({ data, error })
+  return { supabase: { rpc } as unknown as SupabaseClient, rpc }
+}
+
+const UPLOAD = { userId: 'user-1', idempotencyKey: 'key-1', filePath: 'user-1/cv.pdf', fileSize: 2 * MB }
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('getQuotaUsage', () => {
+  it('converts the quota row to numbers', async () => {
+    const { supabase } = clientReturning([FREE_PLAN])
+
+    expect(await getQuotaUsage(supabase)).toEqual({
+      success: true,
+      data: { plan: 'free', storageBytes: 45 * MB, maxStorageBytes: 50 * MB, resumeCount: 4, maxResumes: 10 },
+    })
+  })
+
+  it('fails without a quota row', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { supabase } = clientReturning([])
+
+    expect(await getQuotaUsage(supabase)).toEqual({ success: false, error: 'Failed to check your storage quota' })
+  })
+})
+
+describe('reserveUploadQuota', () => {
+  it('claims the upload in one call', async () => {
+    const { supabase, rpc } = clientReturning([{ ...FREE_PLAN, quota_error: null }])
+
+    expect(await reserveUploadQuota(supabase, UPLOAD)).toEqual({ success: true })
+    expect(rpc).toHaveBeenCalledWith('claim_resume_upload', {
+      target_user_id: 'user-1',
+      upload_key: 'key-1',
+      upload_file_path: 'user-1/cv.pdf',
+      upload_file_size: 2 * MB,
+    })
+  })
+
+  it('explains how much storage is left', async () => {
+    const { supabase } = clientReturning([{ ...FREE_PLAN, quota_error: 'storage_quota_exceeded' }])
+    const result = await reserveUploadQuota(supabase, { ...UPLOAD, fileSize: 6 * MB })
+
+    expect(result).toMatchObject({ success: false, errorCode: 'storage_quota_exceeded' })
+    expect(result.error).toBe(
+      "This file needs 6 MB, but only 5 MB of your free plan's 50 MB is left. Delete old resumes to free up space."
+    )
+  })
+
+  it('explains the resume limit', async () => {
+    const { supabase } = clientReturning([{ ...FREE_PLAN, resume_count: 10, quota_error: 'resume_quota_exceeded' }])
+    const result = await reserveUploadQuota(supabase, UPLOAD)
+
+    expect(result).toMatchObject({ success: false, errorCode: 'resume_quota_exceeded' })
+    expect(result.error).toMatch(/^Your free plan allows 10 resumes and you have 10\./)
+  })
+
+  it('fails when the claim errors', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const { supabase } = clientReturning(null, { message: 'permission denied' })
+
+    expect(await reserveUploadQuota(supabase, UPLOAD)).toEqual({ success: false, error: 'Failed to start the upload' })
+  })
+})
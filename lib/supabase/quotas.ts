@@ -0,0 +1,107 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { formatFileSize } from '@/lib/utils/file-validation'
+
+/**
+ * Storage quotas
+ * Per-plan limits on stored bytes and resume count (plan_quotas table, migration 014)
+ */
+
+export type QuotaErrorCode = 'storage_quota_exceeded' | 'resume_quota_exceeded'
+
+export type QuotaUsage = {
+  plan: string
+  storageBytes: number
+  maxStorageBytes: number
+  resumeCount: number // Stored resumes plus unfinished uploads
+  maxResumes: number
+}
+
+type QuotaRow = {
+  plan: string
+  max_storage_bytes: number
+  max_resumes: number
+  storage_bytes: number
+  resume_count: number
+}
+
+function toQuotaUsage(row: QuotaRow): QuotaUsage {
+  return {
+    plan: row.plan,
+    // BIGINT columns may arrive as strings
+    storageBytes: Number(row.storage_bytes),
+    maxStorageBytes: Number(row.max_storage_bytes),
+    resumeCount: row.resume_count,
+    maxResumes: row.max_resumes,
+  }
+}
+
+/**
+ * Get the current user's plan limits and how much of them is used
+ */
+export async function getQuotaUsage(supabase: SupabaseClient): Promise<{
+  success: boolean
+  error?: string
+  data?: QuotaUsage
+}> {
+  const { data, error } = await supabase.rpc('get_user_quota')
+  const row = (data as QuotaRow[] | null)?.[0]
+
+  if (error || !row) {
+    console.error('Quota usage error:', error ?? 'No profile for the current user')
+    return {
+      success: false,
+      error: 'Failed to check your storage quota',
+    }
+  }
+
+  return {
+    success: true,
+    data: toQuotaUsage(row),
+  }
+}
+
+/**
+ * Record a pending upload and reserve its size against the user's plan
+ * claim_resume_upload checks the limits and inserts the upload in one transaction, so parallel uploads
+ * cannot all pass the check. A key claimed before passes through unless its upload failed.
+ * @param supabase - Service-role client; userId must be the signed-in user
+ */
+export async function reserveUploadQuota(
+  supabase: SupabaseClient,
+  { userId, idempotencyKey, filePath, fileSize }: { userId: string; idempotencyKey: string; filePath: string; fileSize: number }
+): Promise<{
+  success: boolean
+  error?: string
+  errorCode?: QuotaErrorCode
+}> {
+  const { data, error } = await supabase.rpc('claim_resume_upload', {
+    target_user_id: userId,
+    upload_key: idempotencyKey,
+    upload_file_path: filePath,
+    upload_file_size: fileSize,
+  })
+  const row = (data as Array<QuotaRow & { quota_error: QuotaErrorCode | null }> | null)?.[0]
+
+  if (error || !row) {
+    console.error('Upload quota error:', error)
+    return {
+      success: false,
+      error: 'Failed to start the upload',
+    }
+  }
+
+  if (!row.quota_error) {
+    return {
+      success: true,
+    }
+  }
+
+  const { plan, storageBytes, maxStorageBytes, resumeCount, maxResumes } = toQuotaUsage(row)
+  return {
+    success: false,
+    error: row.quota_error === 'resume_quota_exceeded'
+      ? `Your ${plan} plan allows ${maxResumes} resumes and you have ${resumeCount}. Delete old resumes or versions to upload more.`
+      : `This file needs ${formatFileSize(fileSize)}, but only ${formatFileSize(Math.max(maxStorageBytes - storageBytes, 0))} of your ${plan} plan's ${formatFileSize(maxStorageBytes)} is left. Delete old resumes to free up space.`,
+    errorCode: row.quota_error,
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Embedded relations
+ * A to-one relation embedded in a select (e.g. resume:resumes(title)) comes back as an object or a
+ * single-item array depending on the schema cache, so it is always read through firstRelation
+ */
+
+/**
+ * The row of an embedded to-one relation, whichever shape it came back in
+ */
+export function firstRelation<T>(relation: T | T[]): T {
+  return Array.isArray(relation) ? relation[0] : relation
+}
@@ -0,0 +1,237 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { downloadResumeFile, isUserFilePath } from './storage'
+import { parseResumeStructure } from '@/lib/parsing/resume-parser'
+import type { Resume } from '@/lib/types/database'
+import { computeTextFingerprint, hashFileContent } from '@/lib/utils/resume-fingerprint'
+import { diffLines, getDiffStats, type DiffLine, type DiffStats } from '@/lib/utils/text-diff'
+import { EXTRACTOR_VERSION, extractText } from '@/lib/utils/text-extraction'
+
+/**
+ * Resume re-parsing
+ * Re-runs text extraction on stored resume files so fixes to the extractors reach existing resumes.
+ * Used by the reparse actions (one resume, with a preview) and the admin reparse-resumes route (in batches).
+ */
+
+const DEFAULT_BATCH_LIMIT = 25
+// Leave the route's 60 second limit room to finish the resume in progress
+const DEFAULT_TIME_BUDGET_MS = 45_000
+
+export type ReparsableResume = Pick<Resume, 'id' | 'user_id' | 'file_path' | 'file_type' | 'raw_text' | 'extractor_version'>
+
+export type Reextraction = {
+  text: string
+  ocrConfidence?: number // Set when the text was recognized with OCR
+  contentHash: string
+  diff: DiffLine[] // Stored raw_text against the new text
+  stats: DiffStats
+}
+
+export type ReparseBatchItem = {
+  resumeId: string
+  fromVersion: number
+  added: number
+  removed: number
+  error?: string
+}
+
+export type ReparseBatchReport = {
+  dryRun: boolean
+  toVersion: number
+  checked: number
+  changed: number // Resumes whose text differs from what is stored
+  updated: number // Resumes saved with the new text (always 0 on a dry run)
+  failed: number
+  nextCursor: string | null // Pass as `after` to continue with the next batch; null when none are left
+  resumes: ReparseBatchItem[]
+}
+
+/**
+ * Download a resume's file and extract its text with the current extractors
+ * Nothing is saved; pass the result to saveReextraction to keep it. The file must lie in the owner's
+ * folder, since batch re-parses download with the service role.
+ */
+export async function reextractResume(supabase: SupabaseClient, resume: ReparsableResume): Promise<{
+  success: boolean
+  error?: string
+  data?: Reextraction
+}> {
+  if (!resume.file_type) {
+    return {
+      success: false,
+      error: 'Unknown resume file type',
+    }
+  }
+
+  if (!isUserFilePath(resume.user_id, resume.file_path)) {
+    return {
+      success: false,
+      error: 'The resume file was not found',
+    }
+  }
+
+  const download = await downloadResumeFile(supabase, resume.file_path)
+  if (!download.success) {
+    return {
+      success: false,
+      error: download.error,
+    }
+  }
+
+  let extractionResult
+  try {
+    extractionResult = await extractText(download.data!, resume.file_type)
+  } catch (error) {
+    console.error('Text extraction error:', error)
+    extractionResult = {
+      success: false,
+      error: error instanceof Error ? error.message : 'Text extraction failed',
+    }
+  }
+
+  if (!extractionResult.success) {
+    return {
+      success: false,
+      error: extractionResult.error,
+    }
+  }
+
+  const text = extractionResult.text!
+  const diff = diffLines(resume.raw_text ?? '', text)
+
+  return {
+    success: true,
+    data: {
+      text,
+      ocrConfidence: extractionResult.ocrConfidence,
+      contentHash: hashFileContent(download.data!),
+      diff,
+      stats: getDiffStats(diff),
+    },
+  }
+}
+
+/**
+ * Store re-extracted text on a resume and mark it as extracted with the current version
+ * @param supabase - Service-role client: users can only change a resume's title
+ */
+export async function saveReextraction(
+  supabase: SupabaseClient,
+  resumeId: string,
+  extraction: Reextraction
+): Promise<{ success: boolean; error?: string }> {
+  const { error } = await supabase
+    .from('resumes')
+    .update({
+      raw_text: extraction.text,
+      structured_content: parseResumeStructure(extraction.text),
+      ocr_used: extraction.ocrConfidence !== undefined,
+      ocr_confidence: extraction.ocrConfidence ?? null,
+      // Also fills in duplicate detection for resumes uploaded before it existed
+      content_hash: extraction.contentHash,
+      text_fingerprint: computeTextFingerprint(extraction.text),
+      extractor_version: EXTRACTOR_VERSION,
+    })
+    .eq('id', resumeId)
+
+  if (error) {
+    console.error('Database update error:', error)
+    return {
+      success: false,
+      error: 'Failed to save the re-parsed resume',
+    }
+  }
+
+  return {
+    success: true,
+  }
+}
+
+/**
+ * Re-parse resumes extracted with an older EXTRACTOR_VERSION, oldest id first
+ * Needs the service-role client since it reads every user's resumes.
+ * @param options.dryRun - Report what would change without saving anything
+ * @param options.after - Cursor from a previous report's nextCursor
+ */
+export async function reparseOutdatedResumes(
+  supabase: SupabaseClient,
+  {
+    limit = DEFAULT_BATCH_LIMIT,
+    dryRun = false,
+    after = null,
+    timeBudgetMs = DEFAULT_TIME_BUDGET_MS,
+  }: { limit?: number; dryRun?: boolean; after?: string | null; timeBudgetMs?: number } = {}
+): Promise<{ success: boolean; error?: string; data?: ReparseBatchReport }> {
+  let query = supabase
+    .from('resumes')
+    .select('id, user_id, file_path, file_type, raw_text, extractor_version')
+    .lt('extractor_version', EXTRACTOR_VERSION)
+    .eq('file_missing', false)
+    .order('id')
+    .limit(limit)
+
+  if (after) {
+    query = query.gt('id', after)
+  }
+
+  const { data: resumes, error } = await query
+  if (error) {
+    console.error('Outdated resumes fetch error:', error)
+    return { success: false, error: 'Failed to list resumes to re-parse' }
+  }
+
+  const report: ReparseBatchReport = {
+    dryRun,
+    toVersion: EXTRACTOR_VERSION,
+    checked: 0,
+    changed: 0,
+    updated: 0,
+    failed: 0,
+    nextCursor: null,
+    resumes: [],
+  }
+
+  const deadline = Date.now() + timeBudgetMs
+  for (const resume of (resumes ?? []) as ReparsableResume[]) {
+    if (Date.now() >= deadline) {
+      break
+    }
+
+    report.checked++
+    report.nextCursor = resume.id
+
+    const item: ReparseBatchItem = { resumeId: resume.id, fromVersion: resume.extractor_version, added: 0, removed: 0 }
+    report.resumes.push(item)
+
+    const reextraction = await reextractResume(supabase, resume)
+    if (!reextraction.success) {
+      report.failed++
+      item.error = reextraction.error
+      continue
+    }
+
+    const { stats } = reextraction.data!
+    item.added = stats.added
+    item.removed = stats.removed
+    if (stats.added > 0 || stats.removed > 0) {
+      report.changed++
+    }
+
+    if (!dryRun) {
+      // Unchanged text is saved too, so the resume is recorded as checked with this version
+      const saved = await saveReextraction(supabase, resume.id, reextraction.data!)
+      if (saved.success) {
+        report.updated++
+      } else {
+        report.failed++
+        item.error = saved.error
+      }
+    }
+  }
+
+  // A short page with every resume checked means there is nothing after it
+  if ((resumes?.length ?? 0) < limit && report.checked === (resumes?.length ?? 0)) {
+    report.nextCursor = null
+  }
+
+  return { success: true, data: report }
+}
@@ -0,0 +1,163 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { failResumeUpload, removeResumeFiles, setUploadStatus } from './storage'
+import type { ResumeUpload } from '@/lib/types/database'
+
+/**
+ * Storage reconciler
+ * Finds and fixes mismatches between the resumes table and the resumes bucket in both directions.
+ * Runs with the service-role client from the reconcile-storage cron route.
+ */
+
+// Uploads that have not changed state for this long are treated as abandoned
+const STALE_UPLOAD_MINUTES = 30
+// Objects younger than this may belong to an upload that has not recorded itself yet
+const ORPHAN_GRACE_PERIOD = '1 hour'
+const MAX_STALE_UPLOADS = 500
+const REMOVE_BATCH_SIZE = 100
+
+export type ReconcileReport = {
+  settledUploads: number // Stalled uploads whose resume row exists, marked persisted
+  abandonedUploads: number // Stalled uploads rolled back (file removed, marked failed)
+  removedOrphans: number // Objects with no resume row removed from the bucket
+  flaggedMissing: number // Resume rows whose object is gone, marked file_missing
+  restoredFiles: number // Resume rows whose object is back, file_missing cleared
+}
+
+/**
+ * Run every reconciliation step once
+ * Each step is idempotent, so overlapping or repeated runs are safe
+ */
+export async function reconcileResumeStorage(supabase: SupabaseClient): Promise<{
+  success: boolean
+  error?: string
+  data?: ReconcileReport
+}> {
+  const uploads = await settleStaleUploads(supabase)
+  if (!uploads.success) {
+    return { success: false, error: uploads.error }
+  }
+
+  const orphans = await removeOrphanedObjects(supabase)
+  if (!orphans.success) {
+    return { success: false, error: orphans.error }
+  }
+
+  const { data, error } = await supabase.rpc('sync_resume_file_missing')
+  if (error) {
+    console.error('File missing sync error:', error)
+    return { success: false, error: 'Failed to check resumes for missing files' }
+  }
+  const sync = (data as { flagged: number; restored: number }[])[0]
+
+  return {
+    success: true,
+    data: {
+      settledUploads: uploads.settled,
+      abandonedUploads: uploads.abandoned,
+      removedOrphans: orphans.removed,
+      flaggedMissing: sync?.flagged ?? 0,
+      restoredFiles: sync?.restored ?? 0,
+    },
+  }
+}
+
+/**
+ * Finish or roll back uploads that stopped before reaching persisted
+ * An upload whose resume row exists only missed its last state change; any other is rolled back
+ * unless a parse job is still due to finish it
+ */
+async function settleStaleUploads(
+  supabase: SupabaseClient
+): Promise<{ success: boolean; error?: string; settled: number; abandoned: number }> {
+  const cutoff = new Date(Date.now() - STALE_UPLOAD_MINUTES * 60 * 1000).toISOString()
+  const { data: stale, error } = await supabase
+    .from('resume_uploads')
+    .select('id, file_path')
+    .in('status', ['pending', 'uploaded', 'extracted'])
+    .lt('updated_at', cutoff)
+    .order('updated_at')
+    .limit(MAX_STALE_UPLOADS)
+
+  if (error) {
+    console.error('Stale upload query error:', error)
+    return { success: false, error: 'Failed to load stalled uploads', settled: 0, abandoned: 0 }
+  }
+
+  // Uploads still waiting on a parse job (e.g. between retries) are not abandoned
+  const { data: activeJobs, error: jobsError } = await supabase
+    .from('jobs')
+    .select('payload')
+    .eq('kind', 'parse')
+    .in('status', ['queued', 'running'])
+
+  if (jobsError) {
+    console.error('Active parse job query error:', jobsError)
+    return { success: false, error: 'Failed to load active parse jobs', settled: 0, abandoned: 0 }
+  }
+
+  const queuedUploadIds = new Set(
+    (activeJobs ?? []).map((job: { payload: { uploadId?: string } }) => job.payload.uploadId)
+  )
+  const uploads = ((stale ?? []) as Pick<ResumeUpload, 'id' | 'file_path'>[]).filter(
+    (upload) => !queuedUploadIds.has(upload.id)
+  )
+  if (uploads.length === 0) {
+    return { success: true, settled: 0, abandoned: 0 }
+  }
+
+  const { data: resumes, error: resumesError } = await supabase
+    .from('resumes')
+    .select('id, file_path')
+    .in('file_path', uploads.map((upload) => upload.file_path))
+
+  if (resumesError) {
+    console.error('Stale upload resume query error:', resumesError)
+    return { success: false, error: 'Failed to match stalled uploads to resumes', settled: 0, abandoned: 0 }
+  }
+
+  const resumeIdByPath = new Map<string, string>(
+    (resumes ?? []).map((resume: { id: string; file_path: string }) => [resume.file_path, resume.id])
+  )
+
+  let settled = 0
+  let abandoned = 0
+  for (const upload of uploads) {
+    const resumeId = resumeIdByPath.get(upload.file_path)
+    if (resumeId) {
+      await setUploadStatus(supabase, upload.id, 'persisted', { resume_id: resumeId })
+      settled++
+    } else {
+      await failResumeUpload(supabase, upload, `Abandoned: the upload did not finish within ${STALE_UPLOAD_MINUTES} minutes`)
+      abandoned++
+    }
+  }
+
+  return { success: true, settled, abandoned }
+}
+
+/**
+ * Remove bucket objects that no resume row or unfinished upload refers to
+ */
+async function removeOrphanedObjects(
+  supabase: SupabaseClient
+): Promise<{ success: boolean; error?: string; removed: number }> {
+  const { data, error } = await supabase.rpc('find_orphaned_resume_objects', {
+    older_than: ORPHAN_GRACE_PERIOD,
+  })
+
+  if (error) {
+    console.error('Orphaned object query error:', error)
+    return { success: false, error: 'Failed to look for orphaned files', removed: 0 }
+  }
+
+  const names = ((data ?? []) as { name: string }[]).map((object) => object.name)
+  let removed = 0
+  for (let i = 0; i < names.length; i += REMOVE_BATCH_SIZE) {
+    const batch = names.slice(i, i + REMOVE_BATCH_SIZE)
+    if (await removeResumeFiles(supabase, batch)) {
+      removed += batch.length
+    }
+  }
+
+  return { success: true, removed }
+}
@@ -1,41 +1,33 @@
-import { createClient } from './client'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { validateResumeFile, type ValidationErrorCode } from '@/lib/utils/file-validation'
+import { validateFileContent } from '@/lib/utils/content-validation'
+import { getResumeFormat, getResumeFormatByType, type ResumeFileType } from '@/lib/utils/resume-formats'
+import type { ResumeUpload, UploadStatus } from '@/lib/types/database'
+import { reserveUploadQuota, type QuotaErrorCode } from './quotas'
 
 /**
- * Storage utilities for resume file uploads
- * Handles file uploads to Supabase Storage with proper security and validation
+ * Resume storage service
+ * The one place that validates, uploads, downloads and deletes resume files in the private
+ * `resumes` bucket, and that tracks uploads through the resume_uploads pipeline (migration 011).
+ * Server-only: server actions and route handlers pass their Supabase client. resume_uploads rows are
+ * written by the service role only, so pipeline functions take the client from createAdminClient.
  */
 
-// Allowed file types
-export const ALLOWED_FILE_TYPES = {
-  'application/pdf': '.pdf',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': '.docx',
-} as const
+export const RESUME_BUCKET = 'resumes'
 
-export const MAX_FILE_SIZE = 10 * 1024 * 1024 // 10MB in bytes
-
-export type AllowedMimeType = keyof typeof ALLOWED_FILE_TYPES
+type OperationResult = {
+  success: boolean
+  error?: string
+}
 
 /**
- * Validates a file before upload
+ * A file that passed every upload check, with its detected format and bytes
+ * Only produced by validateResumeUpload, so nothing unvalidated reaches the bucket
  */
-export function validateResumeFile(file: File): { valid: boolean; error?: string } {
-  // Check file size
-  if (file.size > MAX_FILE_SIZE) {
-    return {
-      valid: false,
-      error: `File size exceeds ${MAX_FILE_SIZE / 1024 / 1024}MB limit`,
-    }
-  }
-
-  // Check file type
-  if (!Object.keys(ALLOWED_FILE_TYPES).includes(file.type)) {
-    return {
-      valid: false,
-      error: `File type not allowed. Please upload PDF or DOCX files only.`,
-    }
-  }
-
-  return { valid: true }
+export type ValidatedResumeFile = {
+  file: File
+  fileType: ResumeFileType
+  buffer: ArrayBuffer
 }
 
 /**
@@ -49,235 +41,421 @@ export function generateFilePath(userId: string, filename: string): string {
 }
 
 /**
- * Uploads a resume file to Supabase Storage
+ * Whether a stored path lies in the user's own folder
+ * Service-role downloads bypass the bucket policies, so they check the path against the owner first
  */
-export async function uploadResume(file: File, userId: string) {
-  const supabase = createClient()
+export function isUserFilePath(userId: string, filePath: string): boolean {
+  return filePath.startsWith(`${userId}/`) && !filePath.split('/').includes('..')
+}
 
-  // Validate file
+/**
+ * Validate an upload: name, type and size first, then the actual bytes
+ */
+export async function validateResumeUpload(file: File): Promise<{
+  success: boolean
+  error?: string
+  errorCode?: ValidationErrorCode
+  data?: ValidatedResumeFile
+}> {
   const validation = validateResumeFile(file)
   if (!validation.valid) {
     return {
       success: false,
       error: validation.error,
-      data: null,
+      errorCode: validation.code,
     }
   }
 
-  try {
-    // Generate file path
-    const filePath = generateFilePath(userId, file.name)
-
-    // Upload file
-    const { data, error } = await supabase.storage
-      .from('resumes')
-      .upload(filePath, file, {
-        cacheControl: '3600',
-        upsert: false, // Don't overwrite existing files
-      })
-
-    if (error) {
-      console.error('Upload error:', error)
-      return {
-        success: false,
-        error: error.message,
-        data: null,
-      }
-    }
-
-    // Get public URL (even for private buckets, this generates the storage URL)
-    const { data: urlData } = supabase.storage
-      .from('resumes')
-      .getPublicUrl(filePath)
+  const fileType = getResumeFormat(file)!.type
+  const buffer = await file.arrayBuffer()
 
-    return {
-      success: true,
-      error: null,
-      data: {
-        path: data.path,
-        fullPath: data.fullPath,
-        url: urlData.publicUrl,
-        fileSize: file.size,
-        fileType: file.type,
-      },
-    }
-  } catch (error) {
-    console.error('Unexpected upload error:', error)
+  const contentValidation = await validateFileContent(buffer, fileType)
+  if (!contentValidation.valid) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-      data: null,
+      error: contentValidation.error,
+      errorCode: contentValidation.code,
     }
   }
+
+  return {
+    success: true,
+    data: { file, fileType, buffer },
+  }
 }
 
 /**
- * Deletes a resume file from Storage
+ * Upload a validated resume file to its pipeline path
+ * Overwrites an earlier partial attempt at the same path, so retries are safe
  */
-export async function deleteResume(filePath: string) {
-  const supabase = createClient()
-
+export async function uploadResumeFile(
+  supabase: SupabaseClient,
+  filePath: string,
+  upload: ValidatedResumeFile
+): Promise<OperationResult> {
   try {
-    const { error } = await supabase.storage.from('resumes').remove([filePath])
+    const { error } = await supabase.storage
+      .from(RESUME_BUCKET)
+      .upload(filePath, upload.buffer, {
+        cacheControl: '3600',
+        // Browsers often report an empty or generic type for .md, .rtf and .doc files
+        contentType: getResumeFormatByType(upload.fileType)!.mimeTypes[0],
+        upsert: true,
+      })
 
     if (error) {
-      console.error('Delete error:', error)
+      console.error('Storage upload error:', error)
       return {
         success: false,
-        error: error.message,
+        error: `Failed to upload file: ${error.message}`,
       }
     }
 
     return {
       success: true,
-      error: null,
     }
   } catch (error) {
-    console.error('Unexpected delete error:', error)
+    console.error('Upload error:', error)
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      error: error instanceof Error ? error.message : 'Upload failed',
     }
   }
 }
 
 /**
- * Downloads a resume file from Storage
+ * Remove resume files from the bucket
+ * @returns Whether the files were removed; failures are logged and left to the storage reconciler
  */
-export async function downloadResume(filePath: string) {
-  const supabase = createClient()
+export async function removeResumeFiles(supabase: SupabaseClient, filePaths: string[]): Promise<boolean> {
+  if (filePaths.length === 0) return true
 
-  try {
-    const { data, error } = await supabase.storage.from('resumes').download(filePath)
+  const { error } = await supabase.storage.from(RESUME_BUCKET).remove(filePaths)
+  if (error) {
+    console.error('Storage remove error:', error)
+    return false
+  }
 
-    if (error) {
-      console.error('Download error:', error)
-      return {
-        success: false,
-        error: error.message,
-        data: null,
-      }
-    }
+  return true
+}
 
-    return {
-      success: true,
-      error: null,
-      data: data, // Blob
-    }
-  } catch (error) {
-    console.error('Unexpected download error:', error)
+/**
+ * First half of the upload pipeline, run while handling the request: pending → uploaded
+ * The record is written before the file reaches the bucket, so an upload interrupted at any step
+ * can be finished or rolled back later. Retrying with the same idempotency key reuses the record.
+ * A new or failed upload is first checked against the plan's limits.
+ * @param supabase - Service-role client; userId must be the signed-in user
+ * @returns The upload record, plus the resume id when an earlier attempt with this key already finished
+ */
+export async function stageResumeUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  idempotencyKey: string,
+  upload: ValidatedResumeFile
+): Promise<OperationResult & { errorCode?: QuotaErrorCode; upload?: ResumeUpload; resumeId?: string }> {
+  const claim = await claimResumeUpload(supabase, userId, idempotencyKey, upload.file)
+  if (!claim.success) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-      data: null,
+      error: claim.error,
+      errorCode: claim.errorCode,
+    }
+  }
+
+  const record = claim.upload!
+  if (record.status === 'persisted') {
+    return record.resume_id
+      ? { success: true, upload: record, resumeId: record.resume_id }
+      : { success: false, error: 'This upload was already saved and the resume has since been deleted' }
+  }
+
+  if (record.status === 'pending') {
+    const uploadResult = await uploadResumeFile(supabase, record.file_path, upload)
+    if (!uploadResult.success) {
+      await setUploadStatus(supabase, record.id, 'failed', { error: uploadResult.error ?? null })
+      return uploadResult
     }
+    await setUploadStatus(supabase, record.id, 'uploaded', { error: null })
+  }
+
+  return {
+    success: true,
+    upload: { ...record, status: 'uploaded' },
   }
 }
 
 /**
- * Lists all resume files for the current user
+ * Second half of the upload pipeline, run by the parse job: uploaded → extracted → persisted
+ * A returned failure rolls the upload back (file removed, marked failed). A thrown error leaves the
+ * upload as it is so the job can retry; the caller rolls back once it gives up.
+ * @param steps.extract - Turns the stored file into whatever persist needs
+ * @param steps.persist - Creates the resume row for the stored file and returns its id
+ * @returns The resume id; `replayed` when an earlier attempt already stored it
  */
-export async function listUserResumes(userId: string) {
-  const supabase = createClient()
-
-  try {
-    const { data, error } = await supabase.storage.from('resumes').list(userId, {
-      limit: 100,
-      offset: 0,
-      sortBy: { column: 'created_at', order: 'desc' },
-    })
+export async function completeResumeUpload<E extends OperationResult>(
+  supabase: SupabaseClient,
+  upload: Pick<ResumeUpload, 'id' | 'file_path'>,
+  steps: {
+    extract: () => Promise<E>
+    persist: (filePath: string, extracted: E) => Promise<OperationResult & { resumeId?: string }>
+  }
+): Promise<OperationResult & { resumeId?: string; replayed?: boolean }> {
+  // A previous attempt may have died between inserting the resume and recording it
+  const existingId = await findResumeIdByFilePath(supabase, upload.file_path)
+  if (existingId) {
+    await setUploadStatus(supabase, upload.id, 'persisted', { resume_id: existingId })
+    return { success: true, resumeId: existingId, replayed: true }
+  }
 
-    if (error) {
-      console.error('List error:', error)
-      return {
-        success: false,
-        error: error.message,
-        data: null,
-      }
+  const extracted = await steps.extract()
+  if (!extracted.success) {
+    await failResumeUpload(supabase, upload, extracted.error)
+    return { success: false, error: extracted.error }
+  }
+  await setUploadStatus(supabase, upload.id, 'extracted')
+
+  const persisted = await steps.persist(upload.file_path, extracted)
+  if (!persisted.success) {
+    // A concurrent attempt may have inserted the row first
+    const concurrentId = await findResumeIdByFilePath(supabase, upload.file_path)
+    if (concurrentId) {
+      await setUploadStatus(supabase, upload.id, 'persisted', { resume_id: concurrentId })
+      return { success: true, resumeId: concurrentId, replayed: true }
     }
 
-    return {
-      success: true,
-      error: null,
-      data: data,
-    }
-  } catch (error) {
-    console.error('Unexpected list error:', error)
+    await failResumeUpload(supabase, upload, persisted.error)
+    return persisted
+  }
+
+  await setUploadStatus(supabase, upload.id, 'persisted', { resume_id: persisted.resumeId ?? null, error: null })
+  return persisted
+}
+
+/**
+ * Get the upload record for an idempotency key, creating it (state pending) on first use
+ * A failed upload is reset to pending for the retry; both reserve the file's size first
+ */
+async function claimResumeUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  idempotencyKey: string,
+  file: File
+): Promise<{ success: boolean; error?: string; errorCode?: QuotaErrorCode; upload?: ResumeUpload }> {
+  const reservation = await reserveUploadQuota(supabase, {
+    userId,
+    idempotencyKey,
+    filePath: generateFilePath(userId, file.name),
+    fileSize: file.size,
+  })
+  if (!reservation.success) {
+    return reservation
+  }
+
+  const upload = await findResumeUpload(supabase, userId, idempotencyKey)
+  if (!upload) {
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-      data: null,
+      error: 'Failed to start the upload',
     }
   }
+
+  return { success: true, upload }
+}
+
+async function findResumeIdByFilePath(supabase: SupabaseClient, filePath: string): Promise<string | null> {
+  const { data } = await supabase.from('resumes').select('id').eq('file_path', filePath).maybeSingle()
+  return data?.id ?? null
 }
 
 /**
- * Gets the storage usage for the current user
+ * Record an upload's new state
+ * Failures are logged only: the reconciler settles records that fall behind the real state
+ */
+export async function setUploadStatus(
+  supabase: SupabaseClient,
+  uploadId: string,
+  status: UploadStatus,
+  fields: Partial<Pick<ResumeUpload, 'resume_id' | 'error'>> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('resume_uploads')
+    .update({ status, ...fields })
+    .eq('id', uploadId)
+
+  if (error) {
+    console.error(`Upload status error (${status}):`, error)
+  }
+}
+
+/**
+ * Roll back an upload: remove its file and mark it failed so a retry starts over
  */
-export async function getUserStorageUsage(userId: string) {
-  const supabase = createClient()
+export async function failResumeUpload(
+  supabase: SupabaseClient,
+  upload: Pick<ResumeUpload, 'id' | 'file_path'>,
+  reason: string | undefined
+): Promise<void> {
+  await removeResumeFiles(supabase, [upload.file_path])
+  await setUploadStatus(supabase, upload.id, 'failed', { error: reason ?? 'Upload failed' })
+}
 
+/**
+ * Get the upload record for an idempotency key, if there is one
+ */
+export async function findResumeUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  idempotencyKey: string
+): Promise<ResumeUpload | null> {
+  const { data } = await supabase
+    .from('resume_uploads')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('idempotency_key', idempotencyKey)
+    .maybeSingle()
+
+  return data as ResumeUpload | null
+}
+
+/**
+ * Roll back the unfinished upload for an idempotency key, if there is one
+ * Used when the user decides not to keep an upload, e.g. to link to an existing duplicate instead
+ * @param supabase - Service-role client; userId must be the signed-in user
+ */
+export async function discardResumeUpload(
+  supabase: SupabaseClient,
+  userId: string,
+  idempotencyKey: string,
+  reason: string
+): Promise<void> {
+  const upload = await findResumeUpload(supabase, userId, idempotencyKey)
+  if (upload && upload.status !== 'persisted' && upload.status !== 'failed') {
+    await failResumeUpload(supabase, upload, reason)
+  }
+}
+
+/**
+ * Download a stored resume file
+ */
+export async function downloadResumeFile(
+  supabase: SupabaseClient,
+  filePath: string
+): Promise<{ success: boolean; error?: string; data?: ArrayBuffer }> {
   try {
-    const { data, error } = await supabase.rpc('get_user_storage_usage')
+    const { data, error } = await supabase.storage.from(RESUME_BUCKET).download(filePath)
 
-    if (error) {
-      console.error('Storage usage error:', error)
+    if (error || !data) {
+      console.error('Resume download error:', error)
       return {
         success: false,
-        error: error.message,
-        data: null,
+        error: 'Failed to download the resume file',
       }
     }
 
     return {
       success: true,
-      error: null,
-      data: {
-        bytesUsed: data as number,
-        mbUsed: ((data as number) / 1024 / 1024).toFixed(2),
-      },
+      data: await data.arrayBuffer(),
     }
   } catch (error) {
-    console.error('Unexpected storage usage error:', error)
+    console.error('Unexpected download error:', error)
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
-      data: null,
+      error: error instanceof Error ? error.message : 'Download failed',
     }
   }
 }
 
 /**
- * Cleans up orphaned files (files without database records)
+ * Create a short-lived signed URL that downloads a stored resume under the given filename
  */
-export async function cleanupOrphanedFiles() {
-  const supabase = createClient()
+export async function createResumeDownloadUrl(
+  supabase: SupabaseClient,
+  filePath: string,
+  filename: string,
+  expiresInSeconds: number
+): Promise<{ success: boolean; error?: string; url?: string }> {
+  const { data, error } = await supabase.storage
+    .from(RESUME_BUCKET)
+    .createSignedUrl(filePath, expiresInSeconds, { download: filename })
+
+  if (error || !data) {
+    console.error('Signed URL error:', error)
+    return {
+      success: false,
+      error: 'Failed to create download link',
+    }
+  }
 
-  try {
-    const { data, error } = await supabase.rpc('cleanup_orphaned_resume_files')
+  return {
+    success: true,
+    url: data.signedUrl,
+  }
+}
 
-    if (error) {
-      console.error('Cleanup error:', error)
-      return {
-        success: false,
-        error: error.message,
-        data: null,
-      }
+/**
+ * Delete a user's resume record and its stored file
+ * Analyses cascade with the row; the file is removed only once the row is gone
+ */
+export async function deleteResumeAndFile(
+  supabase: SupabaseClient,
+  userId: string,
+  resumeId: string
+): Promise<OperationResult> {
+  const { data: resume, error: fetchError } = await supabase
+    .from('resumes')
+    .select('file_path, user_id')
+    .eq('id', resumeId)
+    .maybeSingle()
+
+  if (fetchError || !resume || resume.user_id !== userId) {
+    return {
+      success: false,
+      error: 'Resume not found',
     }
+  }
 
+  const { error: deleteError } = await supabase.from('resumes').delete().eq('id', resumeId)
+
+  if (deleteError) {
+    console.error('Database delete error:', deleteError)
     return {
-      success: true,
-      error: null,
-      data: {
-        deletedCount: data as number,
-      },
+      success: false,
+      error: 'Failed to delete resume',
     }
-  } catch (error) {
-    console.error('Unexpected cleanup error:', error)
+  }
+
+  // The row is gone, so a file left behind is an orphan the storage reconciler removes later
+  const removed = await removeResumeFiles(supabase, [resume.file_path])
+  if (!removed) {
+    console.warn(`Resume ${resumeId} deleted but its file was not; left for the storage reconciler: ${resume.file_path}`)
+  }
+
+  return {
+    success: true,
+  }
+}
+
+/**
+ * Gets the storage usage for the current user
+ */
+export async function getUserStorageUsage(supabase: SupabaseClient) {
+  const { data, error } = await supabase.rpc('get_user_storage_usage')
+
+  if (error) {
+    console.error('Storage usage error:', error)
     return {
       success: false,
-      error: error instanceof Error ? error.message : 'Unknown error occurred',
+      error: error.message,
       data: null,
     }
   }
+
+  return {
+    success: true,
+    error: null,
+    data: {
+      bytesUsed: data as number,
+      mbUsed: ((data as number) / 1024 / 1024).toFixed(2),
+    },
+  }
 }
@@ -0,0 +1,180 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { firstRelation } from './relations'
+import { scoreByKeywords } from '@/lib/scoring/keyword-engine'
+import type {
+  AcceptedSuggestion,
+  Analysis,
+  TailoredChange,
+  TailoredResume,
+  TailoredSection,
+} from '@/lib/types/database'
+import { joinResumeSections, splitResumeSections } from '@/lib/utils/resume-edits'
+
+/**
+ * Tailored resumes
+ * Per-analysis copies of a resume (tailored_resumes table, migrations 016 and 018). Every change goes through
+ * saveTailoredResume, which keeps text in step with sections, rescores it and appends to the change log.
+ */
+
+type ScoringAnalysis = Pick<Analysis, 'job_description_text' | 'job_details'>
+
+export type TailoredResumeChange = Pick<TailoredChange, 'kind' | 'section' | 'description'>
+
+/**
+ * Keyword match score of resume text against an analysis' job description
+ * The same scorer runs in the editor for live scores, so saved and live scores agree.
+ */
+export function scoreTailoredText(text: string, analysis: ScoringAnalysis): number {
+  return scoreByKeywords({
+    resumeText: text,
+    jobDescription: analysis.job_description_text,
+    requirements: analysis.job_details
+      ? { mustHave: analysis.job_details.mustHave, niceToHave: analysis.job_details.niceToHave }
+      : undefined,
+  }).matchScore
+}
+
+/**
+ * Sections of a tailored resume, split from its text for rows saved before sections were stored
+ */
+export function getTailoredSections(tailored: Pick<TailoredResume, 'sections' | 'text'>): TailoredSection[] {
+  return tailored.sections.length > 0 ? tailored.sections : splitResumeSections(tailored.text)
+}
+
+/**
+ * Load the tailored resume for an analysis, if one was started
+ */
+export async function getTailoredResume(
+  supabase: SupabaseClient,
+  analysisId: string
+): Promise<{ success: boolean; error?: string; data?: TailoredResume | null }> {
+  const { data, error } = await supabase
+    .from('tailored_resumes')
+    .select()
+    .eq('analysis_id', analysisId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Tailored resume fetch error:', error)
+    return { success: false, error: 'Failed to load the tailored resume' }
+  }
+
+  return { success: true, data }
+}
+
+/**
+ * Load the tailored resume for an analysis, copying the resume's text into a new one if there is none yet
+ */
+export async function getOrCreateTailoredResume(
+  supabase: SupabaseClient,
+  userId: string,
+  analysisId: string
+): Promise<{ success: boolean; error?: string; data?: TailoredResume }> {
+  const existing = await getTailoredResume(supabase, analysisId)
+  if (!existing.success) {
+    return { success: false, error: existing.error }
+  }
+  if (existing.data) {
+    return { success: true, data: existing.data }
+  }
+
+  // RLS only returns analyses of the user's own resumes
+  const { data: analysis } = await supabase
+    .from('analyses')
+    .select('id, job_description_text, job_details, resume:resumes(id, raw_text)')
+    .eq('id', analysisId)
+    .maybeSingle()
+
+  const resume = firstRelation(analysis?.resume)
+  if (!analysis || !resume) {
+    return { success: false, error: 'Analysis not found' }
+  }
+  if (!resume.raw_text) {
+    return { success: false, error: 'This resume has no extracted text to tailor' }
+  }
+
+  const sections = splitResumeSections(resume.raw_text)
+  const text = joinResumeSections(sections)
+  const matchScore = scoreTailoredText(text, analysis)
+  const created: TailoredChange = {
+    kind: 'created',
+    section: null,
+    description: 'Copied from the original resume',
+    match_score: matchScore,
+    at: new Date().toISOString(),
+  }
+
+  const { data: tailored, error: insertError } = await supabase
+    .from('tailored_resumes')
+    .insert({
+      user_id: userId,
+      resume_id: resume.id,
+      analysis_id: analysisId,
+      text,
+      sections,
+      change_log: [created],
+      match_score: matchScore,
+    })
+    .select()
+    .single()
+
+  if (insertError?.code === '23505') {
+    // Created by a concurrent request
+    return getOrCreateTailoredResume(supabase, userId, analysisId)
+  }
+  if (insertError || !tailored) {
+    console.error('Tailored resume insert error:', insertError)
+    return { success: false, error: 'Failed to create the tailored resume' }
+  }
+
+  return { success: true, data: tailored }
+}
+
+/**
+ * Save new sections on a tailored resume, rescore it and log the changes
+ * @param acceptedSuggestion - Set when the change applies an accepted rewrite
+ */
+export async function saveTailoredResume(
+  supabase: SupabaseClient,
+  tailored: TailoredResume,
+  sections: TailoredSection[],
+  changes: TailoredResumeChange[],
+  acceptedSuggestion?: AcceptedSuggestion
+): Promise<{ success: boolean; error?: string; data?: TailoredResume }> {
+  const { data: analysis, error: analysisError } = await supabase
+    .from('analyses')
+    .select('job_description_text, job_details')
+    .eq('id', tailored.analysis_id)
+    .single()
+
+  if (analysisError || !analysis) {
+    console.error('Analysis fetch error:', analysisError)
+    return { success: false, error: 'Analysis not found' }
+  }
+
+  const text = joinResumeSections(sections)
+  const matchScore = scoreTailoredText(text, analysis)
+  const at = new Date().toISOString()
+
+  const { data, error } = await supabase
+    .from('tailored_resumes')
+    .update({
+      text,
+      sections,
+      match_score: matchScore,
+      change_log: [...tailored.change_log, ...changes.map((change) => ({ ...change, match_score: matchScore, at }))],
+      accepted_suggestions: acceptedSuggestion
+        ? [...tailored.accepted_suggestions, acceptedSuggestion]
+        : tailored.accepted_suggestions,
+    })
+    .eq('id', tailored.id)
+    .select()
+    .single()
+
+  if (error || !data) {
+    console.error('Tailored resume update error:', error)
+    return { success: false, error: 'Failed to save the tailored resume' }
+  }
+
+  return { success: true, data }
+}
@@ -3,22 +3,92 @@
  * These types match the Supabase database schema
  */
 
+import type { ResumeFileType } from '@/lib/utils/resume-formats'
+
 export interface Profile {
   id: string // UUID, references auth.users.id
   full_name: string | null
   credits: number
+  plan: string // References plan_quotas.plan
+  created_at: string
+  updated_at: string
+}
+
+export interface PlanQuota {
+  plan: string // e.g. 'free', 'pro'
+  max_storage_bytes: number
+  max_resumes: number // Counts every version
   created_at: string
   updated_at: string
 }
 
+export interface CreditLedgerEntry {
+  id: string // UUID
+  user_id: string // UUID, references auth.users.id
+  kind: 'charge' | 'refund' | 'grant'
+  amount: number // Negative for charges, positive for refunds and grants
+  balance_after: number
+  reason: string // e.g. 'analysis', 'rewrite', 'signup'
+  refund_of: string | null // UUID of the charge a refund reverses
+  created_at: string
+}
+
 export interface Resume {
   id: string // UUID
   user_id: string // UUID, references auth.users.id
   title: string
-  file_url: string
+  file_path: string // Object path in the private resumes bucket
   raw_text: string | null
   file_size: number | null
-  file_type: 'pdf' | 'docx' | null
+  file_type: ResumeFileType | null
+  structured_content: ResumeDocument | null // JSONB, parsed from raw_text
+  ocr_used: boolean // raw_text was recognized from page images
+  ocr_confidence: number | null // 0-100 when ocr_used
+  parent_id: string | null // UUID, references resumes.id (the previous version)
+  version_number: number // Assigned on insert: 1 for the first version of a lineage
+  change_note: string | null
+  file_missing: boolean // Set by the storage reconciler when the stored object is gone
+  content_hash: string | null // SHA-256 of the file bytes, for duplicate detection
+  text_fingerprint: string | null // SimHash of raw_text (lib/utils/resume-fingerprint.ts)
+  extractor_version: number // EXTRACTOR_VERSION that produced raw_text, 0 for resumes from before versioning
+  created_at: string
+  updated_at: string
+}
+
+export type UploadStatus = 'pending' | 'uploaded' | 'extracted' | 'persisted' | 'failed'
+
+export interface ResumeUpload {
+  id: string // UUID
+  user_id: string // UUID, references auth.users.id
+  idempotency_key: string // Client-generated, unique per user
+  file_path: string // Object path the file is (or will be) stored under
+  file_size: number | null // Bytes reserved against the storage quota while pending
+  status: UploadStatus
+  resume_id: string | null // UUID, set once persisted
+  error: string | null
+  created_at: string
+  updated_at: string
+}
+
+export type JobKind = 'parse' | 'analyze'
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed'
+
+export interface Job {
+  id: string // UUID
+  user_id: string // UUID, references auth.users.id
+  kind: JobKind
+  status: JobStatus
+  stage: string // One of JOB_STAGES[kind] (lib/jobs/stages.ts)
+  progress: number // 0-100
+  payload: Record<string, unknown> // JSONB, job input (server-written)
+  result: Record<string, unknown> | null // JSONB, job output once succeeded
+  error: string | null
+  idempotency_key: string | null
+  attempts: number
+  max_attempts: number
+  run_after: string // Earliest time the job may run
+  locked_at: string | null
   created_at: string
   updated_at: string
 }
@@ -33,6 +103,8 @@ export interface Analysis {
   missing_keywords: string[] // JSONB array
   suggestions: Suggestion[] // JSONB array
   formatting_issues: FormattingIssue[] // JSONB array
+  job_details: JobDescriptionDetails | null // JSONB, parsed from job_description_text
+  tailored_summary: string | null // Professional summary the user chose for this job
   created_at: string
   updated_at: string
 }
@@ -45,6 +117,62 @@ export interface Suggestion {
   reason: string
 }
 
+export interface TailoredResume {
+  id: string // UUID
+  user_id: string // UUID, references auth.users.id
+  resume_id: string // UUID, references resumes.id (never changed by tailoring)
+  analysis_id: string // UUID, references analyses.id (one tailored resume per analysis)
+  text: string // Tailored text, the sections joined together
+  sections: TailoredSection[] // JSONB array; empty for rows saved before sections existed
+  accepted_suggestions: AcceptedSuggestion[] // JSONB array, oldest first
+  change_log: TailoredChange[] // JSONB array, oldest first
+  match_score: number | null // Keyword match score of text against the job description (0-100)
+  created_at: string
+  updated_at: string
+}
+
+// One section of a tailored resume; the heading is null for the contact block above the first heading
+export interface TailoredSection {
+  heading: string | null
+  text: string
+}
+
+// A rewrite accepted into a tailored resume
+export interface AcceptedSuggestion {
+  original: string // Bullet text that was replaced
+  replacement: string // Text it was replaced with
+  suggestion: Suggestion // Rewrite candidate the replacement came from
+  edited: boolean // The user changed the candidate before accepting it
+  applied_at: string
+}
+
+export type TailoredChangeKind = 'created' | 'rewrite' | 'edit' | 'reset'
+
+export interface TailoredChange {
+  kind: TailoredChangeKind
+  section: string | null // Heading of the changed section, null for the contact block or the whole resume
+  description: string
+  match_score: number | null // Score after the change
+  at: string
+}
+
+export type CoverLetterTone = 'professional' | 'enthusiastic' | 'conversational'
+
+export type CoverLetterLength = 'short' | 'medium' | 'long'
+
+export interface CoverLetter {
+  id: string // UUID
+  user_id: string // UUID, references auth.users.id
+  resume_id: string // UUID, references resumes.id
+  analysis_id: string // UUID, references analyses.id (any number of letters per analysis)
+  tone: CoverLetterTone
+  length: CoverLetterLength
+  text: string
+  edited: boolean // True once the user saved changes to the generated text
+  created_at: string
+  updated_at: string
+}
+
 export interface FormattingIssue {
   type: 'table' | 'column' | 'image' | 'special_char' | 'other'
   severity: 'high' | 'medium' | 'low'
@@ -52,6 +180,65 @@ export interface FormattingIssue {
   location?: string
 }
 
+// Parsed job description stored in analyses.job_details
+export interface JobDescriptionDetails {
+  title: string | null
+  company: string | null
+  location: string | null
+  mustHave: string[] // Required qualifications, one per line
+  niceToHave: string[] // Preferred qualifications, one per line
+  yearsOfExperience: { min: number; max: number | null } | null
+  seniority: SeniorityLevel | null
+}
+
+export type SeniorityLevel = 'intern' | 'junior' | 'mid' | 'senior' | 'lead' | 'principal' | 'executive'
+
+// Structured resume model stored in resumes.structured_content
+export interface ResumeDocument {
+  contact: ContactInfo
+  summary: string | null
+  experience: ExperienceEntry[]
+  education: EducationEntry[]
+  skills: string[]
+  certifications: CertificationEntry[]
+  otherSections: ResumeSection[] // Sections we recognize as headings but do not model (projects, languages, ...)
+}
+
+export interface ContactInfo {
+  name: string | null
+  email: string | null
+  phone: string | null
+  location: string | null
+  links: string[] // LinkedIn, GitHub, portfolio, ...
+}
+
+export interface ExperienceEntry {
+  title: string | null
+  company: string | null
+  location: string | null
+  startDate: string | null // As written in the resume, e.g. "Jan 2020"
+  endDate: string | null // As written, e.g. "Present"
+  bullets: string[]
+}
+
+export interface EducationEntry {
+  institution: string | null
+  degree: string | null
+  startDate: string | null
+  endDate: string | null
+  details: string[]
+}
+
+export interface CertificationEntry {
+  name: string
+  date: string | null
+}
+
+export interface ResumeSection {
+  heading: string
+  lines: string[]
+}
+
 // Database response types (with relations)
 export interface ResumeWithAnalyses extends Resume {
   analyses: Analysis[]
@@ -63,7 +250,7 @@ export interface AnalysisWithResume extends Analysis {
 
 // Insert types (for creating new records)
 export type ProfileInsert = Omit<Profile, 'created_at' | 'updated_at'>
-export type ResumeInsert = Omit<Resume, 'id' | 'created_at' | 'updated_at'>
+export type ResumeInsert = Omit<Resume, 'id' | 'version_number' | 'file_missing' | 'created_at' | 'updated_at'>
 export type AnalysisInsert = Omit<Analysis, 'id' | 'created_at' | 'updated_at'>
 
 // Update types (for updating existing records)
@@ -0,0 +1,234 @@
+import JSZip from 'jszip';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { describe, expect, it } from 'vitest';
+import { validateFileContent } from './content-validation';
+
+// Just past the 50 MB decompression budget; all zeros, so it compresses to a few KB
+const OVERSIZED = 51 * 1024 * 1024;
+
+async function zip(files: Record<string, string | Buffer>): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [name, content] of Object.entries(files)) {
+    archive.file(name, content);
+  }
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+/**
+ * Offset of an entry's central directory header
+ */
+function centralHeader(bytes: Buffer, name: string): number {
+  for (let offset = bytes.lastIndexOf(Buffer.from(name)) - 46; offset >= 0; offset--) {
+    if (bytes.readUInt32LE(offset) === 0x02014b50) return offset;
+  }
+  throw new Error(`No central directory entry for ${name}`);
+}
+
+/**
+ * A one-entry ZIP whose central directory claims the uncompressed size given
+ */
+function zipWithDeclaredSize(name: string, content: Buffer, uncompressedSize = content.length): Buffer {
+  const data = deflateRawSync(content);
+  const fileName = Buffer.from(name);
+
+  const local = Buffer.alloc(30);
+  local.writeUInt32LE(0x04034b50, 0);
+  local.writeUInt16LE(8, 8);
+  local.writeUInt32LE(data.length, 18);
+  local.writeUInt32LE(content.length, 22);
+  local.writeUInt16LE(fileName.length, 26);
+
+  const central = Buffer.alloc(46);
+  central.writeUInt32LE(0x02014b50, 0);
+  central.writeUInt16LE(8, 10);
+  central.writeUInt32LE(data.length, 20);
+  central.writeUInt32LE(uncompressedSize, 24);
+  central.writeUInt16LE(fileName.length, 28);
+  central.writeUInt32LE(0, 42);
+
+  const directoryOffset = local.length + fileName.length + data.length;
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(1, 8);
+  end.writeUInt16LE(1, 10);
+  end.writeUInt32LE(central.length + fileName.length, 12);
+  end.writeUInt32LE(directoryOffset, 16);
+
+  return Buffer.concat([local, fileName, data, central, fileName, end]);
+}
+
+function pdf(...objects: (string | Buffer)[]): Buffer {
+  return Buffer.concat([Buffer.from('%PDF-1.7\n'), ...objects.map(object => Buffer.from(object)), Buffer.from('%%EOF\n')]);
+}
+
+function objectStream(content: Buffer, dictionary = '/Type /ObjStm /Filter /FlateDecode'): Buffer {
+  const data = deflateSync(content);
+  return Buffer.concat([
+    Buffer.from(`5 0 obj\n<< ${dictionary} /Length ${data.length} >>\nstream\n`),
+    data,
+    Buffer.from('\nendstream\nendobj\n'),
+  ]);
+}
+
+describe('validateFileContent', () => {
+  describe('magic bytes', () => {
+    it('rejects a file whose bytes are another known format', async () => {
+      const result = await validateFileContent(pdf('1 0 obj << /Type /Catalog >> endobj\n'), 'docx');
+
+      expect(result).toMatchObject({ valid: false, code: 'content_mismatch' });
+      expect(result.error).toMatch(/actually contains a PDF file/);
+    });
+
+    it('rejects a PDF without the %PDF- header', async () => {
+      const result = await validateFileContent(Buffer.from('Jane Doe, Engineer'), 'pdf');
+
+      expect(result).toMatchObject({ valid: false, code: 'content_mismatch' });
+    });
+
+    it('checks DOC and RTF signatures', async () => {
+      const ole = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1, 0, 0]);
+
+      expect(await validateFileContent(ole, 'doc')).toEqual({ valid: true });
+      expect(await validateFileContent(Buffer.from('Jane Doe'), 'doc')).toMatchObject({ code: 'content_mismatch' });
+      expect(await validateFileContent(Buffer.from('  {\\rtf1\\ansi Jane}'), 'rtf')).toEqual({ valid: true });
+      expect(await validateFileContent(Buffer.from('Jane Doe'), 'rtf')).toMatchObject({ code: 'content_mismatch' });
+    });
+
+    it('accepts text and rejects binary data named as text', async () => {
+      const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+      expect(await validateFileContent(Buffer.from('# Jane Doe\n\nEngineer'), 'md')).toEqual({ valid: true });
+      expect((await validateFileContent(png, 'txt')).error).toMatch(/actually contains a PNG image file/);
+      expect(await validateFileContent(Buffer.from('Jane\0Doe'), 'txt')).toMatchObject({ code: 'content_mismatch' });
+    });
+  });
+
+  describe('OOXML and ODF structure', () => {
+    it('accepts an archive with its document body', async () => {
+      expect(await validateFileContent(await zip({ 'word/document.xml': '<w:document/>' }), 'docx')).toEqual({ valid: true });
+      expect(await validateFileContent(await zip({ 'content.xml': '<office:document-content/>' }), 'odt')).toEqual({ valid: true });
+    });
+
+    it('rejects an archive without the document body', async () => {
+      const archive = await zip({ 'word/styles.xml': '<w:styles/>' });
+      const result = await validateFileContent(archive, 'docx');
+
+      expect(result).toMatchObject({ valid: false, code: 'missing_document_part' });
+      expect(result.error).toMatch(/word\/document\.xml/);
+      expect(await validateFileContent(archive, 'odt')).toMatchObject({ code: 'missing_document_part' });
+    });
+
+    it('rejects an archive without a central directory', async () => {
+      const archive = await zip({ 'word/document.xml': '<w:document/>' });
+
+      expect(await validateFileContent(archive.subarray(0, 40), 'docx')).toMatchObject({ valid: false, code: 'corrupt_file' });
+    });
+
+    it('rejects entries whose local header is missing', async () => {
+      const archive = await zip({ 'word/document.xml': '<w:document/>' });
+      archive.writeUInt32LE(0x1234, centralHeader(archive, 'word/document.xml') + 42);
+
+      expect(await validateFileContent(archive, 'docx')).toMatchObject({ valid: false, code: 'corrupt_file' });
+    });
+
+    it('rejects unsupported compression methods', async () => {
+      const archive = await zip({ 'word/document.xml': '<w:document/>' });
+      archive.writeUInt16LE(12, centralHeader(archive, 'word/document.xml') + 10);
+
+      const result = await validateFileContent(archive, 'docx');
+      expect(result).toMatchObject({ valid: false, code: 'corrupt_file' });
+      expect(result.error).toMatch(/unsupported compression/);
+    });
+  });
+
+  describe('zip bomb limits', () => {
+    it('rejects entries that declare more than the decompression budget', async () => {
+      const archive = zipWithDeclaredSize('word/document.xml', Buffer.from('<w:document/>'), OVERSIZED);
+
+      expect(await validateFileContent(archive, 'docx')).toMatchObject({ valid: false, code: 'zip_bomb' });
+    });
+
+    it('rejects entries with an extreme compression ratio', async () => {
+      const archive = zipWithDeclaredSize('word/document.xml', Buffer.alloc(2 * 1024 * 1024));
+
+      expect(await validateFileContent(archive, 'docx')).toMatchObject({ valid: false, code: 'zip_bomb' });
+    });
+
+    it('rejects archives with too many entries or ZIP64 markers', async () => {
+      const archive = await zip({ 'word/document.xml': '<w:document/>' });
+      const end = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+
+      const crowded = Buffer.from(archive);
+      crowded.writeUInt16LE(1001, end + 10);
+      expect(await validateFileContent(crowded, 'docx')).toMatchObject({ code: 'zip_bomb' });
+
+      const zip64 = Buffer.from(archive);
+      zip64.writeUInt32LE(0xffffffff, end + 16);
+      expect(await validateFileContent(zip64, 'docx')).toMatchObject({ code: 'zip_bomb' });
+    });
+
+    it('catches a central directory that understates the uncompressed size', async () => {
+      // Declaring 1 KB passes the size and ratio checks; inflating shows the truth
+      const archive = zipWithDeclaredSize('word/document.xml', Buffer.alloc(OVERSIZED), 1024);
+
+      expect(await validateFileContent(archive, 'docx')).toMatchObject({ valid: false, code: 'zip_bomb' });
+    });
+
+    it('rejects PDF object streams that inflate past the budget', async () => {
+      const result = await validateFileContent(pdf(objectStream(Buffer.alloc(OVERSIZED))), 'pdf');
+
+      expect(result).toMatchObject({ valid: false, code: 'zip_bomb' });
+    });
+  });
+
+  describe('PDF actions', () => {
+    it('accepts a PDF without scripts or launch actions', async () => {
+      expect(await validateFileContent(pdf('1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj\n'), 'pdf')).toEqual({ valid: true });
+    });
+
+    it('rejects /JavaScript and /JS actions', async () => {
+      const javascript = pdf('1 0 obj << /Type /Action /S /JavaScript /JS (app.alert(1)) >> endobj\n');
+      const js = pdf('1 0 obj << /OpenAction << /JS (app.alert(1)) >> >> endobj\n');
+
+      expect(await validateFileContent(javascript, 'pdf')).toMatchObject({ valid: false, code: 'pdf_javascript' });
+      expect(await validateFileContent(js, 'pdf')).toMatchObject({ valid: false, code: 'pdf_javascript' });
+    });
+
+    it('rejects /Launch actions', async () => {
+      const result = await validateFileContent(pdf('1 0 obj << /Type /Action /S /Launch /F (calc.exe) >> endobj\n'), 'pdf');
+
+      expect(result).toMatchObject({ valid: false, code: 'pdf_launch_action' });
+    });
+
+    it('decodes hex-escaped names', async () => {
+      const javascript = pdf('1 0 obj << /S /J#61va#53cript >> endobj\n');
+      const launch = pdf('1 0 obj << /S /#4Caunch >> endobj\n');
+
+      expect(await validateFileContent(javascript, 'pdf')).toMatchObject({ code: 'pdf_javascript' });
+      expect(await validateFileContent(launch, 'pdf')).toMatchObject({ code: 'pdf_launch_action' });
+    });
+
+    it('does not mistake longer names for actions', async () => {
+      expect(await validateFileContent(pdf('1 0 obj << /JSLint true /Launcher 1 >> endobj\n'), 'pdf')).toEqual({ valid: true });
+    });
+
+    it('finds actions hidden in compressed object streams', async () => {
+      const javascript = pdf(objectStream(Buffer.from('<< /S /JavaScript /JS (app.alert(1)) >>')));
+      const launch = pdf(objectStream(Buffer.from('<< /S /Launch >>'), '/Type /#4FbjStm /Filter /FlateDecode'));
+
+      expect(await validateFileContent(javascript, 'pdf')).toMatchObject({ code: 'pdf_javascript' });
+      expect(await validateFileContent(launch, 'pdf')).toMatchObject({ code: 'pdf_launch_action' });
+    });
+
+    it('ignores names that only appear inside other stream data', async () => {
+      const content = Buffer.from('BT (see /JavaScript docs) Tj ET');
+      const stream = Buffer.concat([
+        Buffer.from(`4 0 obj\n<< /Length ${content.length} >>\nstream\n`),
+        content,
+        Buffer.from('\nendstream\nendobj\n'),
+      ]);
+
+      expect(await validateFileContent(pdf(stream), 'pdf')).toEqual({ valid: true });
+    });
+  });
+});
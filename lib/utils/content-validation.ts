@@ -0,0 +1,326 @@
+/**
+ * Content Validation for Resume Uploads
+ * Inspects the actual bytes of an upload instead of trusting the browser-supplied MIME type
+ * and file name. Server-only: relies on Node's Buffer and zlib.
+ */
+
+import { promisify } from 'node:util';
+import { inflate, inflateRaw } from 'node:zlib';
+import { isValidPDFBuffer } from './pdf-parser';
+import { isValidDOCXBuffer } from './docx-parser';
+import { getResumeFormatByType, type ResumeFileType } from './resume-formats';
+import type { ValidationErrorCode, ValidationResult } from './file-validation';
+
+const inflateAsync = promisify(inflate);
+const inflateRawAsync = promisify(inflateRaw);
+
+// Decompression limits for ZIP-based documents (DOCX, ODT) and PDF object streams.
+// A real resume expands to a few MB at most.
+const MAX_UNCOMPRESSED_BYTES = 50 * 1024 * 1024;
+const MAX_ZIP_ENTRIES = 1000;
+const MAX_COMPRESSION_RATIO = 200;
+const RATIO_CHECK_MIN_BYTES = 1024 * 1024; // Tiny entries can have huge ratios legitimately
+
+// Bytes scanned for NUL characters when checking that a text file is really text
+const TEXT_SNIFF_BYTES = 8192;
+
+const OLE_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+// Archive part holding the document body, per ZIP-based format
+const REQUIRED_ZIP_PARTS: Partial<Record<ResumeFileType, string>> = {
+  docx: 'word/document.xml',
+  odt: 'content.xml',
+};
+
+// PDF name delimiters (whitespace and ( ) < > [ ] { } / %)
+const PDF_NAME_END = '(?=[\\s()<>\\[\\]{}/%]|$)';
+const PDF_JAVASCRIPT = new RegExp(`/(?:JavaScript|JS)${PDF_NAME_END}`);
+const PDF_LAUNCH = new RegExp(`/Launch${PDF_NAME_END}`);
+
+type ZipEntry = {
+  name: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localHeaderOffset: number;
+};
+
+/**
+ * Validate that file bytes really are a safe document of the given type
+ * @param buffer - Uploaded file bytes
+ * @param type - Format picked from the file name and MIME type
+ * @returns Validation result with a typed error code when rejected
+ */
+export async function validateFileContent(
+  buffer: Buffer | ArrayBuffer,
+  type: ResumeFileType
+): Promise<ValidationResult> {
+  const bytes = buffer instanceof ArrayBuffer ? Buffer.from(buffer) : buffer;
+
+  try {
+    switch (type) {
+      case 'pdf':
+        return await validatePDF(bytes);
+      case 'docx':
+      case 'odt':
+        return await validateZipDocument(bytes, type);
+      case 'doc':
+        return hasSignature(bytes, OLE_SIGNATURE) ? { valid: true } : mismatch(bytes, type);
+      case 'rtf':
+        return bytes.subarray(0, 64).toString('latin1').trimStart().startsWith('{\\rtf')
+          ? { valid: true }
+          : mismatch(bytes, type);
+      case 'txt':
+      case 'md':
+        return looksLikeText(bytes) ? { valid: true } : mismatch(bytes, type);
+    }
+  } catch (error) {
+    console.error('Content validation error:', error);
+    return reject('corrupt_file', 'The file could not be read. It may be damaged; try exporting it again.');
+  }
+}
+
+/**
+ * Check the PDF header and reject documents that can run code when opened
+ * Object streams are inflated so actions hidden inside compressed objects are found too
+ */
+async function validatePDF(bytes: Buffer): Promise<ValidationResult> {
+  if (!isValidPDFBuffer(bytes)) {
+    return mismatch(bytes, 'pdf');
+  }
+
+  const text = bytes.toString('latin1');
+  // Stream bodies are binary and could match by chance, so only dictionaries are scanned directly
+  const sections = [text.replace(/\bstream\r?\n[\s\S]*?\bendstream\b/g, 'stream endstream')];
+  let inflatedBytes = 0;
+
+  for (const stream of findObjectStreams(bytes, text)) {
+    const remaining = MAX_UNCOMPRESSED_BYTES - inflatedBytes;
+    try {
+      const inflated = await inflateAsync(stream, { maxOutputLength: remaining });
+      inflatedBytes += inflated.length;
+      sections.push(inflated.toString('latin1'));
+    } catch (error) {
+      if (isOutputLimitError(error)) {
+        return zipBomb();
+      }
+      // Damaged streams are skipped here; the parser reports them if they matter
+    }
+  }
+
+  for (const section of sections) {
+    const normalized = decodePDFNames(section);
+    if (PDF_JAVASCRIPT.test(normalized)) {
+      return reject('pdf_javascript', 'This PDF contains embedded JavaScript. Please export it again without scripts or form actions.');
+    }
+    if (PDF_LAUNCH.test(normalized)) {
+      return reject('pdf_launch_action', 'This PDF contains an action that launches other programs. Please export it again as a plain document.');
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Find the raw bytes of Flate-compressed object streams (/Type /ObjStm)
+ */
+function findObjectStreams(bytes: Buffer, text: string): Buffer[] {
+  const streams: Buffer[] = [];
+  const pattern = /\d+\s+\d+\s+obj\b([\s\S]*?)\bstream\r?\n/g;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    const dictionary = decodePDFNames(match[1]);
+    const start = match.index + match[0].length;
+    const end = text.indexOf('endstream', start);
+    if (end === -1) break;
+
+    if (/\/ObjStm\b/.test(dictionary) && /\/FlateDecode\b/.test(dictionary)) {
+      streams.push(bytes.subarray(start, end));
+    }
+    pattern.lastIndex = end;
+  }
+
+  return streams;
+}
+
+/**
+ * Decode #xx escapes in PDF names so /J#61vaScript is seen as /JavaScript
+ */
+function decodePDFNames(text: string): string {
+  return text.replace(/\/[^\s()<>[\]{}/%]+/g, name =>
+    name.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) => String.fromCharCode(parseInt(hex, 16)))
+  );
+}
+
+/**
+ * Check a DOCX or ODT archive: ZIP structure, required document part, and decompression limits
+ * Every entry is inflated against a shared byte budget, so headers that understate sizes are caught too
+ */
+async function validateZipDocument(bytes: Buffer, type: 'docx' | 'odt'): Promise<ValidationResult> {
+  if (!isValidDOCXBuffer(bytes)) {
+    return mismatch(bytes, type);
+  }
+
+  const entries = readZipDirectory(bytes);
+  if (entries === 'too_large') {
+    return zipBomb();
+  }
+  if (!entries) {
+    return reject('corrupt_file', 'The file is not a readable document archive. It may be damaged; try exporting it again.');
+  }
+
+  const requiredPart = REQUIRED_ZIP_PARTS[type]!;
+  if (!entries.some(entry => entry.name === requiredPart)) {
+    return reject(
+      'missing_document_part',
+      `This ${getResumeFormatByType(type)!.label} file has no document body (${requiredPart}). Please save it again from your word processor.`
+    );
+  }
+
+  const declaredSize = entries.reduce((total, entry) => total + entry.uncompressedSize, 0);
+  const suspicious = entries.some(entry =>
+    entry.uncompressedSize > RATIO_CHECK_MIN_BYTES &&
+    entry.uncompressedSize / Math.max(entry.compressedSize, 1) > MAX_COMPRESSION_RATIO
+  );
+  if (declaredSize > MAX_UNCOMPRESSED_BYTES || suspicious) {
+    return zipBomb();
+  }
+
+  let inflatedBytes = 0;
+  for (const entry of entries) {
+    const data = readEntryData(bytes, entry);
+    if (!data) {
+      return reject('corrupt_file', 'The file is not a readable document archive. It may be damaged; try exporting it again.');
+    }
+
+    const remaining = MAX_UNCOMPRESSED_BYTES - inflatedBytes;
+    let size: number;
+    if (entry.method === 0) {
+      size = data.length;
+    } else if (entry.method === 8) {
+      try {
+        size = (await inflateRawAsync(data, { maxOutputLength: remaining })).length;
+      } catch (error) {
+        if (isOutputLimitError(error)) {
+          return zipBomb();
+        }
+        throw error;
+      }
+    } else {
+      return reject('corrupt_file', 'The file uses an unsupported compression method. Please save it again from your word processor.');
+    }
+
+    inflatedBytes += size;
+    if (inflatedBytes > MAX_UNCOMPRESSED_BYTES) {
+      return zipBomb();
+    }
+  }
+
+  return { valid: true };
+}
+
+/**
+ * Read the ZIP central directory
+ * @returns Entries, null when the directory is malformed, or 'too_large' for ZIP64 / too many entries
+ */
+function readZipDirectory(bytes: Buffer): ZipEntry[] | null | 'too_large' {
+  // The end of central directory record sits in the last 22 bytes plus an optional comment
+  let eocd = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (bytes.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const entryCount = bytes.readUInt16LE(eocd + 10);
+  const directoryOffset = bytes.readUInt32LE(eocd + 16);
+  if (entryCount === 0xffff || directoryOffset === 0xffffffff || entryCount > MAX_ZIP_ENTRIES) {
+    return 'too_large';
+  }
+
+  const entries: ZipEntry[] = [];
+  let offset = directoryOffset;
+  for (let i = 0; i < entryCount; i++) {
+    if (offset + 46 > bytes.length || bytes.readUInt32LE(offset) !== 0x02014b50) return null;
+
+    const nameLength = bytes.readUInt16LE(offset + 28);
+    const extraLength = bytes.readUInt16LE(offset + 30);
+    const commentLength = bytes.readUInt16LE(offset + 32);
+    const entry: ZipEntry = {
+      name: bytes.toString('utf8', offset + 46, offset + 46 + nameLength),
+      method: bytes.readUInt16LE(offset + 10),
+      compressedSize: bytes.readUInt32LE(offset + 20),
+      uncompressedSize: bytes.readUInt32LE(offset + 24),
+      localHeaderOffset: bytes.readUInt32LE(offset + 42),
+    };
+    if (entry.uncompressedSize === 0xffffffff || entry.compressedSize === 0xffffffff) {
+      return 'too_large';
+    }
+
+    entries.push(entry);
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Slice an entry's compressed data using its local file header
+ */
+function readEntryData(bytes: Buffer, entry: ZipEntry): Buffer | null {
+  const header = entry.localHeaderOffset;
+  if (header + 30 > bytes.length || bytes.readUInt32LE(header) !== 0x04034b50) return null;
+
+  const start = header + 30 + bytes.readUInt16LE(header + 26) + bytes.readUInt16LE(header + 28);
+  const end = start + entry.compressedSize;
+  return end <= bytes.length ? bytes.subarray(start, end) : null;
+}
+
+/**
+ * Plain text has no NUL bytes and is not one of the binary formats we know
+ */
+function looksLikeText(bytes: Buffer): boolean {
+  return !bytes.subarray(0, TEXT_SNIFF_BYTES).includes(0) && detectBinaryFormat(bytes) === null;
+}
+
+/**
+ * Name the binary format the bytes actually contain, if recognizable
+ */
+function detectBinaryFormat(bytes: Buffer): string | null {
+  if (isValidPDFBuffer(bytes)) return 'PDF';
+  if (hasSignature(bytes, OLE_SIGNATURE)) return 'legacy Office (DOC)';
+  if (isValidDOCXBuffer(bytes)) return 'ZIP archive (DOCX or ODT)';
+  if (hasSignature(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'PNG image';
+  if (hasSignature(bytes, [0xff, 0xd8, 0xff])) return 'JPEG image';
+  return null;
+}
+
+function hasSignature(bytes: Buffer, signature: number[]): boolean {
+  return signature.every((byte, index) => bytes[index] === byte);
+}
+
+function isOutputLimitError(error: unknown): boolean {
+  return error instanceof RangeError && (error as NodeJS.ErrnoException).code === 'ERR_BUFFER_TOO_LARGE';
+}
+
+function reject(code: ValidationErrorCode, error: string): ValidationResult {
+  return { valid: false, code, error };
+}
+
+function mismatch(bytes: Buffer, type: ResumeFileType): ValidationResult {
+  const label = getResumeFormatByType(type)!.label;
+  const detected = detectBinaryFormat(bytes);
+  return reject(
+    'content_mismatch',
+    detected
+      ? `The file is named as ${label} but actually contains a ${detected} file.`
+      : `The file contents are not a valid ${label} document.`
+  );
+}
+
+function zipBomb(): ValidationResult {
+  return reject('zip_bomb', 'The file expands to an unreasonable size when decompressed and was rejected.');
+}
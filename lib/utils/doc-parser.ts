@@ -0,0 +1,51 @@
+/**
+ * DOC Text Extraction Utility
+ * Uses word-extractor to read legacy Word 97-2003 (.doc) binary files
+ */
+
+import WordExtractor from 'word-extractor';
+import { cleanExtractedText } from './text-cleanup';
+import type { TextExtractionResult } from './text-extraction';
+
+/**
+ * Extract text content from a legacy DOC file buffer
+ * Headers are included because many resumes keep contact details there
+ * @param buffer - DOC file as Buffer or ArrayBuffer
+ */
+export async function extractTextFromDOC(buffer: Buffer | ArrayBuffer): Promise<TextExtractionResult> {
+  try {
+    const docBuffer = buffer instanceof ArrayBuffer ? Buffer.from(buffer) : buffer;
+
+    if (docBuffer.length === 0) {
+      return {
+        success: false,
+        error: 'DOC buffer is empty',
+      };
+    }
+
+    const document = await new WordExtractor().extract(docBuffer);
+    const text = [document.getHeaders({ includeFooters: false }), document.getBody(), document.getTextboxes({ includeBody: false })]
+      .filter(part => part.trim().length > 0)
+      .join('\n\n');
+
+    if (text.trim().length === 0) {
+      return {
+        success: false,
+        error: 'No text content found in DOC. The file might be empty or corrupted.',
+      };
+    }
+
+    return {
+      success: true,
+      text: cleanExtractedText(text),
+    };
+  } catch (error) {
+    console.error('DOC parsing error:', error);
+    return {
+      success: false,
+      error: error instanceof Error
+        ? `DOC parsing failed: ${error.message}`
+        : 'An unknown error occurred while parsing the DOC file.',
+    };
+  }
+}
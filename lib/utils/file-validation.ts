@@ -1,46 +1,67 @@
 /**
  * File Validation Utilities for Resume Uploads
- * Validates file types, sizes, and MIME types for PDF and DOCX files
+ * Validates file types, sizes, and MIME types against the supported resume formats
  */
 
+import { getResumeFormat, RESUME_FORMAT_LABELS, RESUME_FORMATS } from './resume-formats';
+
 // Maximum file size: 10MB
 export const MAX_FILE_SIZE = 10 * 1024 * 1024; // 10MB in bytes
 
-// Allowed file types
-export const ALLOWED_FILE_TYPES = {
-  'application/pdf': ['.pdf'],
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-} as const;
+// Allowed file types (MIME type -> extensions)
+export const ALLOWED_FILE_TYPES: Record<string, readonly string[]> = Object.fromEntries(
+  RESUME_FORMATS.flatMap(format => format.mimeTypes.map(mimeType => [mimeType, format.extensions]))
+);
 
 // Allowed extensions
-export const ALLOWED_EXTENSIONS = ['.pdf', '.docx'] as const;
+export const ALLOWED_EXTENSIONS = RESUME_FORMATS.flatMap(format => format.extensions);
+
+/**
+ * Why an upload was rejected
+ * Shape checks (name, type, size) run in the browser and on the server; content checks
+ * (lib/utils/content-validation.ts) inspect the actual bytes on the server only
+ */
+export type ValidationErrorCode =
+  | 'empty_file'
+  | 'file_too_large'
+  | 'invalid_extension'
+  | 'invalid_type'
+  | 'content_mismatch' // Bytes do not match the format the extension claims
+  | 'corrupt_file'
+  | 'missing_document_part' // Archive lacks the part holding the document body (e.g. word/document.xml)
+  | 'pdf_javascript'
+  | 'pdf_launch_action'
+  | 'zip_bomb';
 
 export type ValidationResult = {
   valid: boolean;
   error?: string;
+  code?: ValidationErrorCode;
 };
 
 /**
- * Validates if the file type is allowed (PDF or DOCX)
+ * Validates if the file type is allowed
+ * The extension picks the format; a MIME type reported by the browser must agree with it
  */
 export function validateFileType(file: File): ValidationResult {
-  const fileType = file.type;
   const fileName = file.name.toLowerCase();
   
-  // Check MIME type
-  if (!Object.keys(ALLOWED_FILE_TYPES).includes(fileType)) {
+  // Check file extension
+  const hasValidExtension = ALLOWED_EXTENSIONS.some(ext => fileName.endsWith(ext));
+  if (!hasValidExtension) {
     return {
       valid: false,
-      error: 'Invalid file type. Only PDF and DOCX files are allowed.',
+      error: `Invalid file extension. Supported formats: ${RESUME_FORMAT_LABELS}.`,
+      code: 'invalid_extension',
     };
   }
   
-  // Check file extension as additional validation
-  const hasValidExtension = ALLOWED_EXTENSIONS.some(ext => fileName.endsWith(ext));
-  if (!hasValidExtension) {
+  // Check MIME type matches the extension
+  if (!getResumeFormat(file)) {
     return {
       valid: false,
-      error: 'Invalid file extension. Only .pdf and .docx files are allowed.',
+      error: `Invalid file type. Supported formats: ${RESUME_FORMAT_LABELS}.`,
+      code: 'invalid_type',
     };
   }
   
@@ -57,6 +78,7 @@ export function validateFileSize(file: File): ValidationResult {
     return {
       valid: false,
       error: `File size (${sizeMB}MB) exceeds the maximum allowed size of ${maxSizeMB}MB.`,
+      code: 'file_too_large',
     };
   }
   
@@ -71,6 +93,7 @@ export function validateFileNotEmpty(file: File): ValidationResult {
     return {
       valid: false,
       error: 'File is empty. Please upload a valid resume file.',
+      code: 'empty_file',
     };
   }
   
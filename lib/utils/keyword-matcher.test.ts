@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { findMentionedKeywords } from './keyword-matcher';
+
+describe('findMentionedKeywords', () => {
+  it('does not find a skill inside a longer word', () => {
+    expect(findMentionedKeywords('JavaScript developer with a digital trust focus', ['Java', 'Git', 'Rust'])).toEqual([]);
+  });
+
+  it('finds skills by name or synonym', () => {
+    expect(findMentionedKeywords('Built services in Golang, hosted on GitHub', ['Go', 'Git', 'Java'])).toEqual(['Go', 'Git']);
+  });
+
+  it('matches other keywords as whole words', () => {
+    const keywords = ['dashboards', 'data pipelines', 'data'];
+
+    expect(findMentionedKeywords('Shipped dashboards and data pipelines', keywords)).toEqual(keywords);
+    expect(findMentionedKeywords('Shipped dashboard widgets and metadata', keywords)).toEqual([]);
+  });
+});
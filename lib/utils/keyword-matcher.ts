@@ -0,0 +1,91 @@
+/**
+ * Keyword Matching Utility
+ * Tokenizes text and extracts the most significant keywords for ATS matching
+ */
+
+import { extractSkills, isSkillName, normalizeTokens } from '@/lib/scoring/skill-extractor';
+
+// Maximum number of job description keywords considered for scoring
+const MAX_KEYWORDS = 30;
+
+// Common English words that carry no signal for ATS matching
+const STOP_WORDS = new Set([
+  'a', 'about', 'above', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'been', 'being', 'both', 'but', 'by', 'can', 'could', 'do', 'does', 'each',
+  'etc', 'for', 'from', 'get', 'go', 'has', 'have', 'help', 'how', 'if', 'in', 'into', 'is',
+  'it', 'its', 'join', 'just', 'like', 'make', 'may', 'more', 'most', 'must', 'new',
+  'not', 'of', 'on', 'or', 'other', 'our', 'out', 'over', 'own', 'per', 'role', 'such',
+  'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this',
+  'those', 'through', 'to', 'team', 'up', 'us', 'use', 'using', 'very', 'want', 'was',
+  'we', 'well', 'were', 'what', 'when', 'where', 'which', 'who', 'will', 'with',
+  'within', 'work', 'working', 'would', 'year', 'years', 'you', 'your',
+  // Job posting boilerplate
+  'ability', 'candidate', 'excellent', 'experience', 'including', 'looking', 'need',
+  'plus', 'preferred', 'required', 'requirements', 'responsibilities', 'skills', 'strong',
+  // Section headings ("Nice to have", "Bonus points", "What we offer")
+  'basic', 'benefits', 'bonus', 'desired', 'duties', 'minimum', 'nice', 'offer', 'perks',
+  'pluses', 'points', 'qualifications', 'qualification',
+  // Benefits and logistics ("401k matching", "health insurance", "hybrid in San Francisco")
+  'compensation', 'dental', 'equity', 'health', 'healthcare', 'holidays', 'hybrid', 'insurance', 'leave',
+  'matching', 'medical', 'office', 'onsite', 'paid', 'parental', 'pto', 'relocation', 'remote', 'retirement',
+  'salary', 'sponsorship', 'stipend', 'vacation', 'visa', 'vision', 'wellness',
+  // Verbs and qualifiers that describe the work rather than name a skill
+  'across', 'build', 'building', 'built', 'deep', 'drive', 'ensure', 'familiar', 'familiarity', 'fast', 'good',
+  'great', 'ideal', 'ideally', 'knowledge', 'passion', 'passionate', 'proficiency', 'proficient', 'proven', 'rest',
+  'solid', 'understanding',
+]);
+
+// Shorter generic tokens are abbreviations or fragments ("ca", "ll"); short skills come from the dictionary
+const MIN_KEYWORD_LENGTH = 3;
+
+// Counts, years and plan names such as "5+", "2024" or "401k"
+const HAS_DIGIT = /\d/;
+
+// Contractions: "you'll" keeps "you", "isn't" is dropped as a whole
+const CONTRACTION = /\b([a-z]+)['’](ll|re|ve|s|d|m|t)\b/gi;
+
+/**
+ * Split text into lowercase tokens, keeping characters used in tech terms (C++, C#, Node.js)
+ */
+export function tokenize(text: string): string[] {
+  const words = text.replace(CONTRACTION, (_, word: string, suffix: string) => (suffix.toLowerCase() === 't' ? ' ' : word));
+
+  return (words.toLowerCase().match(/[a-z0-9][a-z0-9+#.]*/g) ?? [])
+    // Drop sentence punctuation captured at the end of a token
+    .map(token => token.replace(/\.+$/, ''))
+    .filter(token => token.length > 1);
+}
+
+/**
+ * Extract the most frequent meaningful keywords from a text
+ */
+export function extractKeywords(text: string, limit: number = MAX_KEYWORDS): string[] {
+  const counts = new Map<string, number>();
+
+  for (const token of tokenize(text)) {
+    if (token.length < MIN_KEYWORD_LENGTH || STOP_WORDS.has(token) || HAS_DIGIT.test(token)) continue;
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+
+  return [...counts.entries()]
+    // Most frequent first, alphabetical for stable ordering on ties
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([keyword]) => keyword);
+}
+
+/**
+ * Keywords a text mentions: dictionary skills by name or any synonym, other keywords as whole words
+ * A substring test would find Java in "JavaScript" and Git in "digital"
+ */
+export function findMentionedKeywords(text: string, keywords: string[]): string[] {
+  const skills = extractSkills(text);
+  const words = ` ${normalizeTokens(text).join(' ')} `;
+
+  return keywords.filter(keyword => {
+    if (isSkillName(keyword)) return skills.has(keyword);
+
+    const phrase = normalizeTokens(keyword).join(' ');
+    return phrase.length > 0 && words.includes(` ${phrase} `);
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * OCR Utility
+ * Recognizes text in page images locally with tesseract.js, using bundled English language data
+ */
+
+export type OCRResult = {
+  text: string;
+  confidence: number; // 0-100, averaged over pages weighted by recognized text length
+};
+
+/**
+ * Recognize text in a list of page images (PNG/JPEG bytes)
+ * @param images - One image per page, in reading order
+ */
+export async function recognizeImages(images: Uint8Array[]): Promise<OCRResult> {
+  // Dynamic imports keep tesseract out of every bundle that touches PDF parsing
+  const { createWorker } = await import('tesseract.js');
+  const { langPath, gzip } = await import('@tesseract.js-data/eng');
+
+  // Language data comes from node_modules, so no network access or cache directory is needed
+  const worker = await createWorker('eng', undefined, { langPath, gzip, cacheMethod: 'none' });
+
+  try {
+    const pages: string[] = [];
+    let weightedConfidence = 0;
+    let totalLength = 0;
+
+    for (const image of images) {
+      const { data } = await worker.recognize(Buffer.from(image));
+      const text = data.text.trim();
+      pages.push(text);
+      weightedConfidence += data.confidence * text.length;
+      totalLength += text.length;
+    }
+
+    return {
+      text: pages.join('\n\n'),
+      confidence: totalLength > 0 ? Math.round(weightedConfidence / totalLength) : 0,
+    };
+  } finally {
+    await worker.terminate();
+  }
+}
@@ -0,0 +1,54 @@
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { extractTextFromODT } from './odt-parser';
+
+async function odt(body: string): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+  zip.file('content.xml', `<?xml version="1.0"?><office:document-content><office:body>${body}</office:body></office:document-content>`);
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+describe('extractTextFromODT', () => {
+  it('puts each heading and paragraph on its own line', async () => {
+    const result = await extractTextFromODT(await odt(
+      '<office:text><text:h text:outline-level="1">Jane Doe</text:h><text:p>Engineer<text:line-break/>Toronto</text:p></office:text>'
+    ));
+
+    expect(result).toEqual({ success: true, text: 'Jane Doe\nEngineer\nToronto' });
+  });
+
+  it('turns list items into single bullets, nested or not', async () => {
+    const result = await extractTextFromODT(await odt(
+      '<text:list><text:list-item><text:p>Led a team</text:p></text:list-item>'
+      + '<text:list-item><text:list><text:list-item><text:p>Cut costs</text:p></text:list-item></text:list></text:list-item></text:list>'
+    ));
+
+    expect(result.text).toBe('• Led a team\n• Cut costs');
+  });
+
+  it('decodes entities and drops tracked deletions and comments', async () => {
+    const result = await extractTextFromODT(await odt(
+      '<text:tracked-changes><text:changed-region>Old text</text:changed-region></text:tracked-changes>'
+      + '<text:p>R&amp;D &#8211; C&#x2B;&#x2B;<office:annotation><text:p>Fix this</text:p></office:annotation></text:p>'
+    ));
+
+    expect(result.text).toBe('R&D – C++');
+  });
+
+  it('rejects archives without content.xml', async () => {
+    const zip = new JSZip();
+    zip.file('mimetype', 'application/vnd.oasis.opendocument.text');
+    const result = await extractTextFromODT(await zip.generateAsync({ type: 'nodebuffer' }));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/content is missing/);
+  });
+
+  it('rejects documents without text', async () => {
+    const result = await extractTextFromODT(await odt('<office:text><text:p/></office:text>'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No text content/);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * ODT Text Extraction Utility
+ * Reads the OpenDocument text body (content.xml) from .odt files
+ */
+
+import JSZip from 'jszip';
+import { cleanExtractedText } from './text-cleanup';
+import type { TextExtractionResult } from './text-extraction';
+
+const XML_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+};
+
+/**
+ * Decode the predefined XML entities and numeric character references
+ */
+function decodeXmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code.startsWith('#x') || code.startsWith('#X')) return String.fromCodePoint(parseInt(code.slice(2), 16));
+    if (code.startsWith('#')) return String.fromCodePoint(parseInt(code.slice(1), 10));
+    return XML_ENTITIES[code] ?? entity;
+  });
+}
+
+/**
+ * Convert OpenDocument body XML to plain text, one paragraph or heading per line
+ */
+function odfXmlToText(xml: string): string {
+  const body = xml.match(/<office:body>([\s\S]*)<\/office:body>/)?.[1] ?? xml;
+
+  return decodeXmlEntities(
+    body
+      // Tracked deletions and annotations are not part of the visible text
+      .replace(/<text:tracked-changes>[\s\S]*?<\/text:tracked-changes>/g, '')
+      .replace(/<office:annotation>[\s\S]*?<\/office:annotation>/g, '')
+      .replace(/<text:s\s+text:c="(\d+)"\s*\/>/g, (_, count: string) => ' '.repeat(Number(count)))
+      .replace(/<text:s\s*\/>/g, ' ')
+      .replace(/<text:tab\s*\/>/g, '\t')
+      .replace(/<text:line-break\s*\/>/g, '\n')
+      // List items become bullets so the resume parser keeps them as bullet points
+      .replace(/<text:list-item(?:\s[^>]*)?>/g, '• ')
+      .replace(/<\/text:(?:p|h)>/g, '\n')
+      .replace(/<table:table-cell(?:\s[^>]*)?\/>/g, '\t')
+      .replace(/<\/table:table-cell>/g, '\t')
+      .replace(/<[^>]+>/g, '')
+  );
+}
+
+/**
+ * Extract text content from an ODT file buffer
+ * @param buffer - ODT file as Buffer or ArrayBuffer
+ */
+export async function extractTextFromODT(buffer: Buffer | ArrayBuffer): Promise<TextExtractionResult> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const contentXml = await zip.file('content.xml')?.async('string');
+
+    if (!contentXml) {
+      return {
+        success: false,
+        error: 'Invalid ODT file. The document content is missing.',
+      };
+    }
+
+    const text = odfXmlToText(contentXml);
+    if (text.trim().length === 0) {
+      return {
+        success: false,
+        error: 'No text content found in ODT. The file might be empty or corrupted.',
+      };
+    }
+
+    return {
+      success: true,
+      // Nested lists would otherwise produce "• • item"
+      text: cleanExtractedText(text.replace(/^(?:• )+/gm, '• ')),
+    };
+  } catch (error) {
+    console.error('ODT parsing error:', error);
+    return {
+      success: false,
+      error: error instanceof Error
+        ? `ODT parsing failed: ${error.message}`
+        : 'An unknown error occurred while parsing the ODT file.',
+    };
+  }
+}
@@ -1,8 +1,21 @@
 /**
  * PDF Text Extraction Utility
- * Uses pdf-parse library to extract text content from PDF files
+ * Uses pdf-parse library to extract text content from PDF files,
+ * falling back to local OCR when the text layer is missing or too sparse
  */
 
+import type { PDFParse } from 'pdf-parse';
+import { recognizeImages } from './ocr';
+
+// Below this many non-whitespace characters per page the text layer is treated as missing
+const MIN_TEXT_CHARS_PER_PAGE = 100;
+
+// Resumes are short; OCR is slow, so only the first pages are recognized
+const MAX_OCR_PAGES = 5;
+
+// Render at 2x so small resume fonts stay legible to the recognizer
+const OCR_RENDER_SCALE = 2;
+
 export type PDFParseResult = {
   success: boolean;
   text?: string;
@@ -11,6 +24,10 @@ export type PDFParseResult = {
     pages: number;
     info?: unknown;
   };
+  // Present when the text came from OCR instead of the PDF text layer
+  ocr?: {
+    confidence: number; // 0-100
+  };
 };
 
 /**
@@ -45,19 +62,30 @@ export async function extractTextFromPDF(
     // Get document info for metadata
     const info = await parser.getInfo();
     
+    // Scanned PDFs have little or no text layer: recognize the rendered pages instead
+    let text = result.text ?? '';
+    let ocr: PDFParseResult['ocr'];
+    if (isTextLayerSparse(text, result.pages.length)) {
+      const ocrResult = await recognizePages(parser, result.pages.length);
+      if (ocrResult && countTextChars(ocrResult.text) > countTextChars(text)) {
+        text = ocrResult.text;
+        ocr = { confidence: ocrResult.confidence };
+      }
+    }
+    
     // Clean up parser resources
     await parser.destroy();
     
     // Validate extracted text
-    if (!result.text || result.text.trim().length === 0) {
+    if (text.trim().length === 0) {
       return {
         success: false,
-        error: 'No text content found in PDF. The file might be image-based or corrupted.',
+        error: 'No text content found in PDF, even with OCR. The file might be corrupted or the scan unreadable.',
       };
     }
     
     // Clean up extracted text
-    const cleanedText = cleanText(result.text);
+    const cleanedText = cleanText(text);
     
     return {
       success: true,
@@ -66,6 +94,7 @@ export async function extractTextFromPDF(
         pages: result.pages.length,
         info: info.info,
       },
+      ocr,
     };
   } catch (error) {
     console.error('PDF parsing error:', error);
@@ -97,6 +126,39 @@ export async function extractTextFromPDF(
   }
 }
 
+function countTextChars(text: string): number {
+  return text.replace(/\s/g, '').length;
+}
+
+/**
+ * Check whether the text layer is too thin to be the real content of the pages
+ */
+function isTextLayerSparse(text: string, pageCount: number): boolean {
+  return countTextChars(text) < MIN_TEXT_CHARS_PER_PAGE * Math.max(pageCount, 1);
+}
+
+/**
+ * Render the first pages and run OCR on them
+ * Failures are logged and yield null so the caller can fall back to the text layer
+ */
+async function recognizePages(
+  parser: PDFParse,
+  pageCount: number
+): Promise<{ text: string; confidence: number } | null> {
+  try {
+    const screenshots = await parser.getScreenshot({
+      first: Math.min(pageCount, MAX_OCR_PAGES),
+      scale: OCR_RENDER_SCALE,
+      imageBuffer: true,
+      imageDataUrl: false,
+    });
+    return await recognizeImages(screenshots.pages.map(page => page.data));
+  } catch (error) {
+    console.error('PDF OCR error:', error);
+    return null;
+  }
+}
+
 /**
  * Clean and normalize extracted text
  * Removes excessive whitespace while preserving paragraph structure
@@ -0,0 +1,96 @@
+/**
+ * Plain Text and Markdown Extraction Utility
+ * Decodes .txt files and strips Markdown syntax from .md files
+ */
+
+import { cleanExtractedText, decodeCp1252Byte } from './text-cleanup';
+import type { TextExtractionResult } from './text-extraction';
+
+/**
+ * Decode text bytes as UTF-8, falling back to Windows-1252 for legacy files
+ */
+function decodeText(buffer: Buffer | ArrayBuffer): string {
+  const bytes = buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+
+  try {
+    // ignoreBOM: false strips a leading byte order mark
+    return new TextDecoder('utf-8', { fatal: true, ignoreBOM: false }).decode(bytes);
+  } catch {
+    return Array.from(bytes, decodeCp1252Byte).join('');
+  }
+}
+
+/**
+ * Reduce Markdown to the text a reader (or ATS) would see
+ * Headings and list items stay on their own lines so section and bullet detection still works
+ */
+export function markdownToText(markdown: string): string {
+  return markdown
+    // Front matter
+    .replace(/^---\n[\s\S]*?\n---\n/, '')
+    // Fenced code markers (the code itself is kept)
+    .replace(/^[ \t]*(```|~~~).*$/gm, '')
+    // Autolinks, then HTML comments and tags
+    .replace(/<((?:https?:\/\/|mailto:)[^>\s]+)>/g, '$1')
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<[^>]+>/g, '')
+    // Images, then links: keep the link text and URL (resume links matter)
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\(([^)\s]+)(?:\s+"[^"]*")?\)/g, (_, text: string, url: string) => (text === url ? url : `${text} (${url})`))
+    // Headings, blockquotes and horizontal rules
+    .replace(/^[ \t]{0,3}#{1,6}[ \t]+(.*?)[ \t]*#*[ \t]*$/gm, '$1')
+    .replace(/^[ \t]{0,3}>[ \t]?/gm, '')
+    .replace(/^[ \t]{0,3}([-*_])([ \t]*\1){2,}[ \t]*$/gm, '')
+    // Setext heading underlines
+    .replace(/^[ \t]{0,3}(=+|-+)[ \t]*$/gm, '')
+    // Table separator rows and cell pipes
+    .replace(/^[ \t]*\|?[ \t]*:?-+:?[ \t]*(\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/gm, '')
+    .replace(/^[ \t]*\|(.*)\|[ \t]*$/gm, (_, cells: string) => cells.split('|').map(cell => cell.trim()).join('\t'))
+    // Bold, italic, strikethrough and inline code
+    .replace(/(\*\*|__)(.+?)\1/g, '$2')
+    .replace(/(^|[^\w*])([*_])(?!\s)(.+?)(?<!\s)\2(?![\w*])/g, '$1$3')
+    .replace(/~~(.+?)~~/g, '$1')
+    .replace(/`([^`]+)`/g, '$1')
+    // Escaped characters
+    .replace(/\\([\\`*_{}[\]()#+\-.!|])/g, '$1');
+}
+
+/**
+ * Extract text content from a plain text file buffer
+ * @param buffer - TXT file as Buffer or ArrayBuffer
+ */
+export async function extractTextFromTXT(buffer: Buffer | ArrayBuffer): Promise<TextExtractionResult> {
+  const text = decodeText(buffer);
+
+  if (text.trim().length === 0) {
+    return {
+      success: false,
+      error: 'The text file is empty.',
+    };
+  }
+
+  return {
+    success: true,
+    text: cleanExtractedText(text),
+  };
+}
+
+/**
+ * Extract text content from a Markdown file buffer
+ * @param buffer - Markdown file as Buffer or ArrayBuffer
+ */
+export async function extractTextFromMarkdown(buffer: Buffer | ArrayBuffer): Promise<TextExtractionResult> {
+  const text = markdownToText(decodeText(buffer).replace(/\r\n?/g, '\n'));
+
+  if (text.trim().length === 0) {
+    return {
+      success: false,
+      error: 'The Markdown file is empty.',
+    };
+  }
+
+  return {
+    success: true,
+    text: cleanExtractedText(text),
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Professional Summary Helpers
+ * Picks what a tailored summary should draw on from the resume and the job description
+ */
+
+import { extractSkills } from '@/lib/scoring/skill-extractor';
+import type { JobDescriptionDetails, ResumeDocument } from '@/lib/types/database';
+
+// Most recent roles described to the AI provider
+const MAX_HIGHLIGHT_ROLES = 3;
+// Requirements listed per summary request; summaries are a few sentences long
+const MAX_REQUIREMENTS = 6;
+// Job keywords a summary is asked to cover
+const MAX_SUMMARY_KEYWORDS = 8;
+
+export type SummaryContext = {
+  experience: string[]; // Recent roles and skills from the resume, one per line
+  requirements: string[]; // Key requirements of the job description
+  keywords: string[]; // Job keywords the resume supports, most mentioned in the job description first
+};
+
+/**
+ * Identify the resume's experience and the job's key requirements for a summary
+ * Only keywords the resume also mentions are offered, so summaries stay truthful.
+ */
+export function buildSummaryContext(
+  resumeText: string,
+  resume: ResumeDocument,
+  jobDescription: string,
+  jobDetails: JobDescriptionDetails | null
+): SummaryContext {
+  const experience = resume.experience.slice(0, MAX_HIGHLIGHT_ROLES).flatMap((role) => {
+    const heading = [role.title, role.company].filter(Boolean).join(' at ');
+    if (!heading) {
+      return [];
+    }
+    const dates = role.startDate ? ` (${role.startDate} - ${role.endDate ?? 'Present'})` : '';
+    return [heading + dates];
+  });
+  if (resume.skills.length > 0) {
+    experience.push(`Skills: ${resume.skills.join(', ')}`);
+  }
+
+  const requirements: string[] = [];
+  if (jobDetails?.seniority) {
+    requirements.push(`Seniority: ${jobDetails.seniority}`);
+  }
+  if (jobDetails?.yearsOfExperience) {
+    const { min, max } = jobDetails.yearsOfExperience;
+    requirements.push(`Experience: ${max ? `${min}-${max}` : `${min}+`} years`);
+  }
+  requirements.push(...(jobDetails?.mustHave ?? []).slice(0, MAX_REQUIREMENTS));
+
+  const resumeSkills = extractSkills(resumeText);
+  const keywords = [...extractSkills(jobDescription).values()]
+    .filter(({ skill }) => resumeSkills.has(skill.name))
+    .sort((a, b) => b.count - a.count)
+    .slice(0, MAX_SUMMARY_KEYWORDS)
+    .map(({ skill }) => skill.name);
+
+  return { experience, requirements, keywords };
+}
@@ -0,0 +1,102 @@
+/**
+ * Resume Text Edits
+ * Splits a tailored copy of a resume's extracted text into sections and applies accepted rewrites to it
+ */
+
+import { isSectionHeading } from '@/lib/parsing/resume-parser';
+import { stripBullet } from '@/lib/parsing/text-utils';
+import type { TailoredSection } from '@/lib/types/database';
+
+/**
+ * Collapse whitespace and drop the bullet glyph so a bullet matches however it was wrapped
+ */
+function normalizeBullet(text: string): string {
+  return stripBullet(text.trim()).replace(/\s+/g, ' ');
+}
+
+/**
+ * Replace one bullet in resume text
+ * The parser joins wrapped lines into one bullet, so the original may span several lines;
+ * they are replaced by a single line that keeps the first line's indentation and bullet glyph.
+ * @returns The new text, or null when the bullet is not in the text
+ */
+export function replaceBullet(text: string, original: string, replacement: string): string | null {
+  const target = normalizeBullet(original);
+  if (!target) {
+    return null;
+  }
+
+  const lines = text.split('\n');
+  for (let start = 0; start < lines.length; start++) {
+    let joined = normalizeBullet(lines[start]);
+    if (!joined || !target.startsWith(joined)) {
+      continue;
+    }
+
+    let end = start;
+    while (joined.length < target.length && end + 1 < lines.length && lines[end + 1].trim()) {
+      end++;
+      joined = `${joined} ${lines[end].trim().replace(/\s+/g, ' ')}`;
+    }
+
+    if (joined === target) {
+      const body = stripBullet(lines[start].trim());
+      const prefix = lines[start].slice(0, lines[start].indexOf(body));
+      return [...lines.slice(0, start), prefix + replacement.trim(), ...lines.slice(end + 1)].join('\n');
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Split resume text at the section headings the parser recognizes
+ * Text above the first heading (name and contact details) becomes a section without a heading.
+ * joinResumeSections puts the sections back together.
+ */
+export function splitResumeSections(text: string): TailoredSection[] {
+  const sections: Array<{ heading: string | null; lines: string[] }> = [{ heading: null, lines: [] }];
+
+  for (const line of text.split(/\r?\n/)) {
+    if (isSectionHeading(line)) {
+      sections.push({ heading: line.trim(), lines: [] });
+    } else {
+      sections[sections.length - 1].lines.push(line);
+    }
+  }
+
+  return sections
+    .map(({ heading, lines }) => ({ heading, text: lines.join('\n').replace(/^\s*\n|\s+$/g, '') }))
+    .filter((section, index) => index > 0 || section.text.length > 0);
+}
+
+/**
+ * Join sections into resume text, a blank line between sections
+ */
+export function joinResumeSections(sections: TailoredSection[]): string {
+  return sections
+    .map(({ heading, text }) => [heading, text].filter(Boolean).join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * Replace one bullet in whichever section contains it
+ * @returns The updated sections and the index of the changed one, or null when no section has the bullet
+ */
+export function replaceBulletInSections(
+  sections: TailoredSection[],
+  original: string,
+  replacement: string
+): { sections: TailoredSection[]; index: number } | null {
+  for (let index = 0; index < sections.length; index++) {
+    const text = replaceBullet(sections[index].text, original, replacement);
+    if (text !== null) {
+      return {
+        sections: sections.map((section, i) => (i === index ? { ...section, text } : section)),
+        index,
+      };
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import {
+  computeTextFingerprint,
+  findNearDuplicate,
+  fingerprintDistance,
+  hashFileContent,
+  NEAR_DUPLICATE_MAX_DISTANCE,
+  normalizeResumeText,
+} from './resume-fingerprint';
+
+const RESUME = `Jane Doe
+Senior Software Engineer, Toronto
+
+Experience
+• Led a team of five engineers building a payments platform in TypeScript and Go
+• Cut API latency by 40% by moving hot paths to a Redis cache
+• Designed the event pipeline on Kafka that processes two million orders a day
+• Mentored junior developers and ran the weekly architecture review
+
+Skills
+TypeScript, Go, PostgreSQL, Redis, Kafka, Kubernetes, AWS`;
+
+const OTHER_RESUME = `John Smith
+Registered Nurse
+
+Experience
+• Provided patient care on a 30-bed cardiac unit at St. Mary's Hospital
+• Trained new nurses on electronic health records and medication safety
+• Coordinated discharge plans with physicians, pharmacists and families
+
+Certifications
+BLS, ACLS, Critical Care Registered Nurse`;
+
+describe('hashFileContent', () => {
+  it('hashes identical bytes identically', () => {
+    const bytes = new TextEncoder().encode('Jane Doe').buffer;
+
+    expect(hashFileContent(bytes)).toBe(hashFileContent(new TextEncoder().encode('Jane Doe').buffer));
+    expect(hashFileContent(bytes)).not.toBe(hashFileContent(new TextEncoder().encode('Jane Doe.').buffer));
+    expect(hashFileContent(bytes)).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('normalizeResumeText', () => {
+  it('keeps lowercased words and drops punctuation, bullets and accents', () => {
+    expect(normalizeResumeText('• Café  — C++, C# & Node.js!')).toEqual(['cafe', 'c++', 'c#', 'node', 'js']);
+  });
+});
+
+describe('computeTextFingerprint', () => {
+  it('returns 16 hex digits, or null without words', () => {
+    expect(computeTextFingerprint(RESUME)).toMatch(/^[0-9a-f]{16}$/);
+    expect(computeTextFingerprint(' • — ')).toBeNull();
+  });
+
+  it('ignores formatting differences', () => {
+    const reformatted = RESUME.toUpperCase().replace(/•/g, '-').replace(/\n/g, '\n\n');
+
+    expect(computeTextFingerprint(reformatted)).toBe(computeTextFingerprint(RESUME));
+  });
+
+  it('keeps a small edit within the near-duplicate distance', () => {
+    const edited = RESUME.replace('five engineers', 'six engineers');
+
+    expect(fingerprintDistance(computeTextFingerprint(RESUME)!, computeTextFingerprint(edited)!))
+      .toBeLessThanOrEqual(NEAR_DUPLICATE_MAX_DISTANCE);
+  });
+
+  it('puts unrelated resumes far apart', () => {
+    expect(fingerprintDistance(computeTextFingerprint(RESUME)!, computeTextFingerprint(OTHER_RESUME)!))
+      .toBeGreaterThan(NEAR_DUPLICATE_MAX_DISTANCE);
+  });
+});
+
+describe('fingerprintDistance', () => {
+  it('counts differing bits', () => {
+    expect(fingerprintDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(fingerprintDistance('0000000000000000', '8000000000000003')).toBe(3);
+    expect(fingerprintDistance('0000000000000000', 'ffffffffffffffff')).toBe(64);
+  });
+});
+
+describe('findNearDuplicate', () => {
+  it('returns the closest resume within the distance', () => {
+    const resumes = [
+      { id: 'far', text_fingerprint: 'ffffffffffffffff' },
+      { id: 'none', text_fingerprint: null },
+      { id: 'near', text_fingerprint: '0000000000000007' },
+      { id: 'nearest', text_fingerprint: '0000000000000001' },
+    ];
+
+    expect(findNearDuplicate('0000000000000000', resumes)?.id).toBe('nearest');
+  });
+
+  it('returns null when nothing is close enough', () => {
+    expect(findNearDuplicate('0000000000000000', [{ text_fingerprint: '00000000000007ff' }])).toBeNull();
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Resume Fingerprints
+ * Detects re-uploads of the same resume: a hash of the file bytes catches identical files, and a
+ * SimHash of the extracted text catches the same resume saved under another name or format.
+ */
+
+import { createHash } from 'crypto';
+
+// Fingerprints this many bits apart (out of 64) or fewer are treated as the same resume.
+// A one-word edit moves about 2 bits, a few edited lines about 10; unrelated resumes are 25+ apart
+export const NEAR_DUPLICATE_MAX_DISTANCE = 10;
+
+// Words per shingle; longer shingles make the fingerprint more sensitive to reordering
+const SHINGLE_SIZE = 3;
+
+const FNV_OFFSET_BASIS = BigInt('0xcbf29ce484222325');
+const FNV_PRIME = BigInt('0x100000001b3');
+const MASK_64 = (BigInt(1) << BigInt(64)) - BigInt(1);
+
+/**
+ * SHA-256 of the file bytes, hex encoded
+ */
+export function hashFileContent(buffer: ArrayBuffer): string {
+  return createHash('sha256').update(Buffer.from(buffer)).digest('hex');
+}
+
+/**
+ * Lowercased words of the text, ignoring punctuation, bullets and spacing
+ */
+export function normalizeResumeText(text: string): string[] {
+  return text
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}+#]+/u)
+    .filter(Boolean);
+}
+
+/**
+ * 64-bit SimHash of the text's word shingles, as 16 hex digits
+ * Similar texts get fingerprints that differ in few bits (see fingerprintDistance).
+ * @returns null when the text has no words
+ */
+export function computeTextFingerprint(text: string): string | null {
+  const words = normalizeResumeText(text);
+  if (words.length === 0) {
+    return null;
+  }
+
+  const weights = new Array<number>(64).fill(0);
+  const shingleCount = Math.max(words.length - SHINGLE_SIZE + 1, 1);
+  for (let i = 0; i < shingleCount; i++) {
+    const hash = fnv1a64(words.slice(i, i + SHINGLE_SIZE).join(' '));
+    for (let bit = 0; bit < 64; bit++) {
+      weights[bit] += (hash >> BigInt(bit)) & BigInt(1) ? 1 : -1;
+    }
+  }
+
+  let fingerprint = BigInt(0);
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) {
+      fingerprint |= BigInt(1) << BigInt(bit);
+    }
+  }
+
+  return fingerprint.toString(16).padStart(16, '0');
+}
+
+/**
+ * Number of differing bits between two text fingerprints (0-64)
+ */
+export function fingerprintDistance(a: string, b: string): number {
+  let diff = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+  let count = 0;
+  while (diff > BigInt(0)) {
+    count += Number(diff & BigInt(1));
+    diff >>= BigInt(1);
+  }
+  return count;
+}
+
+function fnv1a64(value: string): bigint {
+  let hash = FNV_OFFSET_BASIS;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= BigInt(value.charCodeAt(i));
+    hash = (hash * FNV_PRIME) & MASK_64;
+  }
+  return hash;
+}
+
+export type DuplicateMatch = {
+  kind: 'exact' | 'near'; // Same file bytes, or a text fingerprint within NEAR_DUPLICATE_MAX_DISTANCE
+  resumeId: string;
+  title: string;
+  versionNumber: number;
+};
+
+/**
+ * What to do with an upload that matches an existing resume
+ * link: keep the existing resume and discard the upload; version: store it as a new version of the
+ * match; upload: store it as a separate resume anyway
+ */
+export type DuplicateResolution = 'link' | 'version' | 'upload';
+
+export const DUPLICATE_RESOLUTIONS: readonly DuplicateResolution[] = ['link', 'version', 'upload'];
+
+/**
+ * Find the stored resume whose text fingerprint is closest to the given one, if it is close enough
+ */
+export function findNearDuplicate<T extends { text_fingerprint: string | null }>(
+  fingerprint: string,
+  resumes: T[]
+): T | null {
+  let closest: T | null = null;
+  let closestDistance = NEAR_DUPLICATE_MAX_DISTANCE + 1;
+
+  for (const resume of resumes) {
+    if (!resume.text_fingerprint) continue;
+    const distance = fingerprintDistance(fingerprint, resume.text_fingerprint);
+    if (distance < closestDistance) {
+      closest = resume;
+      closestDistance = distance;
+    }
+  }
+
+  return closest;
+}
@@ -0,0 +1,96 @@
+/**
+ * Resume File Formats
+ * Client-safe description of every supported resume format: extensions, MIME types and labels.
+ * Text extraction for each format is registered in lib/utils/text-extraction.ts.
+ */
+
+export type ResumeFileType = 'pdf' | 'docx' | 'doc' | 'odt' | 'rtf' | 'txt' | 'md';
+
+export type ResumeFormat = {
+  type: ResumeFileType;
+  label: string;
+  extensions: readonly string[];
+  mimeTypes: readonly string[]; // The first entry is the canonical type used for storage
+};
+
+export const RESUME_FORMATS: readonly ResumeFormat[] = [
+  { type: 'pdf', label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  {
+    type: 'docx',
+    label: 'DOCX',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  { type: 'doc', label: 'DOC', extensions: ['.doc'], mimeTypes: ['application/msword'] },
+  { type: 'odt', label: 'ODT', extensions: ['.odt'], mimeTypes: ['application/vnd.oasis.opendocument.text'] },
+  {
+    type: 'rtf',
+    label: 'RTF',
+    extensions: ['.rtf'],
+    mimeTypes: ['application/rtf', 'text/rtf', 'application/x-rtf', 'text/richtext'],
+  },
+  { type: 'txt', label: 'TXT', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  {
+    type: 'md',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown', 'text/plain'],
+  },
+];
+
+// Browsers report these when they do not recognize a file; the extension decides instead
+const GENERIC_MIME_TYPES = ['', 'application/octet-stream'];
+
+// Value for <input type="file" accept>
+export const RESUME_FILE_ACCEPT = RESUME_FORMATS
+  .flatMap(format => [...format.extensions, ...format.mimeTypes])
+  .filter((value, index, all) => all.indexOf(value) === index)
+  .join(',');
+
+// Human-readable list, e.g. "PDF, DOCX, DOC, ODT, RTF, TXT, Markdown"
+export const RESUME_FORMAT_LABELS = RESUME_FORMATS.map(format => format.label).join(', ');
+
+/**
+ * Find the format of an uploaded file from its extension, checked against the reported MIME type
+ * @returns The matching format, or null when the extension is unknown or contradicts the MIME type
+ */
+export function getResumeFormat(file: { name: string; type: string }): ResumeFormat | null {
+  const name = file.name.toLowerCase();
+  const format = RESUME_FORMATS.find(candidate => candidate.extensions.some(ext => name.endsWith(ext)));
+
+  if (!format) return null;
+  if (GENERIC_MIME_TYPES.includes(file.type) || format.mimeTypes.includes(file.type)) return format;
+  return null;
+}
+
+/**
+ * Look up a format by the file type stored on a resume
+ */
+export function getResumeFormatByType(type: ResumeFileType): ResumeFormat {
+  return RESUME_FORMATS.find(format => format.type === type)!;
+}
+
+/**
+ * Strip a supported resume extension from a filename
+ */
+export function stripResumeExtension(filename: string): string {
+  const name = filename.toLowerCase();
+  const extension = RESUME_FORMATS
+    .flatMap(format => format.extensions)
+    .find(ext => name.endsWith(ext));
+  return extension ? filename.slice(0, -extension.length) : filename;
+}
+
+/**
+ * Generate a resume title from a filename, e.g. "jane_doe-resume.pdf" → "Jane Doe Resume"
+ */
+export function generateResumeTitle(filename: string): string {
+  const title = stripResumeExtension(filename)
+    .replace(/[_-]/g, ' ')
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1).toLowerCase())
+    .join(' ')
+    .trim();
+
+  return title || 'Untitled Resume';
+}
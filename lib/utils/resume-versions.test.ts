@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { buildVersionTree, findLineageRoot, flattenVersionTree, type ResumeVersion } from './resume-versions';
+
+const version = (id: string, parentId: string | null, versionNumber: number): ResumeVersion => ({
+  id,
+  title: `Resume ${id}`,
+  parent_id: parentId,
+  version_number: versionNumber,
+  change_note: null,
+  created_at: '2026-01-01T00:00:00Z',
+});
+
+// a -> b -> d, a -> c; e stands alone
+const RESUMES = [
+  version('d', 'b', 4),
+  version('c', 'a', 3),
+  version('b', 'a', 2),
+  version('a', null, 1),
+  version('e', null, 1),
+];
+
+describe('findLineageRoot', () => {
+  it('walks up to the first version', () => {
+    expect(findLineageRoot(RESUMES, 'd')?.id).toBe('a');
+    expect(findLineageRoot(RESUMES, 'e')?.id).toBe('e');
+  });
+
+  it('stops at a resume whose parent was deleted', () => {
+    expect(findLineageRoot([version('b', 'a', 2)], 'b')?.id).toBe('b');
+  });
+
+  it('stops on a cycle', () => {
+    expect(findLineageRoot([version('a', 'b', 1), version('b', 'a', 2)], 'a')).not.toBeNull();
+  });
+
+  it('returns null for an unknown resume', () => {
+    expect(findLineageRoot(RESUMES, 'z')).toBeNull();
+  });
+});
+
+describe('buildVersionTree', () => {
+  it('builds the tree containing any resume of the lineage, children by version number', () => {
+    const tree = buildVersionTree(RESUMES, 'c')!;
+
+    expect(tree.resume.id).toBe('a');
+    expect(tree.children.map(child => child.resume.id)).toEqual(['b', 'c']);
+    expect(tree.children[0].children.map(child => child.resume.id)).toEqual(['d']);
+  });
+});
+
+describe('flattenVersionTree', () => {
+  it('lists the lineage ordered by version number', () => {
+    const tree = buildVersionTree(RESUMES, 'a')!;
+
+    expect(flattenVersionTree(tree).map(resume => resume.id)).toEqual(['a', 'b', 'c', 'd']);
+  });
+});
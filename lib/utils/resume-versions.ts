@@ -0,0 +1,70 @@
+/**
+ * Resume Version Helpers
+ * Builds version trees from the parent_id links between resumes
+ */
+
+import type { Resume } from '@/lib/types/database';
+
+export type ResumeVersion = Pick<Resume, 'id' | 'title' | 'parent_id' | 'version_number' | 'change_note' | 'created_at'>;
+
+export type VersionNode<T extends ResumeVersion = ResumeVersion> = {
+  resume: T;
+  children: VersionNode<T>[];
+};
+
+/**
+ * Find the root of the lineage a resume belongs to
+ * @param resumes - All resumes visible to the user
+ * @param resumeId - Any resume in the lineage
+ */
+export function findLineageRoot<T extends ResumeVersion>(resumes: T[], resumeId: string): T | null {
+  const byId = new Map(resumes.map(resume => [resume.id, resume]));
+  let current = byId.get(resumeId) ?? null;
+  const seen = new Set<string>();
+
+  // Parents can be missing if they were deleted; the guard stops on malformed cycles
+  while (current?.parent_id && byId.has(current.parent_id) && !seen.has(current.id)) {
+    seen.add(current.id);
+    current = byId.get(current.parent_id)!;
+  }
+
+  return current;
+}
+
+/**
+ * Build the version tree containing a resume
+ * @param resumes - All resumes visible to the user
+ * @param resumeId - Any resume in the lineage
+ */
+export function buildVersionTree<T extends ResumeVersion>(resumes: T[], resumeId: string): VersionNode<T> | null {
+  const root = findLineageRoot(resumes, resumeId);
+  if (!root) return null;
+
+  const childrenByParent = new Map<string, T[]>();
+  for (const resume of resumes) {
+    if (!resume.parent_id) continue;
+    const siblings = childrenByParent.get(resume.parent_id) ?? [];
+    siblings.push(resume);
+    childrenByParent.set(resume.parent_id, siblings);
+  }
+
+  const visited = new Set<string>();
+  const toNode = (resume: T): VersionNode<T> => {
+    visited.add(resume.id);
+    const children = (childrenByParent.get(resume.id) ?? [])
+      .filter(child => !visited.has(child.id))
+      .sort((a, b) => a.version_number - b.version_number);
+    return { resume, children: children.map(toNode) };
+  };
+
+  return toNode(root);
+}
+
+/**
+ * Flatten a version tree into a list ordered by version number
+ */
+export function flattenVersionTree<T extends ResumeVersion>(node: VersionNode<T>): T[] {
+  const collect = (current: VersionNode<T>): T[] => [current.resume, ...current.children.flatMap(collect)];
+  return collect(node).sort((a, b) => a.version_number - b.version_number);
+}
+
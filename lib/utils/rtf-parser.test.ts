@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { extractTextFromRTF, rtfToText } from './rtf-parser';
+
+describe('rtfToText', () => {
+  it('keeps the text and drops font, color and info tables', () => {
+    const rtf = '{\\rtf1\\ansi{\\fonttbl{\\f0 Arial;}}{\\colortbl;\\red0\\green0\\blue0;}{\\info{\\title Secret}}'
+      + '\\f0\\fs24 Jane Doe\\par Engineer\\par}';
+
+    expect(rtfToText(rtf)).toBe('Jane Doe\nEngineer\n');
+  });
+
+  it('skips optional destinations marked with \\*', () => {
+    expect(rtfToText('{\\rtf1 Visible{\\*\\generator Word 16;} text}')).toBe('Visible text');
+  });
+
+  it('decodes code page bytes, escapes and typographic control words', () => {
+    expect(rtfToText("{\\rtf1 Caf\\'e9 \\{x\\} \\endash  \\ldblquote ok\\rdblquote }")).toBe('Café {x} – “ok”');
+  });
+
+  it('decodes \\u escapes and skips their ANSI fallback', () => {
+    expect(rtfToText('{\\rtf1 \\u321?ukasz \\u-10179?\\u-8704?x}')).toBe('Łukasz 😀x');
+  });
+});
+
+describe('extractTextFromRTF', () => {
+  it('returns cleaned text', async () => {
+    const result = await extractTextFromRTF(Buffer.from('{\\rtf1\\ansi Jane   Doe\\par\\par\\par\\tab Engineer}'));
+
+    expect(result).toEqual({ success: true, text: 'Jane Doe\n\nEngineer' });
+  });
+
+  it('rejects files that are not RTF', async () => {
+    const result = await extractTextFromRTF(Buffer.from('Jane Doe'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/Invalid RTF/);
+  });
+
+  it('rejects documents without text', async () => {
+    const result = await extractTextFromRTF(Buffer.from('{\\rtf1{\\fonttbl{\\f0 Arial;}}}'));
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/No text content/);
+  });
+});
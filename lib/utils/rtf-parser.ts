@@ -0,0 +1,186 @@
+/**
+ * RTF Text Extraction Utility
+ * Minimal RTF reader: keeps the document text, drops formatting, tables of fonts/colors/styles and embedded objects
+ */
+
+import { cleanExtractedText, decodeCp1252Byte } from './text-cleanup';
+import type { TextExtractionResult } from './text-extraction';
+
+// Destination groups that never contain visible document text
+const IGNORED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'info', 'pict', 'object', 'themedata', 'datastore', 'latentstyles',
+  'listtable', 'listoverridetable', 'rsidtbl', 'generator', 'xmlnstbl', 'mmathPr', 'filetbl', 'revtbl',
+  'fldinst', 'colorschememapping', 'fontemb', 'nonshppict', 'shpinst',
+]);
+
+// Control words that produce characters
+const CONTROL_WORD_TEXT: Record<string, string> = {
+  par: '\n',
+  line: '\n',
+  sect: '\n',
+  page: '\n',
+  row: '\n',
+  cell: '\t',
+  tab: '\t',
+  emdash: '—',
+  endash: '–',
+  bullet: '•',
+  lquote: '‘',
+  rquote: '’',
+  ldblquote: '“',
+  rdblquote: '”',
+  emspace: ' ',
+  enspace: ' ',
+};
+
+/**
+ * Convert RTF source to plain text
+ */
+export function rtfToText(rtf: string): string {
+  let output = '';
+  let depth = 0;
+  // Depth at which an ignored destination started; everything deeper is skipped
+  let ignoreFromDepth: number | null = null;
+  // Characters to skip after a \uN escape (its ANSI fallback), per \ucN
+  let unicodeSkip = 1;
+  let pendingSkip = 0;
+  let i = 0;
+
+  const emit = (text: string) => {
+    if (ignoreFromDepth !== null) return;
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    output += text;
+  };
+
+  while (i < rtf.length) {
+    const char = rtf[i];
+
+    if (char === '{') {
+      depth++;
+      i++;
+      // "{\*\destination ..." marks an optional destination readers may ignore
+      if (rtf.startsWith('\\*', i) && ignoreFromDepth === null) {
+        ignoreFromDepth = depth;
+      }
+      continue;
+    }
+
+    if (char === '}') {
+      if (ignoreFromDepth === depth) ignoreFromDepth = null;
+      depth--;
+      i++;
+      continue;
+    }
+
+    if (char === '\r' || char === '\n') {
+      i++;
+      continue;
+    }
+
+    if (char !== '\\') {
+      emit(char);
+      i++;
+      continue;
+    }
+
+    const next = rtf[i + 1];
+
+    // Escaped literal characters
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      i += 2;
+      continue;
+    }
+
+    // \'hh: a byte in the document code page
+    if (next === "'") {
+      emit(decodeCp1252Byte(parseInt(rtf.slice(i + 2, i + 4), 16)));
+      i += 4;
+      continue;
+    }
+
+    // Control symbols
+    if (next === '~') {
+      emit(' ');
+      i += 2;
+      continue;
+    }
+    if (next === '_' || next === '-') {
+      emit(next === '_' ? '-' : '');
+      i += 2;
+      continue;
+    }
+    if (next === '\n' || next === '\r') {
+      emit('\n');
+      i += 2;
+      continue;
+    }
+
+    // Control word: \name[-]N followed by an optional space delimiter
+    const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 40));
+    if (!match) {
+      i += 2;
+      continue;
+    }
+
+    const [token, word, param] = match;
+    i += token.length;
+
+    if (IGNORED_DESTINATIONS.has(word) && ignoreFromDepth === null) {
+      ignoreFromDepth = depth;
+    } else if (word === 'uc') {
+      unicodeSkip = Number(param ?? 1);
+    } else if (word === 'u' && param !== undefined) {
+      // Negative values encode code points above 32767
+      const codePoint = Number(param) < 0 ? Number(param) + 65536 : Number(param);
+      emit(String.fromCharCode(codePoint));
+      if (ignoreFromDepth === null) pendingSkip = unicodeSkip;
+    } else if (word in CONTROL_WORD_TEXT) {
+      emit(CONTROL_WORD_TEXT[word]);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Extract text content from an RTF file buffer
+ * @param buffer - RTF file as Buffer or ArrayBuffer
+ */
+export async function extractTextFromRTF(buffer: Buffer | ArrayBuffer): Promise<TextExtractionResult> {
+  try {
+    // RTF is 7-bit ASCII with escapes for everything else
+    const rtf = Buffer.from(buffer instanceof ArrayBuffer ? new Uint8Array(buffer) : buffer).toString('latin1');
+
+    if (!rtf.trimStart().startsWith('{\\rtf')) {
+      return {
+        success: false,
+        error: 'Invalid RTF file. The file may be corrupted or not a valid RTF document.',
+      };
+    }
+
+    const text = rtfToText(rtf);
+    if (text.trim().length === 0) {
+      return {
+        success: false,
+        error: 'No text content found in RTF. The file might be empty.',
+      };
+    }
+
+    return {
+      success: true,
+      text: cleanExtractedText(text),
+    };
+  } catch (error) {
+    console.error('RTF parsing error:', error);
+    return {
+      success: false,
+      error: error instanceof Error
+        ? `RTF parsing failed: ${error.message}`
+        : 'An unknown error occurred while parsing the RTF file.',
+    };
+  }
+}
@@ -0,0 +1,29 @@
+/**
+ * Shared decoding and cleanup for text extracted from resume files
+ */
+
+// Windows-1252 code points for bytes 0x80-0x9F; other bytes map to Latin-1
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008DŽ\u008F\u0090‘’“”•–—˜™š›œ\u009DžŸ';
+
+/**
+ * Decode a single Windows-1252 byte
+ * Node's TextDecoder treats this encoding as Latin-1, which loses smart quotes and dashes
+ */
+export function decodeCp1252Byte(byte: number): string {
+  return byte >= 0x80 && byte <= 0x9f ? CP1252_HIGH[byte - 0x80] : String.fromCharCode(byte);
+}
+
+/**
+ * Normalize whitespace while preserving line structure
+ * Collapses runs of spaces and tabs, trims each line, and keeps at most one blank line in a row
+ */
+export function cleanExtractedText(text: string): string {
+  return text
+    .replace(/\r\n?/g, '\n')
+    .replace(/[ \t\u00A0]+/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { diffLines, getDiffStats } from './text-diff';
+
+describe('diffLines', () => {
+  it('marks added, removed and unchanged lines', () => {
+    expect(diffLines('Summary\nPython\nGo', 'Summary\nGo\nRust')).toEqual([
+      { type: 'unchanged', text: 'Summary' },
+      { type: 'removed', text: 'Python' },
+      { type: 'unchanged', text: 'Go' },
+      { type: 'added', text: 'Rust' },
+    ]);
+  });
+
+  it('ignores trailing whitespace and blank lines', () => {
+    expect(diffLines('Summary  \n\nGo', 'Summary\nGo\n\n')).toEqual([
+      { type: 'unchanged', text: 'Summary' },
+      { type: 'unchanged', text: 'Go' },
+    ]);
+  });
+});
+
+describe('getDiffStats', () => {
+  it('counts lines by type', () => {
+    expect(getDiffStats(diffLines('a\nb\nc', 'a\nc\nd\ne'))).toEqual({ added: 2, removed: 1, unchanged: 2 });
+  });
+});
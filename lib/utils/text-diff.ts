@@ -0,0 +1,91 @@
+/**
+ * Line-based Text Diff
+ * Compares two texts line by line using a longest common subsequence
+ */
+
+export type DiffLineType = 'unchanged' | 'added' | 'removed';
+
+export type DiffLine = {
+  type: DiffLineType;
+  text: string;
+};
+
+export type DiffStats = {
+  added: number;
+  removed: number;
+  unchanged: number;
+};
+
+// The LCS table is lines(a) x lines(b); past this size fall back to a plain replace
+const MAX_DIFF_CELLS = 4_000_000;
+
+/**
+ * Split text into lines for diffing, ignoring trailing whitespace and blank lines
+ */
+function toDiffLines(text: string): string[] {
+  return text
+    .split('\n')
+    .map(line => line.trimEnd())
+    .filter(line => line.trim().length > 0);
+}
+
+/**
+ * Diff two texts line by line
+ * @param before - Older text
+ * @param after - Newer text
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = toDiffLines(before);
+  const b = toDiffLines(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(text => ({ type: 'removed' as const, text })),
+      ...b.map(text => ({ type: 'added' as const, text })),
+    ];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths: Uint32Array[] = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = a[i] === b[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      result.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      result.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      result.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+
+  for (; i < a.length; i++) result.push({ type: 'removed', text: a[i] });
+  for (; j < b.length; j++) result.push({ type: 'added', text: b[j] });
+
+  return result;
+}
+
+/**
+ * Count added, removed and unchanged lines in a diff
+ */
+export function getDiffStats(diff: DiffLine[]): DiffStats {
+  const stats: DiffStats = { added: 0, removed: 0, unchanged: 0 };
+  for (const line of diff) {
+    stats[line.type]++;
+  }
+  return stats;
+}
@@ -0,0 +1,79 @@
+/**
+ * Text Extraction Registry
+ * Maps each resume file type to the extractor that turns its bytes into plain text
+ */
+
+import { extractTextFromPDF } from './pdf-parser';
+import { extractTextFromDOCX } from './docx-parser';
+import { extractTextFromDOC } from './doc-parser';
+import { extractTextFromODT } from './odt-parser';
+import { extractTextFromRTF } from './rtf-parser';
+import { extractTextFromMarkdown, extractTextFromTXT } from './plain-text-parser';
+import { getResumeFormat, type ResumeFileType } from './resume-formats';
+
+export type TextExtractionResult = {
+  success: boolean;
+  text?: string;
+  error?: string;
+  ocrConfidence?: number; // Set when the text was recognized with OCR (0-100)
+};
+
+export type TextExtractor = (buffer: ArrayBuffer) => Promise<TextExtractionResult>;
+
+/**
+ * Version of the extraction logic, stored on each resume as extractor_version
+ * Bump it whenever a parser or its text cleanup changes output, so stored resumes can be re-parsed
+ * (see docs/PDF_PARSE_FIX.md and POST /api/admin/reparse-resumes).
+ */
+export const EXTRACTOR_VERSION = 1;
+
+const extractors = new Map<ResumeFileType, TextExtractor>([
+  ['pdf', async (buffer) => {
+    const result = await extractTextFromPDF(buffer);
+    return { success: result.success, text: result.text, error: result.error, ocrConfidence: result.ocr?.confidence };
+  }],
+  ['docx', extractTextFromDOCX],
+  ['doc', extractTextFromDOC],
+  ['odt', extractTextFromODT],
+  ['rtf', extractTextFromRTF],
+  ['txt', extractTextFromTXT],
+  ['md', extractTextFromMarkdown],
+]);
+
+/**
+ * Register or replace the extractor for a file type
+ */
+export function registerTextExtractor(type: ResumeFileType, extractor: TextExtractor): void {
+  extractors.set(type, extractor);
+}
+
+/**
+ * Extract text from file bytes of a known resume file type
+ */
+export async function extractText(buffer: ArrayBuffer, type: ResumeFileType): Promise<TextExtractionResult> {
+  const extractor = extractors.get(type);
+  if (!extractor) {
+    return {
+      success: false,
+      error: `No text extractor registered for ${type} files`,
+    };
+  }
+
+  return extractor(buffer);
+}
+
+/**
+ * Extract text from an uploaded file, picking the extractor from its extension and MIME type
+ */
+export async function extractTextFromUpload(file: File): Promise<TextExtractionResult & { type?: ResumeFileType }> {
+  const format = getResumeFormat(file);
+  if (!format) {
+    return {
+      success: false,
+      error: 'Unsupported file type',
+    };
+  }
+
+  const result = await extractText(await file.arrayBuffer(), format.type);
+  return { ...result, type: format.type };
+}
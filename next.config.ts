@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // tesseract.js spawns worker scripts and reads language data relative to its own files,
+  // so both must be loaded from node_modules instead of being bundled
+  serverExternalPackages: ["tesseract.js", "@tesseract.js-data/eng"],
 };
 
 export default nextConfig;
@@ -0,0 +1,25 @@
+-- =====================================================
+-- CV-Optima Structured Resume Content
+-- Migration: 004_structured_content
+-- Description: Store the parsed resume document model next to raw_text
+-- =====================================================
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- structured_content holds the ResumeDocument produced by lib/parsing/resume-parser.ts:
+-- contact block, summary, experience entries (title, company, dates, bullets),
+-- education, skills, certifications and any other recognized sections
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS structured_content JSONB;
+
+COMMENT ON COLUMN resumes.structured_content IS 'Parsed resume document (contact, summary, experience, education, skills, certifications) derived from raw_text';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the column was added:
+
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'resumes' AND column_name = 'structured_content';
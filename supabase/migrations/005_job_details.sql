@@ -0,0 +1,32 @@
+-- =====================================================
+-- CV-Optima Job Description Details
+-- Migration: 005_job_details
+-- Description: Store the parsed job description and make analyses searchable by role and company
+-- =====================================================
+
+-- Trigram matching powers case-insensitive partial search (ILIKE '%term%')
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- =====================================================
+-- ANALYSES TABLE
+-- =====================================================
+-- job_details holds the JobDescriptionDetails produced by lib/parsing/job-description-parser.ts:
+-- title, company, location, must-have / nice-to-have requirements, years of experience and seniority
+
+ALTER TABLE analyses
+    ADD COLUMN IF NOT EXISTS job_details JSONB;
+
+COMMENT ON COLUMN analyses.job_details IS 'Parsed job description (title, company, location, requirements, years of experience, seniority)';
+
+-- Indexes for searching saved analyses by role and company
+CREATE INDEX IF NOT EXISTS idx_analyses_job_title_trgm ON analyses USING GIN (job_title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_analyses_company_name_trgm ON analyses USING GIN (company_name gin_trgm_ops);
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the column and indexes were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'analyses' AND column_name = 'job_details';
+-- SELECT indexname FROM pg_indexes WHERE tablename = 'analyses';
@@ -0,0 +1,104 @@
+-- =====================================================
+-- CV-Optima Resume Versions
+-- Migration: 006_resume_versions
+-- Description: Parent/child lineage, version numbers and change notes between resumes
+-- =====================================================
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- A resume uploaded as a new version of another one points at it through parent_id.
+-- version_number is unique within a lineage (the tree of resumes sharing a root): the
+-- insert trigger below assigns the lineage's highest version + 1.
+-- Deleting a resume detaches its children, which become the roots of their own lineage.
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES resumes(id) ON DELETE SET NULL,
+    ADD COLUMN IF NOT EXISTS version_number INTEGER DEFAULT 1 NOT NULL CHECK (version_number >= 1),
+    ADD COLUMN IF NOT EXISTS change_note TEXT;
+
+ALTER TABLE resumes
+    DROP CONSTRAINT IF EXISTS resumes_parent_not_self;
+ALTER TABLE resumes
+    ADD CONSTRAINT resumes_parent_not_self CHECK (parent_id IS NULL OR parent_id <> id);
+
+COMMENT ON COLUMN resumes.parent_id IS 'Resume this one is a new version of (NULL for the first version)';
+COMMENT ON COLUMN resumes.version_number IS 'Position in the lineage, starting at 1';
+COMMENT ON COLUMN resumes.change_note IS 'What changed compared to the parent version';
+
+CREATE INDEX IF NOT EXISTS idx_resumes_parent_id ON resumes(parent_id);
+
+-- =====================================================
+-- PARENT OWNERSHIP
+-- =====================================================
+-- RLS only checks the row being written, so make sure a resume can never
+-- be attached to a parent owned by another user
+
+CREATE OR REPLACE FUNCTION check_resume_parent_owner()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF NEW.parent_id IS NOT NULL AND NOT EXISTS (
+        SELECT 1 FROM resumes WHERE id = NEW.parent_id AND user_id = NEW.user_id
+    ) THEN
+        RAISE EXCEPTION 'Parent resume % does not belong to this user', NEW.parent_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS check_resume_parent_owner ON resumes;
+CREATE TRIGGER check_resume_parent_owner
+    BEFORE INSERT OR UPDATE OF parent_id ON resumes
+    FOR EACH ROW
+    EXECUTE FUNCTION check_resume_parent_owner();
+
+-- =====================================================
+-- VERSION NUMBERS
+-- =====================================================
+-- Numbered by the database rather than the caller: the root of the lineage is locked
+-- first, so concurrent uploads of new versions are numbered one after another. Named
+-- to run after check_resume_parent_owner.
+
+CREATE OR REPLACE FUNCTION set_resume_version_number()
+RETURNS TRIGGER AS $$
+DECLARE
+    lineage_root UUID;
+BEGIN
+    IF NEW.parent_id IS NULL THEN
+        NEW.version_number := 1;
+        RETURN NEW;
+    END IF;
+
+    WITH RECURSIVE ancestors AS (
+        SELECT id, parent_id FROM resumes WHERE id = NEW.parent_id
+        UNION
+        SELECT r.id, r.parent_id FROM resumes r JOIN ancestors a ON r.id = a.parent_id
+    )
+    SELECT id INTO lineage_root FROM ancestors WHERE parent_id IS NULL;
+
+    PERFORM 1 FROM resumes WHERE id = lineage_root FOR UPDATE;
+
+    WITH RECURSIVE lineage AS (
+        SELECT id, version_number FROM resumes WHERE id = lineage_root
+        UNION
+        SELECT r.id, r.version_number FROM resumes r JOIN lineage l ON r.parent_id = l.id
+    )
+    SELECT COALESCE(MAX(version_number), 0) + 1 INTO NEW.version_number FROM lineage;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS set_resume_version_number ON resumes;
+CREATE TRIGGER set_resume_version_number
+    BEFORE INSERT ON resumes
+    FOR EACH ROW
+    EXECUTE FUNCTION set_resume_version_number();
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the columns were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'resumes' AND column_name IN ('parent_id', 'version_number', 'change_note');
@@ -0,0 +1,75 @@
+-- =====================================================
+-- CV-Optima Resume File Paths
+-- Migration: 007_resume_file_path
+-- Description: Store the storage object path instead of a public URL for resume files
+-- =====================================================
+
+-- The resumes bucket is private, so public URLs are either broken or leak personal data.
+-- Resumes now keep the object path ({user_id}/{timestamp}_{filename}) and downloads go
+-- through /api/resumes/[id]/download, which checks ownership and redirects to a short-lived signed URL.
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS file_path TEXT;
+
+-- Backfill from the stored URL: .../storage/v1/object/public/resumes/{path}
+UPDATE resumes
+SET file_path = substring(file_url FROM '/resumes/(.+)$')
+WHERE file_path IS NULL;
+
+ALTER TABLE resumes
+    ALTER COLUMN file_path SET NOT NULL;
+
+ALTER TABLE resumes
+    DROP COLUMN IF EXISTS file_url;
+
+COMMENT ON COLUMN resumes.file_path IS 'Object path in the private resumes storage bucket: {user_id}/{timestamp}_{filename}';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resumes_file_path ON resumes(file_path);
+
+-- =====================================================
+-- HELPER FUNCTION: Clean up orphaned storage files
+-- =====================================================
+-- Same as 003_storage_policies, matching on the stored path instead of the URL suffix
+
+CREATE OR REPLACE FUNCTION public.cleanup_orphaned_resume_files()
+RETURNS INTEGER AS $$
+DECLARE
+    deleted_count INTEGER := 0;
+    storage_file RECORD;
+BEGIN
+    -- Find storage files without corresponding resume records
+    FOR storage_file IN
+        SELECT so.name, so.bucket_id
+        FROM storage.objects so
+        WHERE so.bucket_id = 'resumes'
+        AND (storage.foldername(so.name))[1] = auth.uid()::text
+        AND NOT EXISTS (
+            SELECT 1 FROM resumes r
+            WHERE r.file_path = so.name
+            AND r.user_id = auth.uid()
+        )
+    LOOP
+        -- Delete the orphaned file
+        DELETE FROM storage.objects
+        WHERE bucket_id = storage_file.bucket_id
+        AND name = storage_file.name;
+        
+        deleted_count := deleted_count + 1;
+    END LOOP;
+    
+    RETURN deleted_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify every resume has a path and file_url is gone:
+
+-- SELECT count(*) FROM resumes WHERE file_path IS NULL;
+-- SELECT column_name FROM information_schema.columns
+-- WHERE table_name = 'resumes' AND column_name IN ('file_url', 'file_path');
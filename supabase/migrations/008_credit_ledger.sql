@@ -0,0 +1,192 @@
+-- =====================================================
+-- CV-Optima Credit Ledger
+-- Migration: 008_credit_ledger
+-- Description: Record every credit charge, refund and grant, and enforce metering server-side
+-- =====================================================
+
+-- Paid operations (analyses, rewrites) reserve credits before they run through
+-- reserve_credits() and give them back through refund_credits() if they fail.
+-- Both run as SECURITY DEFINER; users can no longer change profiles.credits directly.
+-- Only the server (service role) may refund: users can read their charge ids from the ledger,
+-- so a user-callable refund would hand back the credits of operations that succeeded.
+
+-- =====================================================
+-- CREDIT LEDGER TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS credit_ledger (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('charge', 'refund', 'grant')),
+    amount INTEGER NOT NULL CHECK (amount <> 0),
+    balance_after INTEGER NOT NULL CHECK (balance_after >= 0),
+    reason TEXT NOT NULL,
+    refund_of UUID REFERENCES credit_ledger(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    CHECK ((kind = 'charge') = (amount < 0)),
+    CHECK ((kind = 'refund') = (refund_of IS NOT NULL))
+);
+
+COMMENT ON TABLE credit_ledger IS 'Append-only history of credit balance changes';
+COMMENT ON COLUMN credit_ledger.kind IS 'charge (negative amount), refund of a charge, or grant (signup, purchase, opening balance)';
+COMMENT ON COLUMN credit_ledger.amount IS 'Signed change in credits: negative for charges, positive for refunds and grants';
+COMMENT ON COLUMN credit_ledger.balance_after IS 'profiles.credits right after this entry was applied';
+COMMENT ON COLUMN credit_ledger.reason IS 'Operation or cause, e.g. analysis, rewrite, signup';
+COMMENT ON COLUMN credit_ledger.refund_of IS 'Charge this refund reverses';
+
+CREATE INDEX IF NOT EXISTS idx_credit_ledger_user_created ON credit_ledger(user_id, created_at DESC);
+-- A charge can be refunded at most once
+CREATE UNIQUE INDEX IF NOT EXISTS idx_credit_ledger_refund_of ON credit_ledger(refund_of) WHERE refund_of IS NOT NULL;
+
+ALTER TABLE credit_ledger ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own history; entries are only written by the functions below
+CREATE POLICY "Users can view own credit ledger"
+ON credit_ledger
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Opening balance for existing users, so the ledger sums to profiles.credits
+INSERT INTO credit_ledger (user_id, kind, amount, balance_after, reason)
+SELECT p.id, 'grant', p.credits, p.credits, 'opening_balance'
+FROM profiles p
+WHERE p.credits > 0
+AND NOT EXISTS (SELECT 1 FROM credit_ledger l WHERE l.user_id = p.id);
+
+-- =====================================================
+-- LOCK DOWN PROFILES.CREDITS
+-- =====================================================
+-- The "update own profile" policy would otherwise let users set any balance through the API.
+-- Column privileges keep full_name editable while credits only change through the functions below.
+
+REVOKE INSERT, UPDATE ON profiles FROM anon, authenticated;
+GRANT INSERT (id, full_name) ON profiles TO authenticated;
+GRANT UPDATE (full_name) ON profiles TO authenticated;
+
+-- =====================================================
+-- HELPER FUNCTION: Reserve credits
+-- =====================================================
+-- Atomically deducts credits and records the charge.
+-- Returns the ledger entry id (needed for a refund), or NULL when the balance is too low.
+
+CREATE OR REPLACE FUNCTION public.reserve_credits(amount INTEGER, reason TEXT)
+RETURNS UUID AS $$
+DECLARE
+    new_balance INTEGER;
+    entry_id UUID;
+BEGIN
+    IF amount IS NULL OR amount <= 0 THEN
+        RAISE EXCEPTION 'Credit amount must be positive';
+    END IF;
+
+    UPDATE profiles
+    SET credits = credits - reserve_credits.amount
+    WHERE id = auth.uid()
+    AND credits >= reserve_credits.amount
+    RETURNING credits INTO new_balance;
+
+    IF new_balance IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    INSERT INTO credit_ledger (user_id, kind, amount, balance_after, reason)
+    VALUES (auth.uid(), 'charge', -reserve_credits.amount, new_balance, reserve_credits.reason)
+    RETURNING id INTO entry_id;
+
+    RETURN entry_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- HELPER FUNCTION: Refund credits
+-- =====================================================
+-- Gives back a charge made by reserve_credits when the operation failed.
+-- Returns FALSE if the charge does not exist or was already refunded. Service role only.
+
+CREATE OR REPLACE FUNCTION public.refund_credits(charge_id UUID)
+RETURNS BOOLEAN AS $$
+DECLARE
+    charge RECORD;
+    new_balance INTEGER;
+BEGIN
+    SELECT * INTO charge
+    FROM credit_ledger
+    WHERE id = charge_id
+    AND kind = 'charge'
+    FOR UPDATE;
+
+    IF NOT FOUND OR EXISTS (SELECT 1 FROM credit_ledger WHERE refund_of = charge_id) THEN
+        RETURN FALSE;
+    END IF;
+
+    UPDATE profiles
+    SET credits = credits - charge.amount
+    WHERE id = charge.user_id
+    RETURNING credits INTO new_balance;
+
+    INSERT INTO credit_ledger (user_id, kind, amount, balance_after, reason, refund_of)
+    VALUES (charge.user_id, 'refund', -charge.amount, new_balance, charge.reason, charge_id);
+
+    RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refund_credits(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.refund_credits(UUID) TO service_role;
+
+-- =====================================================
+-- HELPER FUNCTION: Deduct credits
+-- =====================================================
+-- Kept for compatibility with 002; now goes through the ledger
+
+CREATE OR REPLACE FUNCTION public.deduct_credits(amount INTEGER DEFAULT 1)
+RETURNS BOOLEAN AS $$
+BEGIN
+    RETURN public.reserve_credits(deduct_credits.amount, 'deduct_credits') IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- SIGNUP GRANT
+-- =====================================================
+-- Same as 002, plus a ledger entry for the free credits
+
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.profiles (id, full_name, credits)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.email),
+        5  -- Default 5 free credits
+    );
+
+    INSERT INTO public.credit_ledger (user_id, kind, amount, balance_after, reason)
+    VALUES (NEW.id, 'grant', 5, 5, 'signup');
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- COMMENTS
+-- =====================================================
+
+COMMENT ON FUNCTION public.reserve_credits(INTEGER, TEXT) IS
+'Deducts credits for an operation and returns the ledger charge id, or NULL if the balance is too low';
+
+COMMENT ON FUNCTION public.refund_credits(UUID) IS
+'Reverses a charge made by reserve_credits, at most once; service role only';
+
+COMMENT ON FUNCTION public.deduct_credits(INTEGER) IS
+'Deducts credits through the ledger; returns FALSE if the balance is too low';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the ledger matches profile balances:
+
+-- SELECT p.id, p.credits, COALESCE(SUM(l.amount), 0) AS ledger_total
+-- FROM profiles p LEFT JOIN credit_ledger l ON l.user_id = p.id
+-- GROUP BY p.id, p.credits
+-- HAVING p.credits <> COALESCE(SUM(l.amount), 0);
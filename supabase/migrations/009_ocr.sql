@@ -0,0 +1,26 @@
+-- =====================================================
+-- CV-Optima OCR Metadata
+-- Migration: 009_ocr
+-- Description: Record when resume text came from OCR and how confident the recognizer was
+-- =====================================================
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- Scanned PDFs have no usable text layer, so their pages are rendered and recognized
+-- locally with tesseract.js (lib/utils/ocr.ts). Analyses warn when OCR confidence is low.
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS ocr_used BOOLEAN DEFAULT FALSE NOT NULL,
+    ADD COLUMN IF NOT EXISTS ocr_confidence REAL CHECK (ocr_confidence >= 0 AND ocr_confidence <= 100);
+
+COMMENT ON COLUMN resumes.ocr_used IS 'True when raw_text was recognized from page images instead of the file text layer';
+COMMENT ON COLUMN resumes.ocr_confidence IS 'Mean OCR confidence (0-100) when ocr_used, NULL otherwise';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the columns were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'resumes' AND column_name IN ('ocr_used', 'ocr_confidence');
@@ -0,0 +1,49 @@
+-- =====================================================
+-- CV-Optima Additional Resume Formats
+-- Migration: 010_more_file_types
+-- Description: Accept legacy Word (.doc), OpenDocument (.odt), RTF, plain text and Markdown resumes
+-- =====================================================
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- Text is extracted by the parser registry in lib/utils/text-extraction.ts,
+-- which maps each file_type to its extractor
+
+ALTER TABLE resumes
+    DROP CONSTRAINT IF EXISTS resumes_file_type_check;
+
+ALTER TABLE resumes
+    ADD CONSTRAINT resumes_file_type_check
+    CHECK (file_type IN ('pdf', 'docx', 'doc', 'odt', 'rtf', 'txt', 'md'));
+
+COMMENT ON COLUMN resumes.file_type IS 'File format: pdf, docx, doc, odt, rtf, txt or md';
+
+-- =====================================================
+-- STORAGE BUCKET
+-- =====================================================
+-- Uploads set the canonical MIME type of the format (see lib/utils/resume-formats.ts)
+
+UPDATE storage.buckets
+SET allowed_mime_types = ARRAY[
+    'application/pdf',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/msword',
+    'application/vnd.oasis.opendocument.text',
+    'application/rtf',
+    'text/rtf',
+    'application/x-rtf',
+    'text/richtext',
+    'text/plain',
+    'text/markdown',
+    'text/x-markdown'
+]
+WHERE id = 'resumes';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the constraint and bucket were updated:
+
+-- SELECT pg_get_constraintdef(oid) FROM pg_constraint WHERE conname = 'resumes_file_type_check';
+-- SELECT allowed_mime_types FROM storage.buckets WHERE id = 'resumes';
@@ -0,0 +1,133 @@
+-- =====================================================
+-- CV-Optima Upload Pipeline
+-- Migration: 011_upload_pipeline
+-- Description: Track each upload through explicit states and reconcile the resumes table with the bucket
+-- =====================================================
+
+-- An upload is recorded before its file reaches the bucket, then moves
+-- pending → uploaded → extracted → persisted (or failed). Retries with the same
+-- idempotency key resume the existing upload instead of storing a second file.
+-- A scheduled reconciler (app/api/cron/reconcile-storage) finishes or rolls back
+-- uploads that stalled, removes objects without a resume row and flags resume rows
+-- whose object is gone.
+
+-- =====================================================
+-- RESUME UPLOADS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS resume_uploads (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    idempotency_key TEXT NOT NULL,
+    file_path TEXT NOT NULL,
+    status TEXT DEFAULT 'pending' NOT NULL
+        CHECK (status IN ('pending', 'uploaded', 'extracted', 'persisted', 'failed')),
+    resume_id UUID REFERENCES resumes(id) ON DELETE SET NULL,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    UNIQUE (user_id, idempotency_key)
+);
+
+COMMENT ON TABLE resume_uploads IS 'Upload pipeline state, one row per upload attempt key';
+COMMENT ON COLUMN resume_uploads.idempotency_key IS 'Client-generated key; retries with the same key resume this upload';
+COMMENT ON COLUMN resume_uploads.file_path IS 'Object path the file is (or will be) stored under';
+COMMENT ON COLUMN resume_uploads.status IS 'pending, uploaded, extracted, persisted or failed';
+COMMENT ON COLUMN resume_uploads.resume_id IS 'Resume created by this upload once persisted';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_resume_uploads_file_path ON resume_uploads(file_path);
+-- The reconciler scans unfinished uploads by age
+CREATE INDEX IF NOT EXISTS idx_resume_uploads_in_flight ON resume_uploads(updated_at)
+    WHERE status IN ('pending', 'uploaded', 'extracted');
+
+CREATE TRIGGER update_resume_uploads_updated_at
+    BEFORE UPDATE ON resume_uploads
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE resume_uploads ENABLE ROW LEVEL SECURITY;
+
+-- Users can read their own uploads; only the service role writes them. The reconciler
+-- deletes whatever file_path names, so users must never be able to set it.
+CREATE POLICY "Users can view own uploads"
+ON resume_uploads
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- The same goes for resumes.file_path and the text extracted from the file: the server writes
+-- them with the service role. Users keep reading and deleting their own resumes through RLS,
+-- and the title is the only column they may change.
+
+REVOKE INSERT, UPDATE ON resumes FROM anon, authenticated;
+GRANT UPDATE (title) ON resumes TO authenticated;
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS file_missing BOOLEAN DEFAULT FALSE NOT NULL;
+
+COMMENT ON COLUMN resumes.file_missing IS 'Set by the storage reconciler when the object at file_path no longer exists';
+
+-- =====================================================
+-- RECONCILER FUNCTIONS
+-- =====================================================
+-- Called with the service role only. Objects are listed here but deleted through the
+-- Storage API, which also removes the underlying blobs.
+
+-- Objects in the resumes bucket with no resume row and no unfinished upload
+CREATE OR REPLACE FUNCTION public.find_orphaned_resume_objects(older_than INTERVAL DEFAULT INTERVAL '1 hour')
+RETURNS TABLE (name TEXT) AS $$
+    SELECT so.name
+    FROM storage.objects so
+    WHERE so.bucket_id = 'resumes'
+    AND so.created_at < NOW() - older_than
+    AND NOT EXISTS (SELECT 1 FROM public.resumes r WHERE r.file_path = so.name)
+    AND NOT EXISTS (
+        SELECT 1 FROM public.resume_uploads u
+        WHERE u.file_path = so.name
+        AND u.status IN ('pending', 'uploaded', 'extracted')
+    )
+    ORDER BY so.created_at
+    LIMIT 1000;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Flag resumes whose object is gone, and clear the flag when it is back
+CREATE OR REPLACE FUNCTION public.sync_resume_file_missing()
+RETURNS TABLE (flagged INTEGER, restored INTEGER) AS $$
+DECLARE
+    flagged_count INTEGER;
+    restored_count INTEGER;
+BEGIN
+    UPDATE resumes r
+    SET file_missing = TRUE
+    WHERE NOT r.file_missing
+    AND NOT EXISTS (SELECT 1 FROM storage.objects so WHERE so.bucket_id = 'resumes' AND so.name = r.file_path);
+    GET DIAGNOSTICS flagged_count = ROW_COUNT;
+
+    UPDATE resumes r
+    SET file_missing = FALSE
+    WHERE r.file_missing
+    AND EXISTS (SELECT 1 FROM storage.objects so WHERE so.bucket_id = 'resumes' AND so.name = r.file_path);
+    GET DIAGNOSTICS restored_count = ROW_COUNT;
+
+    RETURN QUERY SELECT flagged_count, restored_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.find_orphaned_resume_objects(INTERVAL) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.sync_resume_file_missing() FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.find_orphaned_resume_objects(INTERVAL) TO service_role;
+GRANT EXECUTE ON FUNCTION public.sync_resume_file_missing() TO service_role;
+
+-- Superseded by the reconciler: it deleted storage.objects rows directly, which leaves the blobs behind
+DROP FUNCTION IF EXISTS public.cleanup_orphaned_resume_files();
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the table, column and functions were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'resume_uploads';
+-- SELECT column_name FROM information_schema.columns WHERE table_name = 'resumes' AND column_name = 'file_missing';
+-- SELECT proname FROM pg_proc WHERE proname IN ('find_orphaned_resume_objects', 'sync_resume_file_missing');
@@ -0,0 +1,106 @@
+-- =====================================================
+-- CV-Optima Background Jobs
+-- Migration: 012_jobs
+-- Description: Queue resume parsing and analysis as background jobs with retries and progress
+-- =====================================================
+
+-- Server actions enqueue a job and return right away. The worker (lib/jobs/worker.ts)
+-- claims due jobs with claim_jobs(), reports the current stage as it goes and retries
+-- failures with exponential backoff. Clients follow a job through Realtime or polling.
+-- Jobs are written with the service role only; users can read their own.
+
+-- =====================================================
+-- JOBS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    kind TEXT NOT NULL CHECK (kind IN ('parse', 'analyze')),
+    status TEXT DEFAULT 'queued' NOT NULL CHECK (status IN ('queued', 'running', 'succeeded', 'failed')),
+    stage TEXT DEFAULT 'queued' NOT NULL,
+    progress INTEGER DEFAULT 0 NOT NULL CHECK (progress >= 0 AND progress <= 100),
+    payload JSONB DEFAULT '{}'::jsonb NOT NULL,
+    result JSONB,
+    error TEXT,
+    idempotency_key TEXT,
+    attempts INTEGER DEFAULT 0 NOT NULL CHECK (attempts >= 0),
+    max_attempts INTEGER DEFAULT 3 NOT NULL CHECK (max_attempts >= 1),
+    run_after TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    locked_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE jobs IS 'Background parse and analyze jobs';
+COMMENT ON COLUMN jobs.kind IS 'parse (extract and store an uploaded resume) or analyze (score a resume against a job description)';
+COMMENT ON COLUMN jobs.status IS 'queued, running, succeeded or failed';
+COMMENT ON COLUMN jobs.stage IS 'Current step, one of the stages listed for the kind in lib/jobs/stages.ts';
+COMMENT ON COLUMN jobs.progress IS 'Rough completion percentage (0-100) derived from the stage';
+COMMENT ON COLUMN jobs.payload IS 'Job input, written by the server only';
+COMMENT ON COLUMN jobs.result IS 'Job output once succeeded';
+COMMENT ON COLUMN jobs.idempotency_key IS 'Repeated requests with the same key return the existing job';
+COMMENT ON COLUMN jobs.run_after IS 'Earliest time the job may run; pushed back after a failed attempt';
+COMMENT ON COLUMN jobs.locked_at IS 'When a worker claimed the job; stale locks are reclaimed';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_jobs_idempotency ON jobs(user_id, kind, idempotency_key)
+    WHERE idempotency_key IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_jobs_user_created ON jobs(user_id, created_at DESC);
+-- The worker scans due and running jobs
+CREATE INDEX IF NOT EXISTS idx_jobs_due ON jobs(run_after) WHERE status IN ('queued', 'running');
+
+CREATE TRIGGER update_jobs_updated_at
+    BEFORE UPDATE ON jobs
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE jobs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own jobs"
+ON jobs
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Stream job updates to the browser (RLS applies to Realtime subscriptions)
+ALTER PUBLICATION supabase_realtime ADD TABLE jobs;
+
+-- =====================================================
+-- CLAIM JOBS
+-- =====================================================
+-- Locks up to batch_size due jobs for one worker. Running jobs whose lock is older than
+-- lock_timeout belong to a worker that died and are claimed again. Each claim counts as an attempt.
+
+CREATE OR REPLACE FUNCTION public.claim_jobs(batch_size INTEGER DEFAULT 1, lock_timeout INTERVAL DEFAULT INTERVAL '10 minutes')
+RETURNS SETOF jobs AS $$
+BEGIN
+    RETURN QUERY
+    UPDATE jobs j
+    SET status = 'running',
+        locked_at = NOW(),
+        attempts = j.attempts + 1
+    WHERE j.id IN (
+        SELECT id FROM jobs
+        WHERE (status = 'queued' AND run_after <= NOW())
+        OR (status = 'running' AND locked_at < NOW() - lock_timeout)
+        ORDER BY run_after
+        LIMIT batch_size
+        FOR UPDATE SKIP LOCKED
+    )
+    RETURNING j.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_jobs(INTEGER, INTERVAL) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_jobs(INTEGER, INTERVAL) TO service_role;
+
+COMMENT ON FUNCTION public.claim_jobs(INTEGER, INTERVAL) IS
+'Claims due jobs (and jobs with stale locks) for a worker; service role only';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the table and function were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'jobs';
+-- SELECT proname FROM pg_proc WHERE proname = 'claim_jobs';
+-- SELECT tablename FROM pg_publication_tables WHERE pubname = 'supabase_realtime';
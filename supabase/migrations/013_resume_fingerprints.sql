@@ -0,0 +1,32 @@
+-- =====================================================
+-- CV-Optima Duplicate Detection
+-- Migration: 013_resume_fingerprints
+-- Description: Store a hash of each resume file and a fingerprint of its text to detect re-uploads
+-- =====================================================
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- content_hash is the SHA-256 of the uploaded bytes and catches identical files under another name.
+-- text_fingerprint is a 64-bit SimHash of the extracted words (lib/utils/resume-fingerprint.ts);
+-- fingerprints a few bits apart mean the same resume saved in another format or lightly edited.
+-- Rows uploaded before this migration get both values the next time they are re-parsed.
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS content_hash TEXT CHECK (content_hash ~ '^[0-9a-f]{64}$'),
+    ADD COLUMN IF NOT EXISTS text_fingerprint TEXT CHECK (text_fingerprint ~ '^[0-9a-f]{16}$');
+
+COMMENT ON COLUMN resumes.content_hash IS 'SHA-256 of the uploaded file bytes (hex)';
+COMMENT ON COLUMN resumes.text_fingerprint IS '64-bit SimHash of the normalized raw_text (16 hex digits)';
+
+-- Exact duplicates are looked up per user before a file is stored
+CREATE INDEX IF NOT EXISTS idx_resumes_user_content_hash ON resumes(user_id, content_hash)
+    WHERE content_hash IS NOT NULL;
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the columns were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'resumes' AND column_name IN ('content_hash', 'text_fingerprint');
@@ -0,0 +1,218 @@
+-- =====================================================
+-- CV-Optima Storage Quotas
+-- Migration: 014_storage_quotas
+-- Description: Per-plan limits on stored bytes and resume count, reserved before an upload is stored
+-- =====================================================
+
+-- Each profile belongs to a plan; plan_quotas holds the limits for every plan so they can be
+-- changed without a deploy. parseResume records each upload through claim_resume_upload(), which
+-- checks both limits and inserts the pending upload in one transaction, so parallel uploads cannot
+-- all pass the check before any of them is counted (lib/supabase/quotas.ts). Files reach the
+-- bucket through the server only; get_user_quota() reports usage for the Vault meter.
+
+-- =====================================================
+-- PLAN QUOTAS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS plan_quotas (
+    plan TEXT PRIMARY KEY,
+    max_storage_bytes BIGINT NOT NULL CHECK (max_storage_bytes > 0),
+    max_resumes INTEGER NOT NULL CHECK (max_resumes > 0),
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE plan_quotas IS 'Storage limits per plan';
+COMMENT ON COLUMN plan_quotas.max_storage_bytes IS 'Total size of stored resume files';
+COMMENT ON COLUMN plan_quotas.max_resumes IS 'Number of resumes, counting every version';
+
+INSERT INTO plan_quotas (plan, max_storage_bytes, max_resumes) VALUES
+    ('free', 50 * 1024 * 1024, 25),
+    ('pro', 2048::BIGINT * 1024 * 1024, 500)
+ON CONFLICT (plan) DO NOTHING;
+
+CREATE TRIGGER update_plan_quotas_updated_at
+    BEFORE UPDATE ON plan_quotas
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE plan_quotas ENABLE ROW LEVEL SECURITY;
+
+-- Limits are public; they are changed from the dashboard or with the service role
+CREATE POLICY "Anyone can view plan quotas"
+ON plan_quotas
+FOR SELECT
+USING (true);
+
+-- =====================================================
+-- PROFILES TABLE
+-- =====================================================
+-- Not covered by the column privileges from 008, so users cannot change their own plan
+
+ALTER TABLE profiles
+    ADD COLUMN IF NOT EXISTS plan TEXT DEFAULT 'free' NOT NULL REFERENCES plan_quotas(plan);
+
+COMMENT ON COLUMN profiles.plan IS 'Plan whose limits in plan_quotas apply to this user';
+
+-- =====================================================
+-- RESUME UPLOADS TABLE
+-- =====================================================
+
+ALTER TABLE resume_uploads
+    ADD COLUMN IF NOT EXISTS file_size BIGINT CHECK (file_size >= 0);
+
+COMMENT ON COLUMN resume_uploads.file_size IS 'Bytes reserved against the storage quota while the upload is pending';
+
+-- =====================================================
+-- STORAGE POLICIES
+-- =====================================================
+-- Direct uploads from the browser would skip the quota, so files are written by the server
+-- (service role) only. Users keep reading and deleting their own files.
+
+DROP POLICY IF EXISTS "Users can upload resumes to own folder" ON storage.objects;
+DROP POLICY IF EXISTS "Users can update own resumes" ON storage.objects;
+
+-- =====================================================
+-- HELPER FUNCTION: Quota and usage of a user
+-- =====================================================
+-- Stored bytes come from the bucket, plus the reserved size of pending uploads whose file is
+-- not stored yet (a file stored moments before its status changes is briefly counted twice).
+-- Resumes count stored rows plus every unfinished upload, so a bulk upload cannot overshoot
+-- the limit while its files are stored or its parse jobs are queued.
+
+CREATE OR REPLACE FUNCTION public.quota_usage(target_user_id UUID)
+RETURNS TABLE (
+    plan TEXT,
+    max_storage_bytes BIGINT,
+    max_resumes INTEGER,
+    storage_bytes BIGINT,
+    resume_count INTEGER
+) AS $$
+    SELECT
+        q.plan,
+        q.max_storage_bytes,
+        q.max_resumes,
+        (
+            (
+                SELECT COALESCE(SUM((so.metadata->>'size')::BIGINT), 0)
+                FROM storage.objects so
+                WHERE so.bucket_id = 'resumes'
+                AND (storage.foldername(so.name))[1] = target_user_id::text
+            )
+            + (
+                SELECT COALESCE(SUM(u.file_size), 0)
+                FROM resume_uploads u
+                WHERE u.user_id = target_user_id AND u.status = 'pending'
+            )
+        )::BIGINT,
+        (
+            (SELECT COUNT(*) FROM resumes r WHERE r.user_id = target_user_id)
+            + (
+                SELECT COUNT(*) FROM resume_uploads u
+                WHERE u.user_id = target_user_id AND u.status IN ('pending', 'uploaded', 'extracted')
+            )
+        )::INTEGER
+    FROM profiles p
+    JOIN plan_quotas q ON q.plan = p.plan
+    WHERE p.id = target_user_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.quota_usage(UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.quota_usage(UUID) TO service_role;
+
+-- =====================================================
+-- HELPER FUNCTION: Get quota and usage
+-- =====================================================
+
+CREATE OR REPLACE FUNCTION public.get_user_quota()
+RETURNS TABLE (
+    plan TEXT,
+    max_storage_bytes BIGINT,
+    max_resumes INTEGER,
+    storage_bytes BIGINT,
+    resume_count INTEGER
+) AS $$
+    SELECT * FROM public.quota_usage(auth.uid());
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- =====================================================
+-- HELPER FUNCTION: Claim an upload within the quota
+-- =====================================================
+-- Records the upload for an idempotency key as pending and reserves its size, unless that would
+-- go over the plan. The profile row is locked first, so concurrent claims of one user run one
+-- after another and each sees the uploads reserved before it. A key seen before is only
+-- checked again when its upload failed and is about to be retried.
+-- Returns the usage it checked and NULL, or resume_quota_exceeded / storage_quota_exceeded.
+
+CREATE OR REPLACE FUNCTION public.claim_resume_upload(
+    target_user_id UUID,
+    upload_key TEXT,
+    upload_file_path TEXT,
+    upload_file_size BIGINT
+)
+RETURNS TABLE (
+    quota_error TEXT,
+    plan TEXT,
+    max_storage_bytes BIGINT,
+    max_resumes INTEGER,
+    storage_bytes BIGINT,
+    resume_count INTEGER
+) AS $$
+#variable_conflict use_column
+DECLARE
+    existing resume_uploads%ROWTYPE;
+    usage RECORD;
+    error_code TEXT;
+BEGIN
+    PERFORM 1 FROM profiles WHERE id = target_user_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'No profile for user %', target_user_id;
+    END IF;
+
+    SELECT * INTO existing
+    FROM resume_uploads
+    WHERE user_id = target_user_id AND idempotency_key = upload_key;
+
+    SELECT * INTO usage FROM public.quota_usage(target_user_id);
+
+    IF existing.id IS NULL OR existing.status = 'failed' THEN
+        IF usage.resume_count >= usage.max_resumes THEN
+            error_code := 'resume_quota_exceeded';
+        ELSIF usage.storage_bytes + upload_file_size > usage.max_storage_bytes THEN
+            error_code := 'storage_quota_exceeded';
+        ELSIF existing.id IS NULL THEN
+            INSERT INTO resume_uploads (user_id, idempotency_key, file_path, file_size)
+            VALUES (target_user_id, upload_key, upload_file_path, upload_file_size);
+        ELSE
+            UPDATE resume_uploads
+            SET status = 'pending', file_size = upload_file_size, error = NULL
+            WHERE id = existing.id;
+        END IF;
+    END IF;
+
+    RETURN QUERY
+    SELECT error_code, usage.plan, usage.max_storage_bytes, usage.max_resumes, usage.storage_bytes, usage.resume_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_resume_upload(UUID, TEXT, TEXT, BIGINT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.claim_resume_upload(UUID, TEXT, TEXT, BIGINT) TO service_role;
+
+COMMENT ON FUNCTION public.quota_usage(UUID) IS
+'Plan limits and current usage (stored and reserved bytes, resume count) of a user; service role only';
+
+COMMENT ON FUNCTION public.get_user_quota() IS
+'Plan limits and current usage (stored and reserved bytes, resume count) for the current user';
+
+COMMENT ON FUNCTION public.claim_resume_upload(UUID, TEXT, TEXT, BIGINT) IS
+'Records a pending upload and reserves its quota atomically; service role only';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the table, column and function were added:
+
+-- SELECT * FROM plan_quotas;
+-- SELECT column_name FROM information_schema.columns WHERE table_name = 'profiles' AND column_name = 'plan';
+-- SELECT * FROM public.get_user_quota();
+-- SELECT proname FROM pg_proc WHERE proname IN ('quota_usage', 'claim_resume_upload');
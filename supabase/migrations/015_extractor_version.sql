@@ -0,0 +1,30 @@
+-- =====================================================
+-- CV-Optima Extractor Versions
+-- Migration: 015_extractor_version
+-- Description: Record which version of the text extraction logic produced each resume's raw_text
+-- =====================================================
+
+-- =====================================================
+-- RESUMES TABLE
+-- =====================================================
+-- extractor_version matches EXTRACTOR_VERSION in lib/utils/text-extraction.ts at the time the text
+-- was extracted. Rows stored before this migration are 0, so every existing resume is eligible
+-- for the first batch re-parse (POST /api/admin/reparse-resumes).
+-- Like file_path and raw_text, it is written by the server only: users may update just the title
+-- (migration 011), so they cannot mark a resume as already re-parsed.
+
+ALTER TABLE resumes
+    ADD COLUMN IF NOT EXISTS extractor_version INTEGER NOT NULL DEFAULT 0 CHECK (extractor_version >= 0);
+
+COMMENT ON COLUMN resumes.extractor_version IS 'Version of the text extraction logic that produced raw_text (0 = before versioning)';
+
+-- Batch re-parses look for resumes extracted with an older version
+CREATE INDEX IF NOT EXISTS idx_resumes_extractor_version ON resumes(extractor_version)
+    WHERE file_missing = FALSE;
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to see how many resumes each extractor version produced:
+
+-- SELECT extractor_version, COUNT(*) FROM resumes GROUP BY extractor_version ORDER BY extractor_version;
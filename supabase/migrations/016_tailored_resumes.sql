@@ -0,0 +1,76 @@
+-- =====================================================
+-- CV-Optima Tailored Resumes
+-- Migration: 016_tailored_resumes
+-- Description: Per-application copy of a resume for one analysis, where accepted bullet rewrites are applied
+-- =====================================================
+
+-- "Fix This" rewrites never touch resumes.raw_text. The first accepted rewrite for an
+-- analysis copies the resume's text into a tailored resume, and every accepted (or edited)
+-- rewrite is applied to its text and recorded in accepted_suggestions.
+
+-- =====================================================
+-- TAILORED RESUMES TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS tailored_resumes (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    resume_id UUID NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    analysis_id UUID NOT NULL UNIQUE REFERENCES analyses(id) ON DELETE CASCADE,
+    text TEXT NOT NULL,
+    accepted_suggestions JSONB DEFAULT '[]'::jsonb NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE tailored_resumes IS 'Per-application copy of a resume, tailored for one analysis';
+COMMENT ON COLUMN tailored_resumes.text IS 'Resume text with accepted rewrites applied, copied from resumes.raw_text';
+COMMENT ON COLUMN tailored_resumes.accepted_suggestions IS 'Accepted bullet rewrites in the order they were applied (AcceptedSuggestion[])';
+
+CREATE INDEX IF NOT EXISTS idx_tailored_resumes_resume_id ON tailored_resumes(resume_id);
+
+CREATE TRIGGER update_tailored_resumes_updated_at
+    BEFORE UPDATE ON tailored_resumes
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE tailored_resumes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own tailored resumes"
+ON tailored_resumes
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The resume and analysis must belong to the user as well
+CREATE POLICY "Users can insert own tailored resumes"
+ON tailored_resumes
+FOR INSERT
+WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+        SELECT 1 FROM analyses
+        JOIN resumes ON resumes.id = analyses.resume_id
+        WHERE analyses.id = tailored_resumes.analysis_id
+          AND resumes.id = tailored_resumes.resume_id
+          AND resumes.user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Users can update own tailored resumes"
+ON tailored_resumes
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own tailored resumes"
+ON tailored_resumes
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the table and its policies:
+
+-- SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'tailored_resumes';
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'tailored_resumes';
@@ -0,0 +1,25 @@
+-- =====================================================
+-- CV-Optima Tailored Summaries
+-- Migration: 017_tailored_summary
+-- Description: Store the professional summary a user chose for an analysis
+-- =====================================================
+
+-- =====================================================
+-- ANALYSES TABLE
+-- =====================================================
+-- Candidates are generated on demand (app/actions/generate-summary.ts) and only the
+-- one the user picks, possibly edited, is kept so it can be copied or reused later.
+-- The existing "Users can update own analyses" policy covers writing it.
+
+ALTER TABLE analyses
+    ADD COLUMN IF NOT EXISTS tailored_summary TEXT CHECK (char_length(tailored_summary) <= 2000);
+
+COMMENT ON COLUMN analyses.tailored_summary IS 'Professional summary chosen for this job description';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the column was added:
+
+-- SELECT column_name, data_type FROM information_schema.columns
+-- WHERE table_name = 'analyses' AND column_name = 'tailored_summary';
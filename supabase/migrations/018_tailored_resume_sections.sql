@@ -0,0 +1,31 @@
+-- =====================================================
+-- CV-Optima Tailored Resume Sections
+-- Migration: 018_tailored_resume_sections
+-- Description: Edited sections, a change log and a match score for tailored resumes
+-- =====================================================
+
+-- The resume itself is never changed. sections holds the editable copy split at section
+-- headings, and text is always the sections joined back together. Tailored resumes created
+-- before this migration keep an empty sections array until their next save; the app splits
+-- their text when it loads them.
+
+-- =====================================================
+-- TAILORED RESUMES TABLE
+-- =====================================================
+
+ALTER TABLE tailored_resumes
+    ADD COLUMN IF NOT EXISTS sections JSONB DEFAULT '[]'::jsonb NOT NULL,
+    ADD COLUMN IF NOT EXISTS change_log JSONB DEFAULT '[]'::jsonb NOT NULL,
+    ADD COLUMN IF NOT EXISTS match_score INTEGER CHECK (match_score >= 0 AND match_score <= 100);
+
+COMMENT ON COLUMN tailored_resumes.text IS 'Tailored resume text, the sections joined together';
+COMMENT ON COLUMN tailored_resumes.sections IS 'Editable copy split at section headings (TailoredSection[])';
+COMMENT ON COLUMN tailored_resumes.change_log IS 'Every change, oldest first, with the match score after it (TailoredChange[])';
+COMMENT ON COLUMN tailored_resumes.match_score IS 'Keyword match score of text against the analysis job description (0-100)';
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the columns were added:
+
+-- SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'tailored_resumes';
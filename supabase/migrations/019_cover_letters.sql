@@ -0,0 +1,81 @@
+-- =====================================================
+-- CV-Optima Cover Letters
+-- Migration: 019_cover_letters
+-- Description: Cover letters generated for an analysis, editable and kept per application
+-- =====================================================
+
+-- Each generation (app/actions/cover-letter.ts) stores a new letter for the analysis with
+-- the tone and length it was asked for. The user edits text in place; earlier letters
+-- stay until they are deleted, so every letter for one application is kept together.
+
+-- =====================================================
+-- COVER LETTERS TABLE
+-- =====================================================
+
+CREATE TABLE IF NOT EXISTS cover_letters (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    resume_id UUID NOT NULL REFERENCES resumes(id) ON DELETE CASCADE,
+    analysis_id UUID NOT NULL REFERENCES analyses(id) ON DELETE CASCADE,
+    tone TEXT NOT NULL CHECK (tone IN ('professional', 'enthusiastic', 'conversational')),
+    length TEXT NOT NULL CHECK (length IN ('short', 'medium', 'long')),
+    text TEXT NOT NULL CHECK (char_length(text) <= 10000),
+    edited BOOLEAN DEFAULT FALSE NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT NOW() NOT NULL,
+    updated_at TIMESTAMPTZ DEFAULT NOW() NOT NULL
+);
+
+COMMENT ON TABLE cover_letters IS 'Cover letters generated for an analysis';
+COMMENT ON COLUMN cover_letters.resume_id IS 'Resume the letter was written from';
+COMMENT ON COLUMN cover_letters.tone IS 'Tone the letter was generated in';
+COMMENT ON COLUMN cover_letters.length IS 'Length the letter was generated at';
+COMMENT ON COLUMN cover_letters.edited IS 'True once the user saved changes to the generated text';
+
+CREATE INDEX IF NOT EXISTS idx_cover_letters_analysis_id ON cover_letters(analysis_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cover_letters_resume_id ON cover_letters(resume_id);
+
+CREATE TRIGGER update_cover_letters_updated_at
+    BEFORE UPDATE ON cover_letters
+    FOR EACH ROW
+    EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE cover_letters ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own cover letters"
+ON cover_letters
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- The resume and analysis must belong to the user as well
+CREATE POLICY "Users can insert own cover letters"
+ON cover_letters
+FOR INSERT
+WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+        SELECT 1 FROM analyses
+        JOIN resumes ON resumes.id = analyses.resume_id
+        WHERE analyses.id = cover_letters.analysis_id
+          AND resumes.id = cover_letters.resume_id
+          AND resumes.user_id = auth.uid()
+    )
+);
+
+CREATE POLICY "Users can update own cover letters"
+ON cover_letters
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own cover letters"
+ON cover_letters
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- =====================================================
+-- VERIFICATION QUERIES
+-- =====================================================
+-- Uncomment to verify the table and its policies:
+
+-- SELECT column_name, data_type FROM information_schema.columns WHERE table_name = 'cover_letters';
+-- SELECT policyname, cmd FROM pg_policies WHERE tablename = 'cover_letters';